@@ -1,4 +1,5 @@
-import { app, shell, BrowserWindow } from 'electron'
+import { app, shell, BrowserWindow, dialog, ipcMain } from 'electron'
+import { writeFile, unlink } from 'fs/promises'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 
@@ -36,6 +37,62 @@ function createWindow(): void {
   }
 }
 
+interface FileFilter {
+  name: string
+  extensions: string[]
+}
+
+interface SaveFileRequest {
+  content: string | Uint8Array
+  fileName: string
+  filters: FileFilter[]
+}
+
+interface PrintToPdfRequest {
+  html: string
+  fileName: string
+  pageSize: 'A4' | 'Letter'
+}
+
+/** Ask where to save, as a sheet on the calling window when there is one. */
+async function askSavePath(owner: BrowserWindow | null, fileName: string, filters: FileFilter[]): Promise<string | null> {
+  const options = { defaultPath: fileName, filters }
+  const { canceled, filePath } = owner ? await dialog.showSaveDialog(owner, options) : await dialog.showSaveDialog(options)
+  return canceled || !filePath ? null : filePath
+}
+
+/** Save text or binary data where the user chooses; resolves to the saved path, or null when cancelled. */
+async function saveFile(owner: BrowserWindow | null, { content, fileName, filters }: SaveFileRequest): Promise<string | null> {
+  const filePath = await askSavePath(owner, fileName, filters)
+  if (!filePath) return null
+  await writeFile(filePath, content)
+  return filePath
+}
+
+/**
+ * Render a printable page in a hidden window and save it as a PDF where the user chooses.
+ * Resolves to the saved path, or null when the dialog is cancelled.
+ */
+async function printToPdf(owner: BrowserWindow | null, { html, fileName, pageSize }: PrintToPdfRequest): Promise<string | null> {
+  const filePath = await askSavePath(owner, fileName, [{ name: 'PDF', extensions: ['pdf'] }])
+  if (!filePath) return null
+
+  // Large pages outgrow a data URL, so the page goes through a temporary file
+  const page = join(app.getPath('temp'), `print-${Date.now()}.html`)
+  // The sheets are static markup, so the window runs no script
+  const printWindow = new BrowserWindow({ show: false, webPreferences: { sandbox: true, javascript: false } })
+  try {
+    await writeFile(page, html, 'utf-8')
+    await printWindow.loadFile(page)
+    const pdf = await printWindow.webContents.printToPDF({ pageSize, printBackground: true, margins: { top: 0.4, bottom: 0.4, left: 0.4, right: 0.4 } })
+    await writeFile(filePath, pdf)
+    return filePath
+  } finally {
+    printWindow.destroy()
+    await unlink(page).catch(() => {})
+  }
+}
+
 app.whenReady().then(() => {
   electronApp.setAppUserModelId('com.shepherds-power-tools')
 
@@ -43,6 +100,13 @@ app.whenReady().then(() => {
     optimizer.watchWindowShortcuts(window)
   })
 
+  ipcMain.handle('save-file', (event, request: SaveFileRequest) =>
+    saveFile(BrowserWindow.fromWebContents(event.sender), request)
+  )
+  ipcMain.handle('print-to-pdf', (event, request: PrintToPdfRequest) =>
+    printToPdf(BrowserWindow.fromWebContents(event.sender), request)
+  )
+
   createWindow()
 
   app.on('activate', () => {
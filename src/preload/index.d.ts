@@ -1,8 +1,23 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
 
+interface SaveFileRequest {
+  content: string | Uint8Array
+  fileName: string
+  filters: { name: string; extensions: string[] }[]
+}
+
+interface PrintToPdfRequest {
+  html: string
+  fileName: string
+  pageSize: 'A4' | 'Letter'
+}
+
 declare global {
   interface Window {
     electron: ElectronAPI
-    api: unknown
+    api: {
+      saveFile(request: SaveFileRequest): Promise<string | null>
+      printToPdf(request: PrintToPdfRequest): Promise<string | null>
+    }
   }
 }
@@ -1,7 +1,14 @@
-import { contextBridge } from 'electron'
+import { contextBridge, ipcRenderer } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
-const api = {}
+const api = {
+  /** Save text or image data through a native save dialog; resolves to the saved path, or null if cancelled. */
+  saveFile: (request: { content: string | Uint8Array; fileName: string; filters: { name: string; extensions: string[] }[] }): Promise<string | null> =>
+    ipcRenderer.invoke('save-file', request),
+  /** Save a printable HTML page as a PDF; resolves to the saved path, or null if cancelled. */
+  printToPdf: (request: { html: string; fileName: string; pageSize: 'A4' | 'Letter' }): Promise<string | null> =>
+    ipcRenderer.invoke('print-to-pdf', request)
+}
 
 if (process.contextIsolated) {
   try {
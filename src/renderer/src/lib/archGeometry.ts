@@ -0,0 +1,84 @@
+export type ArchShape = 'segmental' | 'semicircle' | 'cathedral'
+
+/**
+ * One curve of an arched unit: the outside of the beading, its inside edge, or the panel.
+ * Points are measured from the middle of the unit, upward from the outer springing line
+ * (where the outer curve meets the sides).
+ */
+export interface ArchCurve {
+  radius: number
+  span: number             // chord between the sides at this inset
+  spring: number           // height where the curve meets the sides
+  crown: number            // height of the top of the curve
+  length: number           // along the curve, side to side
+  springMitre: number      // saw setting from square where the curve meets a side, in degrees
+  crownMitre: number       // saw setting from square at a pointed crown; 0 for a smooth one
+  centres: { x: number; y: number }[]   // one per arc: the left half's first for a pointed arch
+}
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI
+
+/** Rise the shape can actually take over a half-span: semicircles are fixed, pointed arches need at least a semicircle. */
+export function archRise(shape: ArchShape, halfSpan: number, rise: number): number {
+  if (shape === 'semicircle') return halfSpan
+  if (shape === 'cathedral') return Math.max(rise, halfSpan)
+  return Math.min(Math.max(rise, 1), halfSpan)
+}
+
+/**
+ * The curve `inset` in from the outside of an arch spanning `2 × halfSpan` with the given rise.
+ * Segmental and semicircular tops are one arc; a cathedral top is two arcs meeting at a point,
+ * each struck from the springing line so it runs smoothly into the sides. Insets share the
+ * outer curve's centres. Returns null when the inset curve no longer reaches the sides.
+ */
+export function archCurve(shape: ArchShape, halfSpan: number, rise: number, inset: number): ArchCurve | null {
+  const a = halfSpan
+  const h = archRise(shape, a, rise)
+  const half = a - inset
+  if (half <= 0) return null
+
+  if (shape === 'cathedral') {
+    const c = (h * h - a * a) / (2 * a)
+    const r = a + c - inset
+    if (r <= c) return null
+    const crown = Math.sqrt(r * r - c * c)
+    return {
+      radius: r,
+      span: 2 * half,
+      spring: 0,
+      crown,
+      length: 2 * r * Math.acos(c / r),
+      springMitre: 0,
+      crownMitre: toDegrees(Math.atan2(c, crown)),
+      centres: [{ x: c, y: 0 }, { x: -c, y: 0 }]
+    }
+  }
+
+  const R = (a * a + h * h) / (2 * h)
+  const cy = h - R
+  const r = R - inset
+  if (r < half - 1e-9) return null
+  const theta = 2 * Math.asin(Math.min(1, half / r))
+  return {
+    radius: r,
+    span: 2 * half,
+    spring: cy + Math.sqrt(Math.max(0, r * r - half * half)),
+    crown: cy + r,
+    length: r * theta,
+    // The corner between the side and the curve is 90° plus half the arc's angle; the mitre bisects it
+    springMitre: 45 - toDegrees(theta) / 4,
+    crownMitre: 0,
+    centres: [{ x: 0, y: cy }]
+  }
+}
+
+/** SVG path for the top of a curve, from its left springing point, with y measured downward from `originY`. */
+export function archPathSegment(curve: ArchCurve, originX: number, originY: number): string {
+  const half = curve.span / 2
+  const right = `${originX + half} ${originY - curve.spring}`
+  if (curve.centres.length === 2) {
+    const crown = `${originX} ${originY - curve.crown}`
+    return `A ${curve.radius} ${curve.radius} 0 0 1 ${crown} A ${curve.radius} ${curve.radius} 0 0 1 ${right}`
+  }
+  return `A ${curve.radius} ${curve.radius} 0 0 1 ${right}`
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, toCsv } from './csv'
+
+describe('parseCsv', () => {
+  it('splits rows on any line ending', () => {
+    expect(parseCsv('a,b\r\nc,d\ne,f')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f']
+    ])
+  })
+
+  it('uses the delimiter the first line uses', () => {
+    expect(parseCsv('Name;Width\nA;1,5')).toEqual([
+      ['Name', 'Width'],
+      ['A', '1,5']
+    ])
+    expect(parseCsv('Name\tWidth\nA, B\t762')).toEqual([
+      ['Name', 'Width'],
+      ['A, B', '762']
+    ])
+  })
+
+  it('reads quoted delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('"Hall, front","2\' 6"""\n"two\nlines",x')).toEqual([
+      ['Hall, front', `2' 6"`],
+      ['two\nlines', 'x']
+    ])
+  })
+
+  it('ignores a quoted delimiter when choosing the delimiter', () => {
+    expect(parseCsv('"a;b;c",d')).toEqual([['a;b;c', 'd']])
+  })
+
+  it('strips a byte-order mark', () => {
+    expect(parseCsv('\ufeffName,Width\n')).toEqual([['Name', 'Width']])
+  })
+
+  it('keeps blank lines so rows stay numbered', () => {
+    expect(parseCsv('a\n\nb')).toEqual([['a'], [''], ['b']])
+  })
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['Door', 'Notes'], ['A', 'say "hi", then\nleave'], ['B', ' padded ']]
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+})
@@ -0,0 +1,65 @@
+export type CsvCell = string | number
+
+/** Quote a field when it holds a delimiter, quote, line break or edge space. */
+function csvField(value: CsvCell): string {
+  const s = `${value}`
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/**
+ * Rows as CSV (RFC 4180: comma-separated, CRLF line ends). Starts with a byte-order mark so
+ * Excel reads "×" and "—" as UTF-8 rather than the system code page.
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return '\ufeff' + rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Split CSV text into rows of fields. The delimiter is whichever of comma, semicolon (Excel in
+ * locales with a decimal comma) or tab (pasted from a spreadsheet) the first line uses most.
+ * Quoted fields may hold delimiters, doubled quotes and line breaks. A blank line comes back as
+ * a row of one empty field, so rows keep the numbers a spreadsheet shows.
+ */
+export function parseCsv(text: string): string[][] {
+  const s = text.replace(/^\ufeff/, '')
+  const firstLine = s.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const endRow = () => {
+    row.push(field)
+    rows.push(row)
+    row = []
+    field = ''
+  }
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i]
+    if (quoted) {
+      if (ch === '"' && s[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && s[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
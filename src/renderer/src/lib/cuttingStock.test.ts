@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { type CutPiece, planCuts } from './cuttingStock'
+
+const pieces = (...lengths: number[]): CutPiece[] => lengths.map((length, i) => ({ label: `P${i + 1}`, length }))
+
+describe('planCuts', () => {
+  it('leaves out a piece longer than every stock length', () => {
+    const plan = planCuts(pieces(3100, 500), [2400, 3000], 3)
+    expect(plan.unplaced.map((p) => p.length)).toEqual([3100])
+    expect(plan.bars).toHaveLength(1)
+    expect(plan.bars[0].pieces.map((p) => p.length)).toEqual([500])
+  })
+
+  it('places nothing without a stock length', () => {
+    for (const stock of [[], [0, -100]]) {
+      const plan = planCuts(pieces(500, 800), stock, 3)
+      expect(plan.bars).toEqual([])
+      expect(plan.purchase).toEqual([])
+      expect(plan.unplaced).toHaveLength(2)
+      expect(plan.totalStock).toBe(0)
+      expect(plan.totalOffcut).toBe(0)
+    }
+  })
+
+  it('allows a kerf between pieces on the same length', () => {
+    expect(planCuts(pieces(1200, 1197), [2400], 3).bars).toHaveLength(1)
+    expect(planCuts(pieces(1200, 1198), [2400], 3).bars).toHaveLength(2)
+  })
+
+  it('charges the final kerf only when the last piece stops short of the end', () => {
+    expect(planCuts(pieces(1200, 1197), [2400], 3).bars[0]).toMatchObject({ used: 2400, offcut: 0 })
+    expect(planCuts(pieces(1200, 1195), [2400], 3).bars[0]).toMatchObject({ used: 2398, offcut: 0 })
+    expect(planCuts(pieces(1000, 1000), [2400], 3).bars[0]).toMatchObject({ used: 2003, offcut: 394 })
+  })
+
+  it('packs longest first into the fullest length that still fits', () => {
+    const plan = planCuts(pieces(600, 1800, 500, 1500), [2400], 0)
+    expect(plan.bars.map((b) => b.pieces.map((p) => p.length))).toEqual([[1800, 600], [1500, 500]])
+  })
+
+  it('swaps each length for the shortest stock that holds its pieces', () => {
+    const plan = planCuts(pieces(1400, 1400, 2000), [3000, 2400], 3)
+    expect(plan.bars.map((b) => b.stockLength)).toEqual([2400, 3000])
+    expect(plan.purchase).toEqual([
+      { stockLength: 2400, count: 1 },
+      { stockLength: 3000, count: 1 }
+    ])
+  })
+
+  it('totals the stock bought and the offcut left', () => {
+    const plan = planCuts(pieces(1400, 1400, 2000), [2400, 3000], 3)
+    // 2400 holds 2000 with 400 left less a kerf; 3000 holds 1400 + 3 + 1400 with 197 left less a kerf
+    expect(plan.totalStock).toBe(5400)
+    expect(plan.totalOffcut).toBe(397 + 194)
+    const placed = plan.bars.reduce((sum, b) => sum + b.used, 0)
+    expect(plan.totalStock - plan.totalOffcut - placed).toBe(2 * 3)
+  })
+})
@@ -0,0 +1,82 @@
+export interface CutPiece {
+  label: string
+  group?: string     // e.g. the door a piece belongs to
+  length: number
+}
+
+export interface StockBar {
+  stockLength: number
+  pieces: CutPiece[]
+  used: number       // piece lengths plus the kerf between them
+  offcut: number     // usable length left after the last cut
+}
+
+export interface CuttingPlan {
+  bars: StockBar[]
+  unplaced: CutPiece[]   // pieces longer than the longest stock length
+  purchase: { stockLength: number; count: number }[]
+  totalStock: number
+  totalOffcut: number
+}
+
+function usedLength(pieces: CutPiece[], kerf: number): number {
+  if (pieces.length === 0) return 0
+  return pieces.reduce((sum, p) => sum + p.length, 0) + kerf * (pieces.length - 1)
+}
+
+/**
+ * Pack pieces into stock lengths (1D cutting stock) using best-fit decreasing.
+ * Bars are filled from the longest stock length, then each bar is swapped for the
+ * shortest stock length that still holds its pieces.
+ */
+export function planCuts(pieces: CutPiece[], stockLengths: number[], kerf: number): CuttingPlan {
+  const stock = [...new Set(stockLengths.filter((l) => l > 0))].sort((a, b) => a - b)
+  const longest = stock[stock.length - 1] ?? 0
+  const sorted = [...pieces].sort((a, b) => b.length - a.length)
+
+  const bars: StockBar[] = []
+  const unplaced: CutPiece[] = []
+  for (const piece of sorted) {
+    if (piece.length > longest) {
+      unplaced.push(piece)
+      continue
+    }
+    let best: StockBar | null = null
+    let bestLeft = Infinity
+    for (const bar of bars) {
+      const left = bar.stockLength - bar.used - (bar.pieces.length > 0 ? kerf : 0) - piece.length
+      if (left >= 0 && left < bestLeft) {
+        best = bar
+        bestLeft = left
+      }
+    }
+    if (!best) {
+      best = { stockLength: longest, pieces: [], used: 0, offcut: 0 }
+      bars.push(best)
+    }
+    best.pieces.push(piece)
+    best.used = usedLength(best.pieces, kerf)
+  }
+
+  for (const bar of bars) {
+    bar.stockLength = stock.find((l) => l >= bar.used) ?? longest
+    const left = bar.stockLength - bar.used
+    // The final cut costs a kerf unless the last piece runs to the end of the bar
+    bar.offcut = left > kerf ? left - kerf : 0
+  }
+
+  const purchase = stock
+    .map((stockLength) => ({
+      stockLength,
+      count: bars.filter((b) => b.stockLength === stockLength).length
+    }))
+    .filter((p) => p.count > 0)
+
+  return {
+    bars,
+    unplaced,
+    purchase,
+    totalStock: bars.reduce((sum, b) => sum + b.stockLength, 0),
+    totalOffcut: bars.reduce((sum, b) => sum + b.offcut, 0)
+  }
+}
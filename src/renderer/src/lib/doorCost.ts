@@ -0,0 +1,162 @@
+import { type CuttingPlan } from '@/lib/cuttingStock'
+import { type NestingPlan } from '@/lib/sheetNesting'
+import { type UnitSettings, formatLength, unitSuffix } from '@/lib/units'
+import { type SavedDoor, calculateDoorCuts } from '@/lib/doorCuts'
+
+export interface PriceSettings {
+  currency: string
+  beadingMode: 'metre' | 'length'           // price beading by the metre or by the stock length
+  beadingPerMetre: number
+  beadingLengthPrices: Record<string, number> // price per stock length, keyed by length in mm
+  flexibleBeadingPerMetre: number            // arched tops
+  glazingBeadPerMetre: number
+  mdfPerSheet: number
+  pinPackPrice: number
+  pinsPerPack: number
+  pinsPerPiece: number
+  adhesivePerTube: number
+  beadingPerTube: number                      // metres of beading one tube of adhesive fixes
+  paintPerTin: number
+  paintCoverage: number                       // m² per tin, per coat
+  paintCoats: number
+}
+
+export const defaultPrices: PriceSettings = {
+  currency: '£',
+  beadingMode: 'metre',
+  beadingPerMetre: 1.5,
+  beadingLengthPrices: {},
+  flexibleBeadingPerMetre: 4,
+  glazingBeadPerMetre: 1,
+  mdfPerSheet: 30,
+  pinPackPrice: 4,
+  pinsPerPack: 500,
+  pinsPerPiece: 3,
+  adhesivePerTube: 6,
+  beadingPerTube: 15,
+  paintPerTin: 25,
+  paintCoverage: 12,
+  paintCoats: 2
+}
+
+interface CostLine {
+  item: string
+  quantity: string
+  cost: number
+}
+
+export interface DoorCost {
+  name: string
+  lines: CostLine[]
+  total: number
+}
+
+export interface ProjectCost {
+  lines: CostLine[]    // whole purchase units: lengths, sheets, packs, tubes, tins
+  doors: DoorCost[]    // project cost shared out by what each door uses
+  total: number
+}
+
+export function formatMoney(v: number, prices: PriceSettings): string {
+  return `${prices.currency}${v.toFixed(2)}`
+}
+
+export function stockLengthPrice(length: number, prices: PriceSettings): number {
+  return prices.beadingLengthPrices[length] ?? Math.round(prices.beadingPerMetre * length / 10) / 100
+}
+
+/**
+ * Cost the materials for every valid door. Project lines are what you actually buy;
+ * each door's share is split by its beading length, panel area, pin count and face area,
+ * so the per-door totals add up to the project total. Flexible beading and glazing bead are
+ * lines of their own, and glass and open units aren't painted with the face.
+ */
+export function calculateProjectCost(
+  doors: SavedDoor[],
+  prices: PriceSettings,
+  beadingPlan: CuttingPlan,
+  sheetPlan: NestingPlan,
+  units: UnitSettings
+): ProjectCost {
+  const L = (mm: number) => `${formatLength(mm, units, 0)} ${unitSuffix(units)}`
+  const usage = doors.map((d) => {
+    const cuts = calculateDoorCuts(d.config, units)
+    if (!cuts.isValid) return { beading: 0, flexible: 0, glued: 0, glazingBead: 0, panelArea: 0, pins: 0, faceArea: 0 }
+    const unpainted = cuts.panelUnits.filter((u) => u.infill !== 'mdf').reduce((sum, u) => sum + u.width * u.height, 0)
+    return {
+      beading: cuts.beadingStockLength,
+      flexible: cuts.flexibleBeadingLength,
+      glued: cuts.beadingStockLength + cuts.flexibleBeadingLength,
+      glazingBead: cuts.glazingBeadStockLength,
+      panelArea: cuts.panelUnits.filter((u) => u.infill === 'mdf').reduce((sum, u) => sum + u.panelWidth * u.panelHeight, 0),
+      pins: (cuts.beadingCount + cuts.glazingBeadCount) * prices.pinsPerPiece,
+      faceArea: ((d.config.pair ? 2 : 1) * (d.config.back ? 2 : 1) * d.config.doorWidth * d.config.doorHeight - unpainted) / 1e6
+    }
+  })
+  const total = (key: keyof (typeof usage)[number]) => usage.reduce((sum, use) => sum + use[key], 0)
+  const beading = total('beading')
+  const flexible = total('flexible')
+  const glazingBead = total('glazingBead')
+  const pins = total('pins')
+  const paintArea = total('faceArea') * prices.paintCoats
+
+  const packs = prices.pinsPerPack > 0 ? Math.ceil(pins / prices.pinsPerPack) : 0
+  const tubes = prices.beadingPerTube > 0 ? Math.ceil(total('glued') / 1000 / prices.beadingPerTube) : 0
+  const tins = prices.paintCoverage > 0 ? Math.ceil(paintArea / prices.paintCoverage) : 0
+
+  const lines: (CostLine & { share: keyof (typeof usage)[number] })[] = [
+    prices.beadingMode === 'metre'
+      ? { item: 'Beading', quantity: units.system === 'metric' ? `${(beading / 1000).toFixed(1)} m` : L(beading), cost: (beading / 1000) * prices.beadingPerMetre, share: 'beading' }
+      : {
+          item: 'Beading',
+          quantity: beadingPlan.purchase.map((p) => `${p.count} × ${L(p.stockLength)}`).join(', ') || '—',
+          cost: beadingPlan.purchase.reduce((sum, p) => sum + p.count * stockLengthPrice(p.stockLength, prices), 0),
+          share: 'beading'
+        },
+    ...(flexible > 0
+      ? [{ item: 'Flexible beading', quantity: units.system === 'metric' ? `${(flexible / 1000).toFixed(1)} m` : L(flexible), cost: (flexible / 1000) * prices.flexibleBeadingPerMetre, share: 'flexible' as const }]
+      : []),
+    ...(glazingBead > 0
+      ? [{ item: 'Glazing bead', quantity: units.system === 'metric' ? `${(glazingBead / 1000).toFixed(1)} m` : L(glazingBead), cost: (glazingBead / 1000) * prices.glazingBeadPerMetre, share: 'glazingBead' as const }]
+      : []),
+    { item: 'MDF', quantity: `${sheetPlan.sheets.length} sheet${sheetPlan.sheets.length === 1 ? '' : 's'}`, cost: sheetPlan.sheets.length * prices.mdfPerSheet, share: 'panelArea' },
+    { item: 'Pins', quantity: `${packs} pack${packs === 1 ? '' : 's'} (${pins} pins)`, cost: packs * prices.pinPackPrice, share: 'pins' },
+    { item: 'Adhesive', quantity: `${tubes} tube${tubes === 1 ? '' : 's'}`, cost: tubes * prices.adhesivePerTube, share: 'glued' },
+    { item: 'Paint', quantity: `${tins} tin${tins === 1 ? '' : 's'} (${Math.round(paintArea * 10) / 10} m²)`, cost: tins * prices.paintPerTin, share: 'faceArea' }
+  ]
+
+  const doorCosts = doors.map((d, i) => {
+    const doorLines = lines.map(({ item, cost, share }) => {
+      const all = total(share)
+      return { item, quantity: '', cost: all > 0 ? (cost * usage[i][share]) / all : 0 }
+    })
+    return { name: d.name, lines: doorLines, total: doorLines.reduce((sum, l) => sum + l.cost, 0) }
+  })
+
+  return {
+    lines: lines.map(({ item, quantity, cost }) => ({ item, quantity, cost })),
+    doors: doorCosts,
+    total: lines.reduce((sum, l) => sum + l.cost, 0)
+  }
+}
+
+export function formatDoorCostText(cost: DoorCost, prices: PriceSettings): string[] {
+  return [
+    `💷 Materials cost`,
+    ...cost.lines.map((l) => `  ${l.item}: ${formatMoney(l.cost, prices)}`),
+    `  Total: ${formatMoney(cost.total, prices)}`
+  ]
+}
+
+export function formatQuoteText(cost: ProjectCost, prices: PriceSettings): string[] {
+  return [
+    `💷 Materials Quote`,
+    ...cost.lines.map((l) => `  ${l.item} — ${l.quantity}: ${formatMoney(l.cost, prices)}`),
+    ``,
+    `  Per door:`,
+    ...cost.doors.map((d) => `    ${d.name}: ${formatMoney(d.total, prices)}`),
+    ``,
+    `  Project total: ${formatMoney(cost.total, prices)}`
+  ]
+}
+
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { createDoor } from './doorCuts'
+import { importDoorsCsv } from './doorCsv'
+import { type UnitSettings, MM_PER_INCH } from './units'
+
+const metric: UnitSettings = { system: 'metric', precision: 16 }
+const imperial: UnitSettings = { system: 'imperial', precision: 16 }
+const base = createDoor('Base').config
+
+describe('importDoorsCsv', () => {
+  it('reads columns by header, in any order, copying the rest from the base door', () => {
+    const { doors, errors } = importDoorsCsv(
+      'Height,Name,Width,Notes,Rows,Cols\n2032,Hall,813,Oak,3,2\n1981,Back,762,,,',
+      base,
+      metric
+    )
+    expect(errors).toEqual([])
+    expect(doors.map((d) => [d.name, d.config.doorWidth, d.config.doorHeight])).toEqual([
+      ['Hall', 813, 2032],
+      ['Back', 762, 1981]
+    ])
+    expect(doors[0].config).toMatchObject({ rows: 3, columns: 2 })
+    expect(doors[0].notes).toBe('Oak')
+    expect(doors[1].config).toMatchObject({ rows: base.rows, columns: base.columns })
+    expect(doors[1]).not.toHaveProperty('notes')
+    expect(doors[0].config.hingeHeights).toHaveLength(base.hingeCount)
+    expect(doors[0].id).not.toBe(doors[1].id)
+  })
+
+  it('takes name, width and height in order when there is no header', () => {
+    const { doors, errors } = importDoorsCsv('Hall,813,2032,4,1', base, metric)
+    expect(errors).toEqual([])
+    expect(doors[0]).toMatchObject({ name: 'Hall', config: { doorWidth: 813, doorHeight: 2032, rows: 4, columns: 1 } })
+  })
+
+  it('reads semicolon and tab separated files', () => {
+    for (const text of ['Name;Width;Height\nHall;813;2032', 'Name\tWidth\tHeight\nHall\t813\t2032']) {
+      const { doors } = importDoorsCsv(text, base, metric)
+      expect(doors.map((d) => [d.name, d.config.doorWidth])).toEqual([['Hall', 813]])
+    }
+  })
+
+  it('keeps quoted commas in names and notes', () => {
+    const { doors } = importDoorsCsv('Name,Width,Height,Notes\n"Hall, front",813,2032,"glazed, 3 lites"', base, metric)
+    expect(doors[0].name).toBe('Hall, front')
+    expect(doors[0].notes).toBe('glazed, 3 lites')
+  })
+
+  it('reads imperial lengths in the display unit', () => {
+    const { doors, errors } = importDoorsCsv(`Name,Width,Height\nHall,32,"6' 8"""\nBack,30 1/2,80`, base, imperial)
+    expect(errors).toEqual([])
+    expect(doors[0].config.doorWidth).toBeCloseTo(32 * MM_PER_INCH)
+    expect(doors[0].config.doorHeight).toBeCloseTo(80 * MM_PER_INCH)
+    expect(doors[1].config.doorWidth).toBeCloseTo(30.5 * MM_PER_INCH)
+  })
+
+  it('lets a unit in the header override the display unit', () => {
+    const { doors } = importDoorsCsv('Name,Width (mm),Height (in)\nHall,813,80', base, imperial)
+    expect(doors[0].config.doorWidth).toBe(813)
+    expect(doors[0].config.doorHeight).toBeCloseTo(80 * MM_PER_INCH)
+  })
+
+  it('reports malformed rows by spreadsheet row number and imports the rest', () => {
+    const { doors, errors } = importDoorsCsv(
+      'Name,Width,Height,Rows\nGood,813,2032,\n,813,2032\nWide,5000,2032\nOdd,abc,2032\nHalf,813,2032,2.5\nShort,813',
+      base,
+      metric
+    )
+    expect(doors.map((d) => d.name)).toEqual(['Good'])
+    expect(errors.map((e) => [e.row, e.name])).toEqual([
+      [3, ''],
+      [4, 'Wide'],
+      [5, 'Odd'],
+      [6, 'Half'],
+      [7, 'Short']
+    ])
+    expect(errors[0].message).toBe('no door name')
+    expect(errors[1].message).toBe('width 5000 is outside 300–1200 mm')
+    expect(errors[2].message).toBe('width "abc" isn\'t a length')
+    expect(errors[3].message).toBe('rows "2.5" should be a whole number from 1 to 6')
+    expect(errors[4].message).toBe('no height')
+  })
+
+  it('skips blank rows without reporting them', () => {
+    const { doors, errors } = importDoorsCsv('Name,Width,Height\n\nHall,813,2032\n,,\n', base, metric)
+    expect(errors).toEqual([])
+    expect(doors).toHaveLength(1)
+  })
+})
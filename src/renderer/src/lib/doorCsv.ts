@@ -0,0 +1,205 @@
+import { type UnitSettings, MM_PER_INCH, formatLength, parseLength, unitSuffix } from '@/lib/units'
+import { type CsvCell, parseCsv, toCsv } from '@/lib/csv'
+import {
+  type DoorConfig,
+  type SavedDoor,
+  archMitres,
+  calculateDoorCuts,
+  pieceJointName,
+  pieceJoints,
+  rowShapeLabels,
+  sizeLimits,
+  standardHingeHeights
+} from '@/lib/doorCuts'
+
+export const csvFilters = [{ name: 'CSV', extensions: ['csv'] }]
+
+/** A length as a plain number in the display unit, so a spreadsheet can add it up: inches are decimals of the chosen fraction. */
+function spreadsheetLength(mm: number, units: UnitSettings): number {
+  if (units.system === 'metric') return Number(formatLength(mm, units))
+  return Math.round((mm / MM_PER_INCH) * units.precision) / units.precision
+}
+
+/** e.g. "Top — Left, Right", or "All" for a cut line that covers every unit. */
+const cutUnitName = (b: { group: string; detail: string }) => [b.group, b.detail].filter(Boolean).join(' — ') || 'All'
+
+/**
+ * Every door's beading as spreadsheet rows, one per piece size: straight beading, arch beading
+ * and glazing bead. An out-of-square door lists each unit's pieces at their own sizes.
+ */
+export function cutListCsv(doors: SavedDoor[], units: UnitSettings): string {
+  const n = (mm: number) => spreadsheetLength(mm, units)
+  const u = unitSuffix(units)
+  const rows: CsvCell[][] = [['Door', 'Unit', 'Piece', 'Qty', `Long point (${u})`, `Short point (${u})`, `Cut length (${u})`, 'Ends', 'Material']]
+  doors.forEach((door) => {
+    const c = door.config
+    const cuts = calculateDoorCuts(c, units)
+    if (!cuts.isValid) {
+      rows.push([door.name, '', 'Invalid configuration', 0, '', '', '', '', ''])
+      return
+    }
+    const beading = `Beading ${formatLength(c.beadingWidth, units)} ${u}`
+    const oversize = c.oversizeToFit ? c.trimAllowance : 0
+    if (cuts.shape) {
+      cuts.shape.pieces.forEach((p) => {
+        const orientation = p.edge === 'top' || p.edge === 'bottom' ? 'horizontal' : 'vertical'
+        const ends = pieceJointName({ orientation, ends: pieceJoints(c, orientation).ends }, c)
+        rows.push([door.name, p.unit, `${p.edge[0].toUpperCase()}${p.edge.slice(1)} beading`, 1, n(p.longPoint), n(p.shortPoint), n(p.longPoint + oversize), ends, beading])
+      })
+    } else {
+      cuts.beadingCuts.forEach((b) => {
+        rows.push([door.name, cutUnitName(b), `${b.orientation === 'horizontal' ? 'Horizontal' : 'Vertical'} beading`, b.qty, n(b.longPoint), n(b.shortPoint), n(b.cutLength), pieceJointName(b, c), beading])
+      })
+    }
+    cuts.arches.forEach((a) => {
+      rows.push([door.name, cutUnitName(a), `${rowShapeLabels[a.shape]} arch beading`, a.qty, n(a.longPoint), n(a.shortPoint), n(a.cutLength), archMitres(a), `Flexible ${beading.toLowerCase()}`])
+    })
+    const glazingBead = `Glazing bead ${formatLength(c.glazingBeadWidth, units)} ${u}`
+    cuts.glazingBeadCuts.forEach((b) => {
+      rows.push([door.name, cutUnitName(b), `${b.orientation === 'horizontal' ? 'Horizontal' : 'Vertical'} glazing bead`, b.qty, n(b.longPoint), n(b.shortPoint), n(b.cutLength), pieceJointName(b, c), glazingBead])
+    })
+    cuts.glazing.forEach((g) => {
+      if (g.arch) rows.push([door.name, cutUnitName(g), 'Arch glazing bead', g.arch.qty, n(g.arch.longPoint), n(g.arch.shortPoint), n(g.arch.cutLength), archMitres(g.arch), `Flexible ${glazingBead.toLowerCase()}`])
+    })
+  })
+  return toCsv(rows)
+}
+
+/**
+ * Every door's MDF panels, and its glass, as spreadsheet rows. An out-of-square door lists each
+ * panel at the size to cut it from, with the edge lengths to trim it to.
+ */
+export function panelsCsv(doors: SavedDoor[], units: UnitSettings): string {
+  const n = (mm: number) => spreadsheetLength(mm, units)
+  const L = (mm: number) => formatLength(mm, units)
+  const u = unitSuffix(units)
+  const rows: CsvCell[][] = [['Door', 'Unit', 'Qty', `Width (${u})`, `Height (${u})`, 'Material', 'Note']]
+  doors.forEach((door) => {
+    const cuts = calculateDoorCuts(door.config, units)
+    if (!cuts.isValid) {
+      rows.push([door.name, '', 0, '', '', '', 'Invalid configuration'])
+      return
+    }
+    if (cuts.shape) {
+      // Adjusted panels follow the units' order
+      cuts.shape.panels.forEach((p, i) => {
+        if (cuts.panelUnits[i]?.infill !== 'mdf') return
+        rows.push([
+          door.name,
+          p.unit,
+          1,
+          n(Math.max(p.topWidth, p.bottomWidth)),
+          n(Math.max(p.leftHeight, p.rightHeight)),
+          'MDF',
+          `Out of square: ${L(p.topWidth)} / ${L(p.bottomWidth)} wide at top / bottom, ${L(p.leftHeight)} / ${L(p.rightHeight)} high at left / right`
+        ])
+      })
+    } else {
+      cuts.panelCuts.forEach((p) => rows.push([door.name, p.label, p.qty, n(p.width), n(p.height), 'MDF', '']))
+    }
+    cuts.glazing.forEach((g) => {
+      rows.push([door.name, cutUnitName(g), g.qty, n(g.glassWidth), n(g.glassHeight), 'Glass', `Door cut-out ${L(g.cutOutWidth)} × ${L(g.cutOutHeight)} ${u}${g.shaped ? '; shaped to the arch template' : ''}`])
+    })
+  })
+  return toCsv(rows)
+}
+
+export interface DoorImportError {
+  row: number              // as numbered in the spreadsheet, the header being row 1; 0 for the whole file
+  name: string
+  message: string
+}
+
+export interface DoorImport {
+  doors: SavedDoor[]
+  errors: DoorImportError[]
+}
+
+/** Header names each imported column is recognised by, ignoring case and any "(mm)" / "(in)". */
+const importColumns = {
+  name: ['name', 'door', 'door name'],
+  width: ['width', 'door width', 'w'],
+  height: ['height', 'door height', 'h'],
+  rows: ['rows'],
+  columns: ['columns', 'cols'],
+  notes: ['notes', 'note']
+}
+
+/**
+ * Doors from CSV rows of name, width and height, optionally rows, columns and notes. Columns
+ * are found by their header, or taken in that order when there isn't one. Sizes are read in
+ * the display unit unless the header names one, e.g. "Width (mm)". Each door copies `base`
+ * for the rest of its design; rows that don't make a door are reported and skipped.
+ */
+export function importDoorsCsv(text: string, base: DoorConfig, units: UnitSettings): DoorImport {
+  const table = parseCsv(text)
+  const header = (table[0] ?? []).map((h) => h.trim().toLowerCase())
+  const headerName = (h: string) => h.replace(/\s*\((mm|in)\)$/, '')
+  const find = (names: string[]) => header.findIndex((h) => names.includes(headerName(h)))
+  const hasHeader = find(importColumns.width) >= 0 && find(importColumns.height) >= 0
+  const columns = hasHeader
+    ? (Object.fromEntries(Object.entries(importColumns).map(([key, names]) => [key, find(names)])) as Record<keyof typeof importColumns, number>)
+    : { name: 0, width: 1, height: 2, rows: 3, columns: 4, notes: 5 }
+  const unitsOf = (index: number): UnitSettings => {
+    const named = /\((mm|in)\)$/.exec(header[index] ?? '')
+    return hasHeader && named ? { ...units, system: named[1] === 'mm' ? 'metric' : 'imperial' } : units
+  }
+
+  const doors: SavedDoor[] = []
+  const errors: DoorImportError[] = []
+  table.forEach((cells, i) => {
+    if ((hasHeader && i === 0) || cells.every((cell) => cell.trim() === '')) return
+    const cell = (index: number) => (index >= 0 ? (cells[index] ?? '').trim() : '')
+    const problems: string[] = []
+
+    const length = (key: 'width' | 'height', field: 'doorWidth' | 'doorHeight') => {
+      const raw = cell(columns[key])
+      const cellUnits = unitsOf(columns[key])
+      const mm = raw ? parseLength(raw, cellUnits) : null
+      const [min, max] = sizeLimits[field]
+      if (!raw) problems.push(`no ${key}`)
+      else if (mm === null) problems.push(`${key} "${raw}" isn't a length`)
+      else if (mm < min || mm > max) problems.push(`${key} ${raw} is outside ${formatLength(min, cellUnits)}–${formatLength(max, cellUnits)} ${unitSuffix(cellUnits)}`)
+      else return mm
+      return null
+    }
+    const count = (key: 'rows' | 'columns') => {
+      const raw = cell(columns[key])
+      if (!raw) return base[key]
+      const value = Number(raw)
+      const [min, max] = sizeLimits[key]
+      if (!Number.isInteger(value) || value < min || value > max) {
+        problems.push(`${key} "${raw}" should be a whole number from ${min} to ${max}`)
+        return null
+      }
+      return value
+    }
+
+    const name = cell(columns.name)
+    if (!name) problems.push('no door name')
+    const doorWidth = length('width', 'doorWidth')
+    const doorHeight = length('height', 'doorHeight')
+    const rows = count('rows')
+    const cols = count('columns')
+    if (problems.length > 0 || doorWidth === null || doorHeight === null || rows === null || cols === null) {
+      errors.push({ row: i + 1, name, message: problems.join('; ') })
+      return
+    }
+    const notes = cell(columns.notes)
+    doors.push({
+      id: crypto.randomUUID(),
+      name,
+      config: {
+        ...base,
+        doorWidth,
+        doorHeight,
+        rows,
+        columns: cols,
+        edges: null,
+        hingeHeights: standardHingeHeights(doorHeight, base.hingeCount, base.hingeLength)
+      },
+      ...(notes ? { notes } : {})
+    })
+  })
+  return { doors, errors }
+}
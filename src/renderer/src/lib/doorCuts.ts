@@ -0,0 +1,1433 @@
+import { type ArchCurve, type ArchShape, archCurve, archPathSegment, archRise } from '@/lib/archGeometry'
+import { type DoorShape, type EdgeMeasurements, type Point, cornerAngle, distance, mapPoint, solveDoorShape } from '@/lib/doorShape'
+import { type HardwareItem, builtInHardware, hardwareFootprint } from '@/lib/doorHardware'
+import { type VectorPoint } from '@/lib/vectorDrawing'
+import { type UnitSettings, defaultUnits, formatLength, roundTo, unitSuffix } from '@/lib/units'
+
+// ── Types ──────────────────────────────────────────────
+
+export interface DoorConfig {
+  doorWidth: number
+  doorHeight: number
+  edges: EdgeMeasurements | null   // measured edges of an out-of-square door; sets the nominal size
+  topMargin: number
+  bottomMargin: number
+  leftMargin: number
+  rightMargin: number
+  horizontalGap: number
+  verticalGap: number
+  rows: number             // panel units stacked top → bottom
+  columns: number          // panel units side by side left → right
+  beadingWidth: number
+  mdfPanelWidth: number    // panel width in the widest column; the reveal is kept in the others
+  jointType: JointType     // how the beading pieces meet at each corner
+  cornerAngle: number      // inside angle at the top-left corner of each unit; 90° when square
+  runThrough: 'horizontal' | 'vertical'    // pieces left whole at butt and coped joints
+  sawPosition: 'flat' | 'upright'          // beading flat on the saw table, or on edge against the fence
+  rowRatios: number[]      // relative heights, one per row (e.g. 30/20/50)
+  columnRatios: number[]   // relative widths, one per column
+  rowTops: RowTop[]        // top shape per row; rows without one are square
+  infills: Record<string, InfillType>   // by "row-column"; units not listed take an MDF panel
+  glazingClearance: number // gap all round the glass inside its cut-out
+  glazingRebate: number    // how far the cut-out runs under the front beading, which stops the glass
+  glazingBeadWidth: number // bead holding the glass from the back
+  handleSide: 'left' | 'right'    // ignored in a pair: both handles sit on the meeting stiles
+  handleHeight: number
+  handleIndent: number     // spindle centre from the handle edge
+  hardware: HardwareItem   // copy of the fitted item, so edits stay with this door
+  hingeCount: number       // hinges on the edge opposite the handle
+  hingeHeights: number[]   // hinge centres from the top edge, one per hinge
+  hingeLength: number      // leaf height along the door edge
+  hingeLeafWidth: number   // how far the leaf reaches in from the hinge edge
+  sawKerf: number          // blade width lost at every beading cut
+  trimAllowance: number    // extra length per beading piece for squaring/trimming
+  oversizeToFit: boolean   // cut pieces long by the trim allowance and trim them on the door
+  roundingStep: number     // smallest increment the saw stops and tape can hold, e.g. 0.5 mm
+  panelRounding: 'nearest' | 'down'    // down keeps panels from binding
+  beadingRounding: 'nearest' | 'up'    // up leaves beading long enough to trim
+  pin: SolvePin | null     // a result held fixed by solving for one input
+  links: FieldLink[]       // fields kept in step with each other
+  pair: DoorPair | null    // double door: this config is the left leaf, sized per leaf
+  back: BackFace | null    // decorated on both faces: this config is the front
+}
+
+export type JointType = 'mitre' | 'butt' | 'scribe'
+
+export type RowShape = 'rectangle' | ArchShape
+
+export type InfillType = 'mdf' | 'glass' | 'open'
+
+/** A pair of leaves hung in one opening, meeting in the middle. */
+export interface DoorPair {
+  layout: 'mirrored' | 'shared'    // right leaf mirrors the left leaf, or repeats it unchanged
+  overlap: number          // meeting-stile overlap hiding the passive leaf's meeting edge
+  activeLeaf: 'left' | 'right'     // the leaf that opens first and carries the overlap
+}
+
+/** The second decorated face, seen from behind. */
+export interface BackFace {
+  layout: 'mirrored' | 'custom'    // the front's decoration turned round, or the back's own
+  custom: FaceLayout | null        // the back's own decoration, kept when switching back to mirrored
+}
+
+export interface RowTop {
+  shape: RowShape
+  rise: number             // crown above the springing line; fixed for semicircles
+}
+
+export type LinkableField = 'topMargin' | 'bottomMargin' | 'leftMargin' | 'rightMargin' | 'horizontalGap' | 'verticalGap' | 'beadingWidth' | 'mdfPanelWidth'
+
+/** Keeps `target = source + offset`, whichever side is edited. */
+export interface FieldLink {
+  target: LinkableField
+  source: LinkableField
+  offset: number
+}
+
+type SolveOutput = 'panelBeadingGap' | 'panelWidth' | 'panelHeight'
+export type SolveInput = 'mdfPanelWidth' | 'sideMargins' | 'endMargins' | 'horizontalGap' | 'verticalGap' | 'beadingWidth'
+
+export interface SolvePin {
+  output: SolveOutput
+  index: number            // column for panel width, row for panel height
+  target: number
+  input: SolveInput        // the input adjusted to hit the target
+}
+
+interface UnitPosition {
+  label: string            // e.g. "Top-Left"
+  beadingLeftX: number     // left long-point X from left edge
+  beadingRightX: number    // right long-point X from left edge
+  beadingY: number         // top beading Y from top edge (top outer edge)
+  pinX: number             // center pin X from left edge
+  pinY: number             // center pin Y from top edge (vertical center of beading)
+}
+
+interface PanelUnit {
+  label: string            // e.g. "Top-Left"
+  row: number
+  column: number
+  x: number                // unit left edge (outer beading) from door left edge
+  y: number                // unit top edge (outer beading) from door top edge
+  width: number            // unit width (= horizontal beading long-point)
+  height: number           // unit height (= vertical beading long-point)
+  panelWidth: number
+  panelHeight: number
+  infill: InfillType
+}
+
+interface PanelCut {
+  label: string            // e.g. "Top panels"
+  qty: number
+  width: number
+  height: number
+}
+
+interface BeadingEnd {
+  cut: 'mitre' | 'square' | 'cope'
+  angle: number            // saw setting from square, in degrees (a cope starts from this mitre)
+}
+
+interface BeadingCut {
+  group: string            // row the pieces belong to, e.g. "Top"
+  detail: string           // columns, when a row has more than one unit size
+  orientation: 'horizontal' | 'vertical'
+  qty: number
+  longPoint: number
+  shortPoint: number
+  cutLength: number        // length to cut at the saw (long-point, plus allowance when oversizing)
+  ends: [BeadingEnd, BeadingEnd]
+  formula: string          // how long/short points follow from the unit length L and beading width w
+}
+
+type DiagnosticCode =
+  | 'panel-width-zero'
+  | 'panel-too-wide'
+  | 'column-panel-negative'
+  | 'row-panel-negative'
+  | 'panel-too-small'
+  | 'beading-too-short'
+  | 'handle-overlap'
+  | 'hinge-overlap'
+  | 'hinge-near-mitre'
+  | 'edges-unsolvable'
+  | 'arch-too-tall'
+  | 'glazing-rebate-too-wide'
+  | 'edges-mismatch'
+
+export interface Diagnostic {
+  code: DiagnosticCode
+  severity: 'error' | 'warning'   // errors make the cut list invalid
+  message: string
+  fields: (keyof DoorConfig)[]    // inputs involved, most likely culprit first
+  part?: string                   // hardware the issue is about, e.g. "Handle", "Hinge 2"
+  fix?: { field: LinkableField; value: number }
+  face?: 'back'                   // on a custom back face, whose fields are stored apart from the front's
+}
+
+export interface CutResult {
+  rows: number
+  columns: number
+  columnXs: number[]       // unit left edges from door left edge
+  columnWidths: number[]
+  rowYs: number[]          // unit top edges from door top edge
+  rowHeights: number[]
+  panelUnits: PanelUnit[]
+  panelWidth: number
+  panelBeadingGap: number
+  panelCuts: PanelCut[]
+  beadingCuts: BeadingCut[]
+  arches: ArchCut[]
+  glazing: GlazingCut[]
+  glazingBeadCuts: BeadingCut[]   // a separate, smaller profile from the decorative beading
+  flexibleBeadingLength: number   // arched pieces, bought separately from the straight beading
+  panelCount: number
+  beadingCount: number
+  totalBeadingLength: number   // sum of cut-to lengths
+  idealBeadingLength: number   // sum of long-points, without any allowance
+  beadingStockLength: number   // cut-to lengths plus kerf and trim waste: what to buy
+  glazingBeadCount: number     // straight and flexible pieces
+  glazingBeadStockLength: number   // the same for the glazing bead, straight and flexible
+  unitPositions: UnitPosition[]
+  hingeHeights: number[]   // one per hinge, from the top edge
+  rounding: RoundingReport
+  shape: ShapeReport | null    // set when the door's edges were measured
+  diagnostics: Diagnostic[]
+  isValid: boolean
+}
+
+/** Flexible beading and MDF template for the arched tops in one row, per unit size. */
+export interface ArchCut {
+  row: number
+  group: string
+  detail: string
+  shape: ArchShape
+  qty: number              // flexible beading pieces: two per unit for a pointed arch
+  unitWidth: number
+  unitHeight: number
+  span: number             // outer chord, the unit width
+  rise: number             // outer crown above the springing line
+  radius: number           // outer edge of the beading
+  innerRadius: number
+  longPoint: number        // along the outer edge, per piece
+  shortPoint: number       // along the inner edge, per piece
+  cutLength: number
+  springMitre: number      // saw settings from square, in degrees
+  crownMitre: number
+  template: {              // MDF panel
+    radius: number
+    chord: number
+    rise: number           // of the panel's curve above its sides
+    sideHeight: number
+    height: number
+  }
+}
+
+/** Glass, door cut-out and glazing bead for the glazed units of one size in a row. */
+interface GlazingCut {
+  group: string
+  detail: string
+  qty: number
+  cutOutWidth: number      // through the door
+  cutOutHeight: number
+  glassWidth: number
+  glassHeight: number
+  shaped: boolean          // arched top: order the glass to the panel template
+  arch: GlazingArch | null // arched top: flexible bead along the curve instead of a straight top piece
+}
+
+/** Flexible glazing bead around the curved top of an arched cut-out, per piece. */
+interface GlazingArch {
+  qty: number              // two per unit for a pointed arch
+  longPoint: number        // along the cut-out's edge
+  shortPoint: number       // along the bead's inner edge
+  cutLength: number
+  springMitre: number      // saw settings from square, in degrees
+  crownMitre: number
+}
+
+/** A beading piece re-measured on an out-of-square door. */
+interface AdjustedPiece {
+  unit: string             // e.g. "Top-Left"
+  edge: 'top' | 'bottom' | 'left' | 'right'
+  longPoint: number
+  shortPoint: number
+  change: number           // against the same piece on the square door
+}
+
+interface AdjustedPanel {
+  unit: string
+  topWidth: number
+  bottomWidth: number
+  leftHeight: number
+  rightHeight: number
+}
+
+interface ShapeReport {
+  shape: DoorShape
+  cornerAngles: number[]   // door corners, top-left clockwise
+  diagonalDifference: number   // 0 when the diagonals weren't measured
+  pieces: AdjustedPiece[]
+  panels: AdjustedPanel[]
+}
+
+interface RoundingReport {
+  panelBand: [number, number]     // how far a rounded panel size can sit from exact (min, max)
+  beadingBand: [number, number]
+  acrossRow: number               // rounded beading long-points across a row, less the exact total
+  downColumn: number
+  panelAcrossRow: number          // exact panel widths across a row less the rounded ones, taken up by the reveals
+}
+
+export interface SavedDoor {
+  id: string
+  name: string
+  config: DoorConfig
+  notes?: string           // printed on the workshop sheet
+}
+
+// ── Defaults (standard UK interior door) ───────────────
+
+const defaultConfig: DoorConfig = {
+  doorWidth: 762,
+  doorHeight: 1981,
+  edges: null,
+  topMargin: 100,
+  bottomMargin: 100,
+  leftMargin: 80,
+  rightMargin: 80,
+  horizontalGap: 80,
+  verticalGap: 80,
+  rows: 2,
+  columns: 2,
+  beadingWidth: 20,
+  mdfPanelWidth: 215,
+  jointType: 'mitre',
+  cornerAngle: 90,
+  runThrough: 'horizontal',
+  sawPosition: 'flat',
+  rowRatios: [40, 60],
+  columnRatios: [50, 50],
+  rowTops: [],
+  infills: {},
+  glazingClearance: 2,
+  glazingRebate: 8,
+  glazingBeadWidth: 12,
+  handleSide: 'left' as const,
+  handleHeight: 1000,
+  handleIndent: 55,
+  hardware: builtInHardware[0],
+  hingeCount: 3,
+  hingeHeights: [200, 953, 1706],
+  hingeLength: 100,
+  hingeLeafWidth: 35,
+  sawKerf: 3,
+  trimAllowance: 0,
+  oversizeToFit: false,
+  roundingStep: 0.1,
+  panelRounding: 'nearest',
+  beadingRounding: 'nearest',
+  pin: null,
+  links: [],
+  pair: null,
+  back: null
+}
+
+/** Ranges the size and layout sliders offer; imported doors are checked against them too. */
+export const sizeLimits: Record<'doorWidth' | 'doorHeight' | 'rows' | 'columns', [number, number]> = {
+  doorWidth: [300, 1200],
+  doorHeight: [500, 2500],
+  rows: [1, 6],
+  columns: [1, 4]
+}
+
+export function createDoor(name: string): SavedDoor {
+  return { id: crypto.randomUUID(), name, config: { ...defaultConfig } }
+}
+
+/** Fill in fields added since a door was saved so older localStorage data keeps working. */
+export function normalizeDoor(door: SavedDoor): SavedDoor {
+  const { topPanelRatio, handleSpread, ...stored } = door.config as DoorConfig & { topPanelRatio?: number; handleSpread?: number }
+  const config = { ...defaultConfig, ...stored }
+  if (!stored.rowRatios && topPanelRatio !== undefined) {
+    // Top row got the ratio, the remaining rows shared the rest equally
+    const rest = (100 - topPanelRatio) / Math.max(1, config.rows - 1)
+    config.rowRatios = [topPanelRatio, ...Array.from({ length: config.rows - 1 }, () => rest)]
+  }
+  if (!stored.hardware && handleSpread !== undefined && handleSpread !== 140) {
+    // A spread other than the old default becomes a custom lever reaching as far in from the edge
+    const lever = builtInHardware[0]
+    config.hardware = { ...lever, id: crypto.randomUUID(), name: `${lever.name} (custom)`, builtIn: false, gripLength: Math.max(0, handleSpread - config.handleIndent) }
+  }
+  if (!stored.hingeHeights) config.hingeHeights = standardHingeHeights(config.doorHeight, config.hingeCount, config.hingeLength)
+  return { ...door, config }
+}
+
+// ── Hinges ─────────────────────────────────────────────
+
+/** Closest a hinge leaf may come to a beading mitre before screws risk splitting the joint. */
+export const hingeMitreClearance = 25
+
+/** Usual positions: top hinge 150 mm down, bottom hinge 225 mm up, any others evenly between. */
+export function standardHingeHeights(doorHeight: number, count: number, hingeLength: number): number[] {
+  const top = 150 + hingeLength / 2
+  const bottom = doorHeight - 225 - hingeLength / 2
+  if (count <= 1) return [top]
+  return Array.from({ length: count }, (_, i) => Math.round(top + ((bottom - top) * i) / (count - 1)))
+}
+
+/** Stored hinge heights, or standard positions if the count has changed since they were set. */
+function fitHinges(c: DoorConfig): number[] {
+  const count = Math.max(0, Math.round(c.hingeCount))
+  return c.hingeHeights.length === count ? c.hingeHeights : standardHingeHeights(c.doorHeight, count, c.hingeLength)
+}
+
+export function hingeSideOf(c: DoorConfig): 'left' | 'right' {
+  return c.handleSide === 'left' ? 'right' : 'left'
+}
+
+/** How far the handle hardware reaches in from the handle edge. */
+export function handleReach(c: DoorConfig): number {
+  return c.handleIndent + hardwareFootprint(c.hardware).inward
+}
+
+// ── Grid naming ────────────────────────────────────────
+
+export function rowName(ri: number, rows: number): string {
+  if (rows === 1) return ''
+  if (ri === 0) return 'Top'
+  if (ri === rows - 1) return 'Bottom'
+  if (rows === 3) return 'Middle'
+  return `Row ${ri + 1}`
+}
+
+export function columnName(ci: number, columns: number): string {
+  if (columns === 1) return ''
+  if (ci === 0) return 'Left'
+  if (ci === columns - 1) return 'Right'
+  if (columns === 3) return 'Centre'
+  return `Col ${ci + 1}`
+}
+
+function unitLabel(ri: number, ci: number, rows: number, columns: number): string {
+  return [rowName(ri, rows), columnName(ci, columns)].filter(Boolean).join('-') || 'Panel'
+}
+
+/** Short code for a row group in compact text, e.g. "Top" → "T", "Row 2" → "R2". */
+export function groupCode(group: string): string {
+  return group.split(' ').map((w) => (/^\d+$/.test(w) ? w : w[0])).join('')
+}
+
+/**
+ * Trim or pad a ratio list to exactly `count` entries.
+ * Extra rows/columns repeat the last weight so adding one doesn't collapse the layout.
+ */
+export function fitRatios(ratios: number[], count: number): number[] {
+  const fill = ratios.length > 0 ? ratios[ratios.length - 1] : 1
+  return Array.from({ length: count }, (_, i) => Math.max(0, ratios[i] ?? fill))
+}
+
+/** Percentage of the total that each weight represents. */
+export function ratioShares(ratios: number[]): number[] {
+  const total = ratios.reduce((sum, v) => sum + v, 0)
+  return ratios.map((v) => (total > 0 ? (v / total) * 100 : 100 / ratios.length))
+}
+
+export function formatShare(v: number): string {
+  return `${Math.round(v * 10) / 10}`
+}
+
+/** e.g. "Top horizontal", or just "Horizontal" for a single-row door. */
+export function beadingCutName(b: BeadingCut): string {
+  const name = `${b.group} ${b.orientation}`.trim()
+  return name[0].toUpperCase() + name.slice(1) + (b.detail ? ` — ${b.detail}` : '')
+}
+
+// ── Beading joints ─────────────────────────────────────
+
+export const jointTypeLabels: Record<JointType, string> = {
+  mitre: 'Mitre',
+  butt: 'Butt',
+  scribe: 'Coped'
+}
+
+interface PieceJoints {
+  ends: [BeadingEnd, BeadingEnd]
+  longLoss: number         // long point = L − w × longLoss
+  shortLoss: number        // short point = L − w × shortLoss
+  formula: string
+}
+
+const deg = (a: number) => (a * Math.PI) / 180
+export const formatAngle = (a: number) => `${Math.round(a * 10) / 10}°`
+
+/**
+ * How one beading piece is cut for the door's joint type. An out-of-square unit has corners
+ * of θ and 180° − θ, so a piece's two ends are cut at different angles; a mitre bisects the
+ * corner, and a butted or coped piece stops against the inside edge of the piece running through.
+ */
+export function pieceJoints(c: DoorConfig, orientation: BeadingCut['orientation']): PieceJoints {
+  const corner = c.cornerAngle
+  const square = Math.abs(corner - 90) < 1e-9
+  const mitres: [number, number] = [90 - corner / 2, corner / 2]
+  const across = 2 / Math.sin(deg(corner))
+  const between = square ? 'L − 2w' : `L − 2w ÷ sin ${formatAngle(corner)}`
+
+  if (c.jointType === 'mitre') {
+    const loss = Math.tan(deg(mitres[0])) + Math.tan(deg(mitres[1]))
+    return {
+      ends: [{ cut: 'mitre', angle: mitres[0] }, { cut: 'mitre', angle: mitres[1] }],
+      longLoss: 0,
+      shortLoss: loss,
+      formula: square ? 'L → L − 2w' : `L → L − w × (tan ${formatAngle(mitres[0])} + tan ${formatAngle(mitres[1])})`
+    }
+  }
+  if (orientation === c.runThrough) {
+    // Square to the piece it covers, which leans by the corner's error
+    const angle = Math.abs(corner - 90)
+    return {
+      ends: [{ cut: 'square', angle }, { cut: 'square', angle }],
+      longLoss: 0,
+      shortLoss: 0,
+      formula: 'L'
+    }
+  }
+  if (c.jointType === 'butt') {
+    const angle = Math.abs(corner - 90)
+    return {
+      ends: [{ cut: 'square', angle }, { cut: 'square', angle }],
+      longLoss: across,
+      shortLoss: across,
+      formula: between
+    }
+  }
+  // Coped: mitred first to expose the profile, which then laps over the running piece
+  return {
+    ends: [{ cut: 'cope', angle: mitres[0] }, { cut: 'cope', angle: mitres[1] }],
+    longLoss: 0,
+    shortLoss: across,
+    formula: `L → ${between}`
+  }
+}
+
+/** e.g. "45° mitres", "butt joints, horizontals run through". */
+export function jointDescription(c: DoorConfig): string {
+  const angle = c.cornerAngle === 90 ? '' : ` at ${formatAngle(c.cornerAngle)} corners`
+  if (c.jointType === 'mitre') {
+    return c.cornerAngle === 90 ? '45° mitres' : `mitres${angle}`
+  }
+  return `${c.jointType === 'butt' ? 'butt joints' : 'coped joints'}, ${c.runThrough}s run through${angle}`
+}
+
+/** e.g. "46° / 44° mitres", "runs through", "coped". */
+export function pieceJointName(b: Pick<BeadingCut, 'orientation' | 'ends'>, c: DoorConfig): string {
+  const [a, z] = b.ends.map((e) => e.angle)
+  const angles = Math.abs(a - z) < 0.05 ? formatAngle(a) : `${formatAngle(a)} / ${formatAngle(z)}`
+  if (b.ends[0].cut !== b.ends[1].cut) {
+    // e.g. an arched row's sides: square into the curve, mitred at the bottom
+    return b.ends.map((e) => (e.cut === 'mitre' ? `${formatAngle(e.angle)} mitre` : e.cut === 'cope' ? 'coped' : 'square')).join(' / ')
+  }
+  if (b.ends[0].cut === 'mitre') return `${angles} mitres`
+  if (b.ends[0].cut === 'cope') return 'coped'
+  return b.orientation === c.runThrough ? 'runs through' : 'butted'
+}
+
+/** Saw-setting instructions for each kind of piece, in the order they're cut. */
+export function sawSettings(c: DoorConfig): string[] {
+  const setting = (angle: number) =>
+    c.sawPosition === 'flat'
+      ? `mitre ${formatAngle(angle)}, bevel 0°`
+      : `mitre 0°, bevel ${formatAngle(angle)}`
+  const position = c.sawPosition === 'flat' ? 'beading flat on the saw table' : 'beading on edge against the fence'
+  const lines = (['horizontal', 'vertical'] as const).map((orientation) => {
+    const { ends } = pieceJoints(c, orientation)
+    const name = orientation[0].toUpperCase() + orientation.slice(1) + 's'
+    const [a, b] = ends.map((e) => e.angle)
+    const both = Math.abs(a - b) < 0.05
+      ? `both ends ${setting(a)}`
+      : `one end ${setting(a)}, the other ${setting(b)} (opposite hand)`
+    if (ends[0].cut === 'cope') {
+      return `${name}: ${both} to expose the profile, then cope along the profile line and back-cut slightly`
+    }
+    if (ends[0].cut === 'square') {
+      return a < 0.05 ? `${name}: square ends` : `${name}: ${both}`
+    }
+    return `${name}: ${both}`
+  })
+  return [...lines, `Cut with the ${position}.`]
+}
+
+// ── Arched tops ────────────────────────────────────────
+
+export const rowShapeLabels: Record<RowShape, string> = {
+  rectangle: 'Square',
+  segmental: 'Segmental',
+  semicircle: 'Semicircle',
+  cathedral: 'Cathedral'
+}
+
+/** e.g. "20.3° mitre at the sides, 30° at the crown" for a flexible piece. */
+export function archMitres(a: { springMitre: number; crownMitre: number }): string {
+  return `${a.springMitre > 0 ? `${formatAngle(a.springMitre)} mitre` : 'square'} at the sides${a.crownMitre > 0 ? `, ${formatAngle(a.crownMitre)} at the crown` : ''}`
+}
+
+/** e.g. "Top arch — Left", for the flexible glazing bead of one glazing cut. */
+export function glazingArchName(g: GlazingCut): string {
+  return `${g.group ? `${g.group} arch` : 'Arch'}${g.detail ? ` — ${g.detail}` : ''}`
+}
+
+/** One top per row. Unlike ratios, rows added later stay square rather than copying the last. */
+export function fitRowTops(tops: RowTop[], count: number): RowTop[] {
+  return Array.from({ length: count }, (_, i) => tops[i] ?? { shape: 'rectangle', rise: 60 })
+}
+
+/** SVG path for a unit's outline, `inset` in from its outside edge, following any arched top. */
+export function unitOutlinePath(c: DoorConfig, u: PanelUnit, x: number, y: number, inset: number): string {
+  const top = fitRowTops(c.rowTops, u.row + 1)[u.row]
+  const left = x + inset
+  const right = x + u.width - inset
+  const bottom = y + u.height - inset
+  const curve = top.shape === 'rectangle' ? null : archCurve(top.shape, u.width / 2, top.rise, inset)
+  if (!curve || top.shape === 'rectangle') return `M ${left} ${y + inset} H ${right} V ${bottom} H ${left} Z`
+  const springY = y + archRise(top.shape, u.width / 2, top.rise)
+  return `M ${left} ${bottom} V ${springY - curve.spring} ${archPathSegment(curve, x + u.width / 2, springY)} V ${bottom} Z`
+}
+
+/** The same outline as points for a vector export, each arc a bulge on the point it starts from. */
+export function unitOutlinePoints(c: DoorConfig, u: PanelUnit, x: number, y: number, inset: number): VectorPoint[] {
+  const top = fitRowTops(c.rowTops, u.row + 1)[u.row]
+  const left = x + inset
+  const right = x + u.width - inset
+  const bottom = y + u.height - inset
+  const curve = top.shape === 'rectangle' ? null : archCurve(top.shape, u.width / 2, top.rise, inset)
+  if (!curve || top.shape === 'rectangle') return [{ x: left, y: y + inset }, { x: right, y: y + inset }, { x: right, y: bottom }, { x: left, y: bottom }]
+  const springY = y + archRise(top.shape, u.width / 2, top.rise)
+  // Clockwise over the top; a pointed arch is two equal arcs meeting at the crown
+  const bulge = -Math.tan(curve.length / curve.radius / curve.centres.length / 4)
+  const crown = curve.centres.length === 2 ? [{ x: x + u.width / 2, y: springY - curve.crown, bulge }] : []
+  return [{ x: left, y: bottom }, { x: left, y: springY - curve.spring, bulge }, ...crown, { x: right, y: springY - curve.spring }, { x: right, y: bottom }]
+}
+
+// ── Infill ─────────────────────────────────────────────
+
+export const infillLabels: Record<InfillType, string> = {
+  mdf: 'MDF',
+  glass: 'Glass',
+  open: 'Open'
+}
+
+function unitInfill(c: DoorConfig, row: number, column: number): InfillType {
+  return c.infills[`${row}-${column}`] ?? 'mdf'
+}
+
+// ── Door pairs ─────────────────────────────────────────
+
+export const pairLayoutLabels: Record<DoorPair['layout'], string> = {
+  mirrored: 'Mirrored',
+  shared: 'Shared'
+}
+
+/** One leaf of a door, worked out from the stored config. */
+interface PairLeaf {
+  side: 'left' | 'right'
+  config: DoorConfig
+  mirrored: boolean        // left and right swapped from the stored config
+  overlapMargin: 'leftMargin' | 'rightMargin' | null   // meeting-edge margin widened by the overlap
+}
+
+function mirrorEdges(e: EdgeMeasurements): EdgeMeasurements {
+  return { ...e, leftHeight: e.rightHeight, rightHeight: e.leftHeight, diagonalDown: e.diagonalUp, diagonalUp: e.diagonalDown }
+}
+
+/** The same decoration the other way round: margins, columns, infills and measured edges swapped left for right. */
+function mirrorLayout(c: DoorConfig): DoorConfig {
+  const columns = Math.max(1, Math.round(c.columns))
+  return {
+    ...c,
+    leftMargin: c.rightMargin,
+    rightMargin: c.leftMargin,
+    columnRatios: fitRatios(c.columnRatios, columns).reverse(),
+    infills: Object.fromEntries(
+      Object.entries(c.infills).map(([key, infill]) => {
+        const [row, column] = key.split('-').map(Number)
+        return [`${row}-${columns - 1 - column}`, infill]
+      })
+    ),
+    edges: c.edges && mirrorEdges(c.edges)
+  }
+}
+
+/**
+ * The leaves of a door: just the stored config for a single door. For a pair the stored config
+ * is the left leaf and the right leaf repeats it, mirrored or unchanged, with both handles on
+ * the meeting stiles. The overlap hides the passive leaf's meeting edge, so its margin there is
+ * widened by the overlap to keep the visible margins matching.
+ */
+export function pairLeaves(c: DoorConfig): PairLeaf[] {
+  if (!c.pair) return [{ side: 'left', config: c, mirrored: false, overlapMargin: null }]
+  const { layout, overlap, activeLeaf } = c.pair
+  const mirrored = layout === 'mirrored'
+  const left: DoorConfig = { ...c, handleSide: 'right' }
+  const right: DoorConfig = { ...(mirrored ? mirrorLayout(c) : c), handleSide: 'left' }
+  if (activeLeaf === 'left') right.leftMargin += overlap
+  else left.rightMargin += overlap
+  return [
+    { side: 'left', config: left, mirrored: false, overlapMargin: activeLeaf === 'right' ? 'rightMargin' : null },
+    { side: 'right', config: right, mirrored, overlapMargin: activeLeaf === 'left' ? 'leftMargin' : null }
+  ]
+}
+
+/** Sizes compared to a micron, so pieces worked out separately still match. */
+const cutKey = (item: object, field: string) =>
+  JSON.stringify({ ...item, qty: 0, [field]: '' }, (_, v) => (typeof v === 'number' ? Math.round(v * 1e6) / 1e6 : v))
+
+/**
+ * Pieces of the same size in both lists have their quantities added. `field` names each piece;
+ * where a mirrored copy names the same piece differently, or only one list has it, its source
+ * from `names` is added.
+ */
+function mergeCuts<K extends string, T extends { qty: number } & Record<K, string>>(first: T[], second: T[], field: K, names: [string, string]): T[] {
+  const tag = (text: string, name: string) => (text ? `${text} (${name})` : name)
+  const firstKeys = first.map((item) => cutKey(item, field))
+  const secondKeys = second.map((item) => cutKey(item, field))
+  const used = new Set<number>()
+  // Each piece in the second list pairs up once, preferring one with the same name
+  const twinOf = (item: T, key: string) => {
+    const free = (j: number) => !used.has(j) && secondKeys[j] === key
+    let j = second.findIndex((s, k) => free(k) && s[field] === item[field])
+    if (j < 0) j = second.findIndex((_, k) => free(k))
+    if (j >= 0) used.add(j)
+    return second[j]
+  }
+  const merged = first.map((item, i) => {
+    const twin = twinOf(item, firstKeys[i])
+    if (!twin) return { ...item, [field]: tag(item[field], names[0]) }
+    // "Top panels — Right (front face) & Left (back face)": the shared part is named once
+    const cut = item[field].lastIndexOf(' — ')
+    const shared = cut >= 0 && twin[field].startsWith(item[field].slice(0, cut + 3)) ? cut + 3 : 0
+    const name = twin[field] === item[field] ? item[field] : `${tag(item[field], names[0])} & ${tag(twin[field].slice(shared), names[1])}`
+    return { ...item, qty: item.qty + twin.qty, [field]: name }
+  })
+  return [...merged, ...second.filter((_, j) => !used.has(j)).map((item) => ({ ...item, [field]: tag(item[field], names[1]) }))]
+}
+
+/**
+ * A diagnostic from a mirrored or widened copy pointed back at the fields it came from, so
+ * its sliders and fixes still apply.
+ */
+function storedDiagnostic(d: Diagnostic, mirrored: boolean, widened?: { field: LinkableField; by: number }): Diagnostic {
+  const stored = <F extends keyof DoorConfig>(field: F): F =>
+    !mirrored ? field : field === 'leftMargin' ? 'rightMargin' as F : field === 'rightMargin' ? 'leftMargin' as F : field
+  return {
+    ...d,
+    fields: d.fields.map(stored),
+    fix: d.fix && { field: stored(d.fix.field), value: d.fix.value - (d.fix.field === widened?.field ? widened.by : 0) }
+  }
+}
+
+/**
+ * Two cut results as one: matching pieces added together, the rest and each diagnostic
+ * labelled with where it came from (`names`: first, second, both). Layout positions are the
+ * first result's.
+ */
+function combineCuts(a: CutResult, b: CutResult, names: [string, string, string]): CutResult {
+  const pair: [string, string] = [names[0], names[1]]
+  const tagLabel = <T extends { label: string }>(item: T, name: string): T => ({ ...item, label: `${item.label} (${name})` })
+  const tagUnit = <T extends { unit: string }>(item: T, name: string): T => ({ ...item, unit: `${item.unit} (${name})` })
+  const band = (x: [number, number], y: [number, number]): [number, number] => [Math.min(x[0], y[0]), Math.max(x[1], y[1])]
+  const prefix = (name: string, message: string) => `${name[0].toUpperCase()}${name.slice(1)}: ${message}`
+  return {
+    ...a,
+    panelUnits: [...a.panelUnits, ...b.panelUnits.map((u) => tagLabel(u, names[1]))],
+    panelCuts: mergeCuts(a.panelCuts, b.panelCuts, 'label', pair),
+    beadingCuts: mergeCuts(a.beadingCuts, b.beadingCuts, 'detail', pair),
+    arches: mergeCuts(a.arches, b.arches, 'detail', pair),
+    glazing: mergeCuts(a.glazing, b.glazing, 'detail', pair),
+    glazingBeadCuts: mergeCuts(a.glazingBeadCuts, b.glazingBeadCuts, 'detail', pair),
+    flexibleBeadingLength: a.flexibleBeadingLength + b.flexibleBeadingLength,
+    panelCount: a.panelCount + b.panelCount,
+    beadingCount: a.beadingCount + b.beadingCount,
+    totalBeadingLength: a.totalBeadingLength + b.totalBeadingLength,
+    idealBeadingLength: a.idealBeadingLength + b.idealBeadingLength,
+    beadingStockLength: a.beadingStockLength + b.beadingStockLength,
+    glazingBeadCount: a.glazingBeadCount + b.glazingBeadCount,
+    glazingBeadStockLength: a.glazingBeadStockLength + b.glazingBeadStockLength,
+    unitPositions: [...a.unitPositions.map((p) => tagLabel(p, names[0])), ...b.unitPositions.map((p) => tagLabel(p, names[1]))],
+    rounding: {
+      ...a.rounding,
+      panelBand: band(a.rounding.panelBand, b.rounding.panelBand),
+      beadingBand: band(a.rounding.beadingBand, b.rounding.beadingBand)
+    },
+    shape: a.shape && b.shape && {
+      ...a.shape,
+      pieces: [...a.shape.pieces.map((p) => tagUnit(p, names[0])), ...b.shape.pieces.map((p) => tagUnit(p, names[1]))],
+      panels: [...a.shape.panels.map((p) => tagUnit(p, names[0])), ...b.shape.panels.map((p) => tagUnit(p, names[1]))]
+    },
+    diagnostics: [
+      ...a.diagnostics.map((d) => ({
+        ...d,
+        message: prefix(b.diagnostics.some((o) => o.message === d.message && o.face === d.face) ? names[2] : names[0], d.message)
+      })),
+      ...b.diagnostics
+        .filter((d) => !a.diagnostics.some((o) => o.message === d.message && o.face === d.face))
+        .map((d) => ({ ...d, message: prefix(names[1], d.message) }))
+    ],
+    isValid: a.isValid && b.isValid
+  }
+}
+
+/** One face's cuts: a pair's leaves share one cut list, each leaf checked against its own handle. */
+export function combineLeafCuts(c: DoorConfig, leaves: PairLeaf[], results: CutResult[]): CutResult {
+  if (!c.pair || results.length < 2) return results[0]
+  const overlap = c.pair.overlap
+  const [left, right] = results.map((r, i) => ({
+    ...r,
+    diagnostics: r.diagnostics.map((d) =>
+      storedDiagnostic(d, leaves[i].mirrored, leaves[i].overlapMargin ? { field: leaves[i].overlapMargin!, by: overlap } : undefined)
+    )
+  }))
+  return combineCuts(left, right, ['left leaf', 'right leaf', 'both leaves'])
+}
+
+function calculateFaceCuts(c: DoorConfig, units: UnitSettings = defaultUnits): CutResult {
+  const leaves = pairLeaves(c)
+  return combineLeafCuts(c, leaves, leaves.map((leaf) => calculateCuts(leaf.config, units)))
+}
+
+// ── Door faces ─────────────────────────────────────────
+
+/** Decoration that can differ between the two faces; everything else belongs to the door itself. */
+const faceLayoutKeys = [
+  'topMargin', 'bottomMargin', 'leftMargin', 'rightMargin', 'horizontalGap', 'verticalGap',
+  'rows', 'columns', 'beadingWidth', 'mdfPanelWidth', 'jointType', 'cornerAngle', 'runThrough', 'sawPosition',
+  'rowRatios', 'columnRatios', 'rowTops', 'infills', 'pin', 'links'
+] as const
+
+type FaceLayout = Pick<DoorConfig, (typeof faceLayoutKeys)[number]>
+
+export const backLayoutLabels: Record<BackFace['layout'], string> = {
+  mirrored: 'Same as front',
+  custom: 'Custom'
+}
+
+export function isFaceLayoutKey(key: keyof DoorConfig): key is (typeof faceLayoutKeys)[number] {
+  return (faceLayoutKeys as readonly string[]).includes(key)
+}
+
+export function pickFaceLayout(c: DoorConfig): FaceLayout {
+  return Object.fromEntries(faceLayoutKeys.map((key) => [key, c[key]])) as FaceLayout
+}
+
+/**
+ * The back face as seen from behind, so left and right swap: the handle and hinges are on
+ * the other side, and the front's decoration is mirrored unless the back has its own. A
+ * mirrored pair already mirrors its right leaf, which becomes the back's left leaf unchanged.
+ */
+export function backFaceConfig(c: DoorConfig): DoorConfig {
+  const seen: DoorConfig = {
+    ...(c.pair?.layout === 'mirrored' ? c : mirrorLayout(c)),
+    handleSide: c.handleSide === 'left' ? 'right' : 'left',
+    pair: c.pair && { ...c.pair, activeLeaf: c.pair.activeLeaf === 'left' ? 'right' : 'left' },
+    pin: null,
+    links: [],
+    back: null
+  }
+  return c.back?.layout === 'custom' && c.back.custom ? { ...seen, ...c.back.custom } : seen
+}
+
+/** A door-level setting edited from the back, turned round to be stored the front's way. */
+export function frontValue<K extends keyof DoorConfig>(c: DoorConfig, key: K, value: DoorConfig[K]): DoorConfig[K] {
+  if (key === 'handleSide') return (value === 'left' ? 'right' : 'left') as DoorConfig[K]
+  if (key === 'pair' && value) {
+    const pair = value as DoorPair
+    return { ...pair, activeLeaf: pair.activeLeaf === 'left' ? 'right' : 'left' } as DoorConfig[K]
+  }
+  if (key === 'edges' && value && c.pair?.layout !== 'mirrored') return mirrorEdges(value as EdgeMeasurements) as DoorConfig[K]
+  return value
+}
+
+/**
+ * Cuts for a saved door: both leaves of a pair, and both faces when the back is decorated.
+ * Problems on a back that mirrors the front point at the front's fields; a custom back's are
+ * marked with its face.
+ */
+export function calculateDoorCuts(c: DoorConfig, units: UnitSettings = defaultUnits): CutResult {
+  const front = calculateFaceCuts(c, units)
+  if (!c.back) return front
+  const back = calculateFaceCuts(backFaceConfig(c), units)
+  const custom = c.back.layout === 'custom' && c.back.custom !== null
+  back.diagnostics = back.diagnostics.map((d) =>
+    custom ? { ...d, face: 'back' as const } : storedDiagnostic(d, c.pair?.layout !== 'mirrored')
+  )
+  return combineCuts(front, back, ['front face', 'back face', 'both faces'])
+}
+
+// ── Calculation ────────────────────────────────────────
+
+/** Smallest panel edge worth cutting and fitting. */
+const minPanelSize = 50
+
+/** Shortest short-point that can still be held safely at the mitre saw. */
+const minShortPoint = 40
+
+export function calculateCuts(c: DoorConfig, units: UnitSettings = defaultUnits): CutResult {
+  const diagnostics: Diagnostic[] = []
+  const rows = Math.max(1, Math.round(c.rows))
+  const columns = Math.max(1, Math.round(c.columns))
+
+  // Available space inside margins, less the gaps between units
+  const availableWidth = c.doorWidth - c.leftMargin - c.rightMargin - c.horizontalGap * (columns - 1)
+  const availableHeight = c.doorHeight - c.topMargin - c.bottomMargin - c.verticalGap * (rows - 1)
+
+  // Each panel "unit" = beading + gap + panel + gap + beading
+  const columnWidths = ratioShares(fitRatios(c.columnRatios, columns)).map((share) => availableWidth * (share / 100))
+  const rowHeights = ratioShares(fitRatios(c.rowRatios, rows)).map((share) => availableHeight * (share / 100))
+  const panelUnitWidth = Math.max(...columnWidths)
+  const panelWidth = c.mdfPanelWidth
+
+  // The gap between the MDF panel edge and the beading inner edge, set by the widest column
+  const panelBeadingGap = (panelUnitWidth - 2 * c.beadingWidth - panelWidth) / 2
+
+  const columnXs: number[] = []
+  let x = c.leftMargin
+  for (const w of columnWidths) {
+    columnXs.push(x)
+    x += w + c.horizontalGap
+  }
+  const rowYs: number[] = []
+  let y = c.topMargin
+  for (const h of rowHeights) {
+    rowYs.push(y)
+    y += h + c.verticalGap
+  }
+
+  const panelWidths = columnWidths.map((w) => w - 2 * c.beadingWidth - 2 * panelBeadingGap)
+  const panelHeights = rowHeights.map((h) => h - 2 * c.beadingWidth - 2 * panelBeadingGap)
+
+  // Widest MDF panel that fits the widest column with no reveal
+  const maxPanelWidth = Math.floor(panelUnitWidth - 2 * c.beadingWidth)
+  if (panelWidth <= 0)
+    diagnostics.push({
+      code: 'panel-width-zero',
+      severity: 'error',
+      message: 'MDF panel width must be greater than 0.',
+      fields: ['mdfPanelWidth'],
+      fix: maxPanelWidth > 0 ? { field: 'mdfPanelWidth', value: maxPanelWidth } : undefined
+    })
+  if (panelBeadingGap < 0)
+    diagnostics.push({
+      code: 'panel-too-wide',
+      severity: 'error',
+      message: 'MDF panel is too wide for the available space — reduce panel width or increase door width/margins.',
+      fields: ['mdfPanelWidth', 'leftMargin', 'rightMargin', 'horizontalGap', 'doorWidth'],
+      fix: maxPanelWidth > 0 ? { field: 'mdfPanelWidth', value: maxPanelWidth } : undefined
+    })
+  panelWidths.forEach((w, ci) => {
+    const name = columnName(ci, columns) || 'Panel'
+    if (panelWidth > 0 && w <= 0) {
+      diagnostics.push({
+        code: 'column-panel-negative',
+        severity: 'error',
+        message: `${name} column panel width is negative — widen the column ratio or reduce the beading width.`,
+        fields: ['columnRatios', 'mdfPanelWidth']
+      })
+    } else if (panelWidth > 0 && w < minPanelSize) {
+      diagnostics.push({
+        code: 'panel-too-small',
+        severity: 'warning',
+        message: `${name} column panels are only ${formatLength(w, units)} ${unitSuffix(units)} wide — under ${formatLength(minPanelSize, units)} ${unitSuffix(units)} they are hard to cut and fit.`,
+        fields: ['columnRatios', 'mdfPanelWidth']
+      })
+    }
+  })
+  panelHeights.forEach((h, ri) => {
+    const name = rowName(ri, rows) || 'Panel'
+    if (h <= 0) {
+      diagnostics.push({
+        code: 'row-panel-negative',
+        severity: 'error',
+        message: `${name} panel height is negative — adjust margins, gaps or ratio.`,
+        fields: ['rowRatios', 'topMargin', 'bottomMargin', 'verticalGap']
+      })
+    } else if (h < minPanelSize) {
+      diagnostics.push({
+        code: 'panel-too-small',
+        severity: 'warning',
+        message: `${name} panels are only ${formatLength(h, units)} ${unitSuffix(units)} high — under ${formatLength(minPanelSize, units)} ${unitSuffix(units)} they are hard to cut and fit.`,
+        fields: ['rowRatios', 'topMargin', 'bottomMargin', 'verticalGap']
+      })
+    }
+  })
+
+  // Handle vs beading collision check, using the fitted hardware's footprint
+  const handleMarginKey = c.handleSide === 'left' ? 'leftMargin' : 'rightMargin'
+  const handleMargin = c[handleMarginKey]
+  const reach = handleReach(c)
+  if (reach > handleMargin) {
+    // Handle hardware extends past the margin — check if it vertically overlaps any beading unit
+    const footprint = hardwareFootprint(c.hardware)
+    const handleTop = c.handleHeight - footprint.up
+    const handleBottom = c.handleHeight + footprint.down
+
+    const overlapsRow = rowYs.some((rowTop, ri) =>
+      handleBottom > rowTop && handleTop < rowTop + rowHeights[ri]
+    )
+
+    const overlap = reach - handleMargin
+    if (overlapsRow) {
+      diagnostics.push({
+        code: 'handle-overlap',
+        severity: 'warning',
+        part: 'Handle',
+        message: `${c.hardware.name} extends ${formatLength(overlap, units)} ${unitSuffix(units)} past the ${c.handleSide} margin into the beading zone. Increase the ${c.handleSide} margin to at least ${formatLength(reach, units)} ${unitSuffix(units)}, reduce the indent or fit smaller hardware.`,
+        fields: ['handleIndent', handleMarginKey, 'handleHeight', 'hardware'],
+        fix: { field: handleMarginKey, value: Math.ceil(reach) }
+      })
+    }
+  }
+
+  // Hinge vs beading: a leaf over a unit, or too near the mitred corners on the hinge side
+  const hingeSide = hingeSideOf(c)
+  const hingeMarginKey = hingeSide === 'left' ? 'leftMargin' : 'rightMargin'
+  const hingeMargin = c[hingeMarginKey]
+  const hingeHeights = fitHinges(c)
+  const cornerYs = rowYs.flatMap((rowTop, ri) => [rowTop, rowTop + rowHeights[ri]])
+  hingeHeights.forEach((h, i) => {
+    const part = `Hinge ${i + 1}`
+    const top = h - c.hingeLength / 2
+    const bottom = h + c.hingeLength / 2
+    const leafReach = c.hingeLeafWidth - hingeMargin
+    const overlapRow = rowYs.findIndex((rowTop, ri) => bottom > rowTop && top < rowTop + rowHeights[ri])
+    if (leafReach > 0 && overlapRow >= 0) {
+      const row = rowName(overlapRow, rows)
+      diagnostics.push({
+        code: 'hinge-overlap',
+        severity: 'warning',
+        part,
+        message: `${part} leaf reaches ${formatLength(leafReach, units)} ${unitSuffix(units)} past the ${hingeSide} margin into the ${row ? `${row.toLowerCase()} ` : ''}beading. Increase the ${hingeSide} margin to at least ${formatLength(c.hingeLeafWidth, units)} ${unitSuffix(units)} or move the hinge into a gap.`,
+        fields: ['hingeLeafWidth', hingeMarginKey, 'hingeHeights'],
+        fix: { field: hingeMarginKey, value: Math.ceil(c.hingeLeafWidth) }
+      })
+      return
+    }
+    const dx = Math.max(0, -leafReach)
+    const dy = Math.min(...cornerYs.map((cy) => Math.max(0, top - cy, cy - bottom)))
+    const distance = Math.hypot(dx, dy)
+    if (distance < hingeMitreClearance) {
+      diagnostics.push({
+        code: 'hinge-near-mitre',
+        severity: 'warning',
+        part,
+        message: `${part} is only ${formatLength(distance, units)} ${unitSuffix(units)} from a beading mitre. Keep at least ${formatLength(hingeMitreClearance, units)} ${unitSuffix(units)} clear so the screws don't split the joint.`,
+        fields: ['hingeHeights', hingeMarginKey, 'hingeLeafWidth'],
+        fix: { field: hingeMarginKey, value: Math.ceil(c.hingeLeafWidth + hingeMitreClearance) }
+      })
+    }
+  })
+
+  // Rounding policy: positions to the nearest step, panels and beading as configured
+  const r = (v: number) => roundTo(v, c.roundingStep)
+  const rPanel = (v: number) => roundTo(v, c.roundingStep, c.panelRounding)
+  const rBead = (v: number) => roundTo(v, c.roundingStep, c.beadingRounding)
+
+  // ── Units and positions (absolute from door edges) ──
+  const panelUnits: PanelUnit[] = []
+  const unitPositions: UnitPosition[] = []
+  for (let ri = 0; ri < rows; ri++) {
+    for (let ci = 0; ci < columns; ci++) {
+      const lx = columnXs[ci]  // left edge of unit (= left long-point of top beading)
+      const rx = columnXs[ci] + columnWidths[ci]  // right edge (= right long-point)
+      const ty = rowYs[ri]  // top edge of unit (= top of top beading)
+      const label = unitLabel(ri, ci, rows, columns)
+      panelUnits.push({
+        label,
+        row: ri,
+        column: ci,
+        x: lx,
+        y: ty,
+        width: columnWidths[ci],
+        height: rowHeights[ri],
+        panelWidth: rPanel(panelWidths[ci]),
+        panelHeight: rPanel(panelHeights[ri]),
+        infill: unitInfill(c, ri, ci)
+      })
+      unitPositions.push({
+        label,
+        beadingLeftX: r(lx),
+        beadingRightX: r(rx),
+        beadingY: r(ty),
+        pinX: r(lx + columnWidths[ci] / 2),
+        pinY: r(ty + c.beadingWidth / 2)
+      })
+    }
+  }
+
+  // Glazed units: the front beading stops the glass, so it must still have some width glued to the door
+  if (panelUnits.some((u) => u.infill === 'glass') && c.glazingRebate > c.beadingWidth - 5) {
+    const onFace = c.beadingWidth - c.glazingRebate
+    diagnostics.push({
+      code: 'glazing-rebate-too-wide',
+      severity: onFace <= 0 ? 'error' : 'warning',
+      message: onFace <= 0
+        ? `The glazing cut-out runs right under the front beading, leaving nothing to fix it to. Reduce the rebate below ${formatLength(c.beadingWidth, units)} ${unitSuffix(units)}.`
+        : `Only ${formatLength(onFace, units)} ${unitSuffix(units)} of the front beading sits on the door beside the glazing cut-out. Reduce the rebate or use wider beading.`,
+      fields: ['glazingRebate', 'beadingWidth']
+    })
+  }
+
+  // ── Cut list, grouped by row then by identical size ──
+  // Oversized pieces carry the trim allowance; otherwise it is waste at the saw
+  const oversize = c.oversizeToFit ? c.trimAllowance : 0
+  const wastePerPiece = c.sawKerf + (c.oversizeToFit ? 0 : c.trimAllowance)
+  const panelCuts: PanelCut[] = []
+  const beadingCuts: BeadingCut[] = []
+  const arches: ArchCut[] = []
+  const glazing: GlazingCut[] = []
+  const glazingBeadCuts: BeadingCut[] = []
+  const rowTops = fitRowTops(c.rowTops, rows)
+  for (let ri = 0; ri < rows; ri++) {
+    const group = rowName(ri, rows)
+    const top = rowTops[ri]
+    const rowUnits = panelUnits.filter((u) => u.row === ri)
+    const sizes = new Map<string, PanelUnit[]>()
+    rowUnits.forEach((u) => {
+      const key = `${u.infill}:${r(u.width)}×${r(u.height)}`
+      sizes.set(key, [...(sizes.get(key) ?? []), u])
+    })
+    sizes.forEach((same) => {
+      const u = same[0]
+      // Name the columns only when a row mixes unit sizes
+      const detail = sizes.size > 1 ? same.map((s) => columnName(s.column, columns)).join(', ') : ''
+      // Arched tops replace the top piece with flexible beading and shorten the sides
+      const inset = c.beadingWidth + panelBeadingGap
+      const curves = top.shape === 'rectangle'
+        ? null
+        : [0, c.beadingWidth, inset].map((d) => archCurve(top.shape as ArchShape, u.width / 2, top.rise, d))
+      const arch = curves && curves.every(Boolean) ? (curves as ArchCurve[]) : null
+      if (curves && !arch) {
+        diagnostics.push({
+          code: 'arch-too-tall',
+          severity: 'error',
+          message: `${group || 'The'} arch is too small for its beading and panel — the inner curves no longer reach the sides. Lower the rise or narrow the beading.`,
+          fields: ['rowTops', 'beadingWidth']
+        })
+      }
+      if (u.infill === 'mdf') {
+        panelCuts.push({
+          label: (group ? `${group} panels` : 'Panels') + (detail ? ` — ${detail}` : '') + (arch ? ` (${rowShapeLabels[top.shape].toLowerCase()} top)` : ''),
+          qty: same.length,
+          width: u.panelWidth,
+          height: u.panelHeight
+        })
+      } else if (u.infill === 'glass') {
+        // The cut-out runs under the front beading by the rebate; the glass fits it with clearance
+        const cutOutWidth = u.width - 2 * c.beadingWidth + 2 * c.glazingRebate
+        const cutOutHeight = u.height - 2 * c.beadingWidth + 2 * c.glazingRebate
+        // Glazing bead is mitred to fit inside the cut-out, against the back of the glass.
+        // Under an arch the top piece follows the cut-out's curve in flexible bead instead.
+        const bead = c.glazingBeadWidth
+        const edge = c.beadingWidth - c.glazingRebate
+        const beadCurves = arch && [edge, edge + bead].map((d) => archCurve(top.shape as ArchShape, u.width / 2, top.rise, d))
+        if (beadCurves && !beadCurves.every(Boolean)) {
+          diagnostics.push({
+            code: 'arch-too-tall',
+            severity: 'error',
+            message: `${group || 'The'} arch is too small for its glazing bead — the bead's inner curve no longer reaches the sides. Lower the rise or narrow the glazing bead.`,
+            fields: ['rowTops', 'glazingBeadWidth']
+          })
+        }
+        const [cutCurve, beadCurve] = arch && beadCurves?.every(Boolean) ? (beadCurves as ArchCurve[]) : []
+        const pieces = cutCurve ? cutCurve.centres.length : 0
+        glazing.push({
+          group,
+          detail,
+          qty: same.length,
+          cutOutWidth: r(cutOutWidth),
+          cutOutHeight: r(cutOutHeight),
+          glassWidth: rPanel(cutOutWidth - 2 * c.glazingClearance),
+          glassHeight: rPanel(cutOutHeight - 2 * c.glazingClearance),
+          shaped: arch !== null,
+          arch: cutCurve
+            ? {
+                qty: same.length * pieces,
+                longPoint: rBead(cutCurve.length / pieces),
+                shortPoint: rBead(beadCurve.length / pieces),
+                cutLength: rBead(cutCurve.length / pieces + oversize),
+                springMitre: Math.round(cutCurve.springMitre * 10) / 10,
+                crownMitre: Math.round(cutCurve.crownMitre * 10) / 10
+              }
+            : null
+        })
+        const mitres: [BeadingEnd, BeadingEnd] = [{ cut: 'mitre', angle: 45 }, { cut: 'mitre', angle: 45 }]
+        glazingBeadCuts.push({
+          group,
+          detail,
+          orientation: 'horizontal',
+          qty: same.length * (cutCurve ? 1 : 2),
+          longPoint: rBead(cutOutWidth),
+          shortPoint: rBead(cutOutWidth - 2 * bead),
+          cutLength: rBead(cutOutWidth + oversize),
+          ends: mitres,
+          formula: 'L → L − 2w'
+        })
+        if (cutCurve) {
+          // Sides stop where the cut-out's curve meets them, measured up from the springing line
+          const rise = arch![0].crown
+          const sideLong = u.height - rise + cutCurve.spring - edge
+          const sideShort = u.height - rise + beadCurve.spring - edge - bead
+          glazingBeadCuts.push({
+            group,
+            detail,
+            orientation: 'vertical',
+            qty: same.length * 2,
+            longPoint: rBead(sideLong),
+            shortPoint: rBead(sideShort),
+            cutLength: rBead(sideLong + oversize),
+            ends: [{ cut: cutCurve.springMitre > 0.05 ? 'mitre' : 'square', angle: Math.round(cutCurve.springMitre * 10) / 10 }, mitres[1]],
+            formula: 'L − h → L − h + s − w (h: cut-out rise, s: inner spring)'
+          })
+        } else {
+          glazingBeadCuts.push({
+            group,
+            detail,
+            orientation: 'vertical',
+            qty: same.length * 2,
+            longPoint: rBead(cutOutHeight),
+            shortPoint: rBead(cutOutHeight - 2 * bead),
+            cutLength: rBead(cutOutHeight + oversize),
+            ends: mitres,
+            formula: 'L → L − 2w'
+          })
+        }
+      }
+      if (arch && top.shape !== 'rectangle') {
+        const [outer, inner, panel] = arch
+        const rise = outer.crown
+        const pieces = outer.centres.length
+        const bottom = pieceJoints(c, 'horizontal')
+        beadingCuts.push({
+          group,
+          detail,
+          orientation: 'horizontal',
+          qty: same.length,
+          longPoint: rBead(u.width - c.beadingWidth * bottom.longLoss),
+          shortPoint: rBead(u.width - c.beadingWidth * bottom.shortLoss),
+          cutLength: rBead(u.width - c.beadingWidth * bottom.longLoss + oversize),
+          ends: bottom.ends,
+          formula: bottom.formula
+        })
+        // Sides run from the bottom joint up to where they meet the curve
+        const side = pieceJoints(c, 'vertical')
+        const sideLong = u.height - rise - (c.beadingWidth * side.longLoss) / 2
+        const sideShort = u.height - rise + inner.spring - (c.beadingWidth * side.shortLoss) / 2
+        beadingCuts.push({
+          group,
+          detail,
+          orientation: 'vertical',
+          qty: same.length * 2,
+          longPoint: rBead(sideLong),
+          shortPoint: rBead(sideShort),
+          cutLength: rBead(sideLong + oversize),
+          ends: [{ cut: outer.springMitre > 0.05 ? 'mitre' : 'square', angle: Math.round(outer.springMitre * 10) / 10 }, side.ends[1]],
+          formula: 'L − h → L − h + s − w (h: arch rise, s: inner spring)'
+        })
+        if (sideShort < minShortPoint) {
+          diagnostics.push({
+            code: 'arch-too-tall',
+            severity: sideShort <= 0 ? 'error' : 'warning',
+            message: `${group || 'The'} arch leaves only ${formatLength(Math.max(0, sideShort), units)} ${unitSuffix(units)} of straight beading at the sides. Lower the rise or make the row taller.`,
+            fields: ['rowTops', 'rowRatios']
+          })
+        }
+        arches.push({
+          row: ri,
+          group,
+          detail,
+          shape: top.shape,
+          qty: same.length * pieces,
+          unitWidth: u.width,
+          unitHeight: u.height,
+          span: r(outer.span),
+          rise: r(rise),
+          radius: r(outer.radius),
+          innerRadius: r(inner.radius),
+          longPoint: rBead(outer.length / pieces),
+          shortPoint: rBead(inner.length / pieces),
+          cutLength: rBead(outer.length / pieces + oversize),
+          springMitre: Math.round(outer.springMitre * 10) / 10,
+          crownMitre: Math.round(outer.crownMitre * 10) / 10,
+          template: {
+            radius: r(panel.radius),
+            chord: rPanel(panel.span),
+            rise: r(panel.crown - panel.spring),
+            sideHeight: rPanel(panel.spring + u.height - rise - inset),
+            height: u.panelHeight
+          }
+        })
+        return
+      }
+      // Long/short points follow the joint at each end of the piece
+      ;([['horizontal', u.width], ['vertical', u.height]] as const).forEach(([orientation, length]) => {
+        const joints = pieceJoints(c, orientation)
+        const longPoint = length - c.beadingWidth * joints.longLoss
+        beadingCuts.push({
+          group,
+          detail,
+          orientation,
+          qty: same.length * 2,
+          longPoint: rBead(longPoint),
+          shortPoint: rBead(length - c.beadingWidth * joints.shortLoss),
+          cutLength: rBead(longPoint + oversize),
+          ends: joints.ends,
+          formula: joints.formula
+        })
+      })
+    })
+  }
+
+  // Where the rounding error collects: the last margin in each direction, and the panel reveals
+  const half = c.roundingStep / 2
+  const rounding: RoundingReport = {
+    panelBand: c.panelRounding === 'down' ? [-c.roundingStep, 0] : [-half, half],
+    beadingBand: c.beadingRounding === 'up' ? [0, c.roundingStep] : [-half, half],
+    acrossRow: columnWidths.reduce((sum, w) => sum + rBead(w) - w, 0),
+    downColumn: rowHeights.reduce((sum, h) => sum + rBead(h) - h, 0),
+    panelAcrossRow: panelWidths.reduce((sum, w) => sum + w - rPanel(w), 0)
+  }
+
+  // Joints from both ends meet when the short-point reaches zero
+  beadingCuts.forEach((b) => {
+    if (b.shortPoint >= minShortPoint) return
+    const { longLoss, shortLoss } = pieceJoints(c, b.orientation)
+    const length = b.longPoint + c.beadingWidth * longLoss
+    const widest = shortLoss > 0 ? Math.floor((length - minShortPoint) / shortLoss) : 0
+    diagnostics.push({
+      code: 'beading-too-short',
+      severity: b.shortPoint <= 0 ? 'error' : 'warning',
+      message: b.shortPoint <= 0
+        ? `${beadingCutName(b)} beading is too short for its joints — the cuts at each end would cross. Narrow the beading or enlarge the unit.`
+        : `${beadingCutName(b)} beading is only ${formatLength(b.shortPoint, units)} ${unitSuffix(units)} at the short point — too short to hold safely at the saw.`,
+      fields: ['beadingWidth', b.orientation === 'horizontal' ? 'columnRatios' : 'rowRatios'],
+      fix: widest >= 1 ? { field: 'beadingWidth', value: widest } : undefined
+    })
+  })
+
+  // ── Out-of-square door: carry the square layout onto the measured shape ──
+  let shape: ShapeReport | null = null
+  if (c.edges) {
+    const solved = solveDoorShape(c.edges)
+    if (!solved) {
+      diagnostics.push({
+        code: 'edges-unsolvable',
+        severity: 'error',
+        message: "The measured edges don't close into a door shape. Re-check the heights and diagonals.",
+        fields: ['edges']
+      })
+    } else {
+      if (Math.abs(solved.bottomWidthError) > 2) {
+        diagnostics.push({
+          code: 'edges-mismatch',
+          severity: 'warning',
+          message: `The diagonals put the bottom edge ${formatLength(Math.abs(solved.bottomWidthError), units)} ${unitSuffix(units)} ${solved.bottomWidthError > 0 ? 'shorter' : 'longer'} than measured. One of the measurements is probably out.`,
+          fields: ['edges']
+        })
+      }
+      // Stretch the layout so margins follow each edge and the panels stay centred between them
+      const toDoor = (x: number, y: number): Point =>
+        mapPoint(solved, { x: (x / c.doorWidth) * solved.width, y: (y / c.doorHeight) * solved.height })
+      const quad = (x: number, y: number, w: number, h: number) => {
+        const [tl, tr, br, bl] = [toDoor(x, y), toDoor(x + w, y), toDoor(x + w, y + h), toDoor(x, y + h)]
+        return { top: distance(tl, tr), bottom: distance(bl, br), left: distance(tl, bl), right: distance(tr, br) }
+      }
+      const pieces: AdjustedPiece[] = []
+      const panels: AdjustedPanel[] = []
+      panelUnits.forEach((u) => {
+        const outer = quad(u.x, u.y, u.width, u.height)
+        ;(['top', 'bottom', 'left', 'right'] as const).forEach((edge) => {
+          const orientation = edge === 'top' || edge === 'bottom' ? 'horizontal' : 'vertical'
+          const joints = pieceJoints(c, orientation)
+          const length = outer[edge]
+          pieces.push({
+            unit: u.label,
+            edge,
+            longPoint: rBead(length - c.beadingWidth * joints.longLoss),
+            shortPoint: rBead(length - c.beadingWidth * joints.shortLoss),
+            change: r(length - (orientation === 'horizontal' ? u.width : u.height)) || 0
+          })
+        })
+        const inset = c.beadingWidth + panelBeadingGap
+        const panel = quad(u.x + inset, u.y + inset, u.panelWidth, u.panelHeight)
+        panels.push({
+          unit: u.label,
+          topWidth: rPanel(panel.top),
+          bottomWidth: rPanel(panel.bottom),
+          leftHeight: rPanel(panel.left),
+          rightHeight: rPanel(panel.right)
+        })
+      })
+      const [tl, tr, br, bl] = solved.corners
+      shape = {
+        shape: solved,
+        cornerAngles: [cornerAngle(bl, tl, tr), cornerAngle(tl, tr, br), cornerAngle(tr, br, bl), cornerAngle(br, bl, tl)]
+          .map((a) => Math.round(a * 100) / 100),
+        diagonalDifference: solved.fromDiagonals ? r(c.edges.diagonalDown - c.edges.diagonalUp) : 0,
+        pieces,
+        panels
+      }
+    }
+  }
+
+  return {
+    rows,
+    columns,
+    columnXs,
+    columnWidths,
+    rowYs,
+    rowHeights,
+    panelUnits,
+    panelWidth: r(panelWidth),
+    panelBeadingGap: r(panelBeadingGap),
+    panelCuts,
+    beadingCuts,
+    arches,
+    glazing,
+    glazingBeadCuts,
+    flexibleBeadingLength: arches.reduce((sum, a) => sum + a.cutLength * a.qty, 0),
+    panelCount: panelUnits.filter((u) => u.infill === 'mdf').length,
+    beadingCount: beadingCuts.reduce((sum, b) => sum + b.qty, 0),
+    totalBeadingLength: beadingCuts.reduce((sum, b) => sum + b.cutLength * b.qty, 0),
+    idealBeadingLength: beadingCuts.reduce((sum, b) => sum + b.longPoint * b.qty, 0),
+    beadingStockLength: beadingCuts.reduce((sum, b) => sum + (b.cutLength + wastePerPiece) * b.qty, 0),
+    glazingBeadCount: [...glazingBeadCuts, ...glazing.flatMap((g) => (g.arch ? [g.arch] : []))].reduce((sum, b) => sum + b.qty, 0),
+    glazingBeadStockLength: [...glazingBeadCuts, ...glazing.flatMap((g) => (g.arch ? [g.arch] : []))]
+      .reduce((sum, b) => sum + (b.cutLength + wastePerPiece) * b.qty, 0),
+    unitPositions,
+    hingeHeights,
+    rounding,
+    shape,
+    diagnostics,
+    isValid: !diagnostics.some((d) => d.severity === 'error')
+  }
+}
+
+// ── Rounding ───────────────────────────────────────────
+
+export const roundingSteps = [0.1, 0.5, 1]
+
+export function formatRoundingPolicy(c: DoorConfig, units: UnitSettings): string {
+  return `${formatLength(c.roundingStep, units, 2)} ${unitSuffix(units)} steps, panels ${c.panelRounding === 'down' ? 'rounded down' : 'to nearest'}, beading ${c.beadingRounding === 'up' ? 'rounded up' : 'to nearest'}`
+}
+
+/** e.g. "±0.05 mm", or "−0.5/+0 mm" for one-way rounding. */
+export function formatBand([lo, hi]: [number, number], units: UnitSettings): string {
+  const L = (mm: number) => formatLength(mm, units, 2)
+  if (lo === -hi) return `±${L(hi)} ${unitSuffix(units)}`
+  return `−${L(-lo)}/+${L(hi)} ${unitSuffix(units)}`
+}
+
+/** e.g. "+0.4 mm", signed so it's clear which way the slack runs. */
+export function formatSlack(mm: number, units: UnitSettings): string {
+  const rounded = Math.round(mm * 100) / 100
+  return `${rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}${formatLength(Math.abs(rounded), units, 2)} ${unitSuffix(units)}`
+}
+
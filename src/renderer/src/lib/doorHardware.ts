@@ -0,0 +1,85 @@
+export type HardwareKind = 'lever-backplate' | 'lever-rose' | 'knob' | 'pull-bar' | 'thumb-turn' | 'escutcheon'
+
+/**
+ * A handle, knob or plate fitted at the handle position. All sizes in mm.
+ * `gripLength` is the lever length, bar length, knob diameter or turn length;
+ * `gripWidth` its thickness. Round roses use `plateWidth` as the diameter.
+ */
+export interface HardwareItem {
+  id: string
+  name: string
+  kind: HardwareKind
+  plateWidth: number
+  plateHeight: number
+  gripLength: number
+  gripWidth: number
+  keyhole: boolean
+  builtIn?: boolean
+}
+
+/** Extent of an item around its spindle: `inward` points away from the handle edge. */
+export interface Footprint {
+  inward: number
+  outward: number
+  up: number
+  down: number
+}
+
+export const hardwareKindLabels: Record<HardwareKind, string> = {
+  'lever-backplate': 'Lever on backplate',
+  'lever-rose': 'Lever on rose',
+  knob: 'Knob',
+  'pull-bar': 'Pull bar',
+  'thumb-turn': 'Thumb-turn',
+  escutcheon: 'Keyhole escutcheon'
+}
+
+/** What `gripLength` measures for each kind; empty when there is no grip. */
+export const gripLengthLabels: Record<HardwareKind, string> = {
+  'lever-backplate': 'Lever length',
+  'lever-rose': 'Lever length',
+  knob: 'Knob diameter',
+  'pull-bar': 'Bar length',
+  'thumb-turn': 'Turn length',
+  escutcheon: ''
+}
+
+/** Kinds mounted on a round rose rather than a plate. */
+export function hasRose(kind: HardwareKind): boolean {
+  return kind === 'lever-rose' || kind === 'knob' || kind === 'thumb-turn'
+}
+
+export const builtInHardware: HardwareItem[] = [
+  { id: 'lever-backplate', name: 'Lever on backplate', kind: 'lever-backplate', plateWidth: 42, plateHeight: 180, gripLength: 110, gripWidth: 14, keyhole: true, builtIn: true },
+  { id: 'lever-rose', name: 'Lever on rose', kind: 'lever-rose', plateWidth: 52, plateHeight: 52, gripLength: 125, gripWidth: 16, keyhole: false, builtIn: true },
+  { id: 'knob', name: 'Mortice knob', kind: 'knob', plateWidth: 55, plateHeight: 55, gripLength: 58, gripWidth: 58, keyhole: false, builtIn: true },
+  { id: 'pull-bar', name: 'Pull bar 300', kind: 'pull-bar', plateWidth: 30, plateHeight: 30, gripLength: 300, gripWidth: 25, keyhole: false, builtIn: true },
+  { id: 'thumb-turn', name: 'Bathroom thumb-turn', kind: 'thumb-turn', plateWidth: 52, plateHeight: 52, gripLength: 38, gripWidth: 12, keyhole: false, builtIn: true },
+  { id: 'escutcheon', name: 'Keyhole escutcheon', kind: 'escutcheon', plateWidth: 34, plateHeight: 50, gripLength: 0, gripWidth: 0, keyhole: true, builtIn: true }
+]
+
+export function hardwareFootprint(item: HardwareItem): Footprint {
+  const plateX = item.plateWidth / 2
+  const plateY = item.plateHeight / 2
+  switch (item.kind) {
+    case 'lever-backplate':
+    case 'lever-rose': {
+      // The lever points inward from the spindle
+      const y = Math.max(plateY, item.gripWidth / 2)
+      return { inward: Math.max(plateX, item.gripLength), outward: plateX, up: y, down: y }
+    }
+    case 'knob': {
+      const radius = Math.max(item.plateWidth, item.gripLength) / 2
+      return { inward: radius, outward: radius, up: radius, down: radius }
+    }
+    case 'pull-bar':
+    case 'thumb-turn': {
+      // Both stand upright, centred on the handle height
+      const x = Math.max(plateX, item.gripWidth / 2)
+      const y = Math.max(plateY, item.gripLength / 2)
+      return { inward: x, outward: x, up: y, down: y }
+    }
+    case 'escutcheon':
+      return { inward: plateX, outward: plateX, up: plateY, down: plateY }
+  }
+}
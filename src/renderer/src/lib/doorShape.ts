@@ -0,0 +1,101 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Tape measurements of a real door, in mm. Diagonals are 0 when not measured. */
+export interface EdgeMeasurements {
+  topWidth: number
+  bottomWidth: number
+  leftHeight: number
+  rightHeight: number
+  diagonalDown: number     // top-left corner to bottom-right
+  diagonalUp: number       // bottom-left corner to top-right
+}
+
+export interface DoorShape {
+  corners: [Point, Point, Point, Point]   // top-left, top-right, bottom-right, bottom-left
+  width: number            // nominal size: mean of the two widths
+  height: number           // nominal size: mean of the two heights
+  fromDiagonals: boolean   // false when the bottom is assumed centred under the top
+  bottomWidthError: number // measured minus solved bottom width, when the diagonals fix the shape
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y)
+}
+
+/** Inside angle at `corner` between its neighbours, in degrees. */
+export function cornerAngle(prev: Point, corner: Point, next: Point): number {
+  const a = Math.atan2(prev.y - corner.y, prev.x - corner.x)
+  const b = Math.atan2(next.y - corner.y, next.x - corner.x)
+  const angle = Math.abs(((b - a) * 180) / Math.PI) % 360
+  return angle > 180 ? 360 - angle : angle
+}
+
+/** The lower of the two points `ra` from `a` and `rb` from `b`, or null if the circles miss. */
+function intersectBelow(a: Point, ra: number, b: Point, rb: number): Point | null {
+  const d = distance(a, b)
+  if (d === 0 || d > ra + rb || d < Math.abs(ra - rb)) return null
+  const along = (ra * ra - rb * rb + d * d) / (2 * d)
+  const h = Math.sqrt(Math.max(0, ra * ra - along * along))
+  const ux = (b.x - a.x) / d
+  const uy = (b.y - a.y) / d
+  const mx = a.x + ux * along
+  const my = a.y + uy * along
+  const p1 = { x: mx - uy * h, y: my + ux * h }
+  const p2 = { x: mx + uy * h, y: my - ux * h }
+  return p1.y >= p2.y ? p1 : p2
+}
+
+/**
+ * Solve the corners of a door from its edge measurements, with the top edge level. Both
+ * diagonals fix the shape, leaving the bottom width as a check; without them the bottom is
+ * assumed centred under the top. The corners are then shifted so their centre sits at the
+ * centre of the nominal rectangle. Returns null when the measurements can't close.
+ */
+export function solveDoorShape(m: EdgeMeasurements): DoorShape | null {
+  if ([m.topWidth, m.bottomWidth, m.leftHeight, m.rightHeight].some((v) => !(v > 0))) return null
+  const tl = { x: 0, y: 0 }
+  const tr = { x: m.topWidth, y: 0 }
+  const fromDiagonals = m.diagonalDown > 0 && m.diagonalUp > 0
+
+  let br: Point | null
+  let bl: Point | null
+  if (fromDiagonals) {
+    br = intersectBelow(tl, m.diagonalDown, tr, m.rightHeight)
+    bl = intersectBelow(tl, m.leftHeight, tr, m.diagonalUp)
+  } else {
+    const inset = (m.topWidth - m.bottomWidth) / 2
+    bl = Math.abs(inset) < m.leftHeight ? { x: inset, y: Math.sqrt(m.leftHeight ** 2 - inset ** 2) } : null
+    br = Math.abs(inset) < m.rightHeight ? { x: m.topWidth - inset, y: Math.sqrt(m.rightHeight ** 2 - inset ** 2) } : null
+  }
+  if (!br || !bl) return null
+
+  const width = (m.topWidth + m.bottomWidth) / 2
+  const height = (m.leftHeight + m.rightHeight) / 2
+  const cx = (tl.x + tr.x + br.x + bl.x) / 4
+  const cy = (tl.y + tr.y + br.y + bl.y) / 4
+  const shift = (p: Point): Point => ({ x: p.x - cx + width / 2, y: p.y - cy + height / 2 })
+
+  return {
+    corners: [shift(tl), shift(tr), shift(br), shift(bl)],
+    width,
+    height,
+    fromDiagonals,
+    bottomWidthError: fromDiagonals ? m.bottomWidth - distance(bl, br) : 0
+  }
+}
+
+/**
+ * Carry a point on the nominal rectangle onto the real door, stretching the layout so the
+ * margins follow each edge. `exaggerate` scales the distortion so a few mm show in a preview.
+ */
+export function mapPoint(shape: DoorShape, p: Point, exaggerate = 1): Point {
+  const u = p.x / shape.width
+  const v = p.y / shape.height
+  const [tl, tr, br, bl] = shape.corners
+  const x = (1 - u) * (1 - v) * tl.x + u * (1 - v) * tr.x + u * v * br.x + (1 - u) * v * bl.x
+  const y = (1 - u) * (1 - v) * tl.y + u * (1 - v) * tr.y + u * v * br.y + (1 - u) * v * bl.y
+  return { x: p.x + (x - p.x) * exaggerate, y: p.y + (y - p.y) * exaggerate }
+}
@@ -0,0 +1,105 @@
+export type ImageFormat = 'png' | 'jpeg' | 'webp'
+
+export type ImageBackground = 'dark' | 'light' | 'transparent'
+
+export const imageFormats: Record<ImageFormat, { label: string; type: string; extension: string }> = {
+  png: { label: 'PNG', type: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', type: 'image/jpeg', extension: 'jpg' },
+  webp: { label: 'WebP', type: 'image/webp', extension: 'webp' }
+}
+
+/** Fill behind the drawing; null leaves it transparent. Dark matches the app. */
+export const imageBackgrounds: Record<ImageBackground, string | null> = {
+  dark: '#09090b',
+  light: '#ffffff',
+  transparent: null
+}
+
+/** Longest side Chromium will allocate a canvas for. */
+export const maxImageSide = 16384
+
+/**
+ * Draw SVG markup `width` × `height` units onto a canvas at `scale` pixels per unit and encode
+ * it. JPEG has no transparency, so a missing background is filled white.
+ */
+export async function rasterizeSvg(
+  svg: string,
+  width: number,
+  height: number,
+  scale: number,
+  format: ImageFormat,
+  background: string | null
+): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+  try {
+    const img = new Image()
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve()
+      img.onerror = () => reject(new Error('Image load failed'))
+      img.src = url
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    const ctx = canvas.getContext('2d')!
+    const fill = background ?? (format === 'jpeg' ? imageBackgrounds.light : null)
+    if (fill) {
+      ctx.fillStyle = fill
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+    const blob = await new Promise<Blob | null>((res) => canvas.toBlob(res, imageFormats[format].type, 0.92))
+    if (!blob) throw new Error('Image encoding failed')
+    return blob
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (const b of bytes) c = crcTable[(c ^ b) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Record the resolution in the file so it prints at the intended size: a pHYs chunk after a
+ * PNG's header, or the density in a JPEG's JFIF header. WebP has nowhere to keep it, and
+ * files that don't look as expected are returned unchanged.
+ */
+export function withDpi(bytes: Uint8Array, format: ImageFormat, dpi: number): Uint8Array {
+  if (format === 'png' && bytes.length > 33 && String.fromCharCode(...bytes.subarray(12, 16)) === 'IHDR') {
+    const perMetre = Math.round(dpi / 0.0254)
+    const chunk = new Uint8Array(21)
+    const chunkView = new DataView(chunk.buffer)
+    chunkView.setUint32(0, 9)
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4) // "pHYs"
+    chunkView.setUint32(8, perMetre)
+    chunkView.setUint32(12, perMetre)
+    chunk[16] = 1 // unit: metre
+    chunkView.setUint32(17, crc32(chunk.subarray(4, 17)))
+    const out = new Uint8Array(bytes.length + chunk.length)
+    out.set(bytes.subarray(0, 33))
+    out.set(chunk, 33)
+    out.set(bytes.subarray(33), 33 + chunk.length)
+    return out
+  }
+  if (format === 'jpeg' && bytes.length > 18 && String.fromCharCode(...bytes.subarray(6, 10)) === 'JFIF') {
+    const out = bytes.slice()
+    const outView = new DataView(out.buffer)
+    const density = Math.min(65535, Math.round(dpi))
+    out[13] = 1 // unit: dots per inch
+    outView.setUint16(14, density)
+    outView.setUint16(16, density)
+    return out
+  }
+  return bytes
+}
@@ -0,0 +1,154 @@
+import { type UnitSettings, formatLength, unitSuffix } from '@/lib/units'
+import { type Point, mapPoint } from '@/lib/doorShape'
+import { type VectorPoint, polylinePath } from '@/lib/vectorDrawing'
+import { hasRose } from '@/lib/doorHardware'
+import { type PaperSize } from '@/lib/workshopSheet'
+import { escapeXml } from '@/lib/utils'
+import { type DoorConfig, calculateCuts, pairLeaves, unitOutlinePoints } from '@/lib/doorCuts'
+
+const paperSizes: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  Letter: { width: 215.9, height: 279.4 }
+}
+
+const printMargin = 10.16      // each side of a PDF page: the main process prints with 0.4 in margins
+const tileOverlap = 15         // shared by neighbouring pages, where the alignment marks sit
+const templateBorder = 15      // paper round the door edges
+const tileFooter = 14          // page label and ruler under each tile
+const leafSpacing = 40
+
+const svgText = (x: number, y: number, s: string, anchor: 'start' | 'middle' = 'start', size = 4) =>
+  `<text x="${x}" y="${y}" font-family="monospace" font-size="${size}" text-anchor="${anchor}">${escapeXml(s)}</text>`
+
+const svgCross = (x: number, y: number, r: number) =>
+  `<path d="M ${x - r} ${y} H ${x + r} M ${x} ${y - r} V ${y + r}" stroke="#000" stroke-width="0.2"/>`
+
+/** 100 mm bar with centimetre ticks, to check a print came out at full size. */
+function scaleRuler(x: number, y: number): string {
+  return [
+    `<path d="M ${x} ${y} H ${x + 100}${Array.from({ length: 11 }, (_, i) => ` M ${x + i * 10} ${y} V ${y - (i % 5 === 0 ? 5 : 3)}`).join('')}" fill="none" stroke="#000" stroke-width="0.3"/>`,
+    svgText(x + 104, y, '100 mm — check before marking')
+  ].join('\n')
+}
+
+/**
+ * Full-size drawing of one face in millimetres, leaves side by side: the door edges, the
+ * beading outlines (inside edge dashed), a pin hole at each fitting-guide position and the
+ * handle's plate, spindle and keyhole, all measured from each leaf's top-left corner. On a
+ * measured door every position follows the real shape, as in the vector export.
+ */
+function markingTemplate(c: DoorConfig, units: UnitSettings): { width: number; height: number; body: string[] } {
+  const leaves = pairLeaves(c)
+  const L = (mm: number) => `${formatLength(mm, units)} ${unitSuffix(units)}`
+  const top = templateBorder
+  const body = leaves.flatMap((leaf, li) => {
+    const lc = leaf.config
+    const cuts = calculateCuts(lc, units)
+    const left = templateBorder + li * (lc.doorWidth + leafSpacing)
+    const shape = cuts.shape?.shape
+    const real = <T extends Point>(p: T): T => {
+      const q = shape ? mapPoint(shape, { x: (p.x / lc.doorWidth) * shape.width, y: (p.y / lc.doorHeight) * shape.height }) : p
+      return { ...p, x: left + q.x, y: top + q.y }
+    }
+    const outline = (points: VectorPoint[]) => polylinePath(points.map(real), true)
+    const item = lc.hardware
+    const { x: hx, y: hy } = real({ x: lc.handleSide === 'left' ? lc.handleIndent : lc.doorWidth - lc.handleIndent, y: lc.handleHeight })
+    const edgeLabel = real({ x: lc.doorWidth / 2, y: 8 })
+    const plate =
+      item.kind === 'pull-bar'
+        ? [-1, 1].map((end) => `<circle cx="${hx}" cy="${hy + (end * (item.gripLength - item.plateHeight)) / 2}" r="${item.plateWidth / 2}"`)
+        : hasRose(item.kind)
+          ? [`<circle cx="${hx}" cy="${hy}" r="${item.plateWidth / 2}"`]
+          : [`<rect x="${hx - item.plateWidth / 2}" y="${hy - item.plateHeight / 2}" width="${item.plateWidth}" height="${item.plateHeight}" rx="${Math.min(item.plateWidth, item.plateHeight) / 2}"`]
+    const keyholeY = item.kind === 'escutcheon' ? hy : hy + item.plateHeight * 0.28
+    return [
+      `<path d="${outline([{ x: 0, y: 0 }, { x: lc.doorWidth, y: 0 }, { x: lc.doorWidth, y: lc.doorHeight }, { x: 0, y: lc.doorHeight }])}" fill="none" stroke="#000" stroke-width="0.5"/>`,
+      svgText(edgeLabel.x, edgeLabel.y, `${c.pair ? `${leaf.side[0].toUpperCase()}${leaf.side.slice(1)} leaf` : 'Door'} — top edge${shape ? ', drawn to the measured shape' : ''}`, 'middle'),
+      ...cuts.panelUnits.flatMap((u) => [
+        `<path d="${outline(unitOutlinePoints(lc, u, u.x, u.y, 0))}" fill="none" stroke="#000" stroke-width="0.4"/>`,
+        `<path d="${outline(unitOutlinePoints(lc, u, u.x, u.y, lc.beadingWidth))}" fill="none" stroke="#000" stroke-width="0.25" stroke-dasharray="2 1.5"/>`
+      ]),
+      ...cuts.unitPositions.flatMap((up) => {
+        const p = real({ x: up.pinX, y: up.pinY })
+        return [
+          svgCross(p.x, p.y, 4),
+          `<circle cx="${p.x}" cy="${p.y}" r="0.8" fill="#000"/>`,
+          svgText(p.x + 3, p.y - 3, `${up.label} pin`)
+        ]
+      }),
+      ...plate.map((shape) => `${shape} fill="none" stroke="#000" stroke-width="0.3" stroke-dasharray="3 1.5"/>`),
+      svgCross(hx, hy, 8),
+      ...(item.keyhole ? [`<circle cx="${hx}" cy="${keyholeY}" r="5" fill="none" stroke="#000" stroke-width="0.3"/>`, svgCross(hx, keyholeY, 3)] : []),
+      svgText(hx, hy + Math.max(item.plateHeight, item.kind === 'pull-bar' ? item.gripLength : 0) / 2 + 6, `${item.name}, ${L(lc.handleHeight)} from top`, 'middle', 3.5)
+    ]
+  })
+  return {
+    width: templateBorder * 2 + leaves.length * c.doorWidth + (leaves.length - 1) * leafSpacing,
+    height: c.doorHeight + templateBorder * 2,
+    body
+  }
+}
+
+/** The template as one full-size SVG, for a plotter or a print shop. */
+export function markingTemplateSvg(title: string, c: DoorConfig, units: UnitSettings): string {
+  const t = markingTemplate(c, units)
+  const height = t.height + 20
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${t.width}mm" height="${height}mm" viewBox="0 0 ${t.width} ${height}">`,
+    ...t.body,
+    svgText(templateBorder, t.height + 4, `${title} — marking template, full size`),
+    scaleRuler(templateBorder, t.height + 14),
+    `</svg>`
+  ].join('\n')
+}
+
+/**
+ * The template tiled across pages at full size. Neighbouring pages overlap by `tileOverlap`,
+ * with targets in the overlap to line them up. Under each tile is its row and column and a ruler,
+ * kept off the drawing so nothing is hidden.
+ */
+export function markingTemplateHtml(title: string, c: DoorConfig, units: UnitSettings, paper: PaperSize): string {
+  const t = markingTemplate(c, units)
+  const tileW = paperSizes[paper].width - printMargin * 2 - 4
+  const tileH = paperSizes[paper].height - printMargin * 2 - 4 - tileFooter
+  const [stepX, stepY] = [tileW - tileOverlap, tileH - tileOverlap]
+  const columns = Math.max(1, Math.ceil((t.width - tileOverlap) / stepX))
+  const rows = Math.max(1, Math.ceil((t.height - tileOverlap) / stepY))
+
+  // Two targets per page edge, in the middle of each overlap
+  const target = (x: number, y: number) => `${svgCross(x, y, 5)}<circle cx="${x}" cy="${y}" r="3" fill="none" stroke="#000" stroke-width="0.2"/>`
+  const targets = [
+    ...Array.from({ length: columns - 1 }, (_, i) => (i + 1) * stepX + tileOverlap / 2).flatMap((x) =>
+      Array.from({ length: rows }, (_, r) => [1, 2].map((k) => target(x, r * stepY + (k * stepY) / 3))).flat()
+    ),
+    ...Array.from({ length: rows - 1 }, (_, i) => (i + 1) * stepY + tileOverlap / 2).flatMap((y) =>
+      Array.from({ length: columns }, (_, col) => [1, 2].map((k) => target(col * stepX + (k * stepX) / 3, y))).flat()
+    )
+  ]
+
+  const pages = Array.from({ length: rows * columns }, (_, i) => {
+    const [r, col] = [Math.floor(i / columns), i % columns]
+    const [x, y] = [col * stepX, r * stepY]
+    const name = `${String.fromCharCode(65 + r)}${col + 1}`
+    return [
+      `<div class="tile"><svg xmlns="http://www.w3.org/2000/svg" width="${tileW}mm" height="${tileH}mm" viewBox="${x} ${y} ${tileW} ${tileH}">`,
+      ...t.body,
+      ...targets,
+      `<rect x="${x}" y="${y}" width="${tileW}" height="${tileH}" fill="none" stroke="#999" stroke-width="0.2"/>`,
+      `</svg>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${tileW}mm" height="${tileFooter}mm" viewBox="0 0 ${tileW} ${tileFooter}">`,
+      svgText(0, 5, `${name} — row ${r + 1} of ${rows}, column ${col + 1} of ${columns} · ${title} · overlap the targets`, 'start', 3.5),
+      scaleRuler(0, 12),
+      `</svg></div>`
+    ].join('\n')
+  })
+
+  return [
+    `<!DOCTYPE html>`,
+    `<html><head><meta charset="utf-8"><title>${escapeXml(title)}</title>`,
+    `<style>@page { size: ${paper}; } body { margin: 0; } .tile { break-after: page; } .tile:last-child { break-after: auto; } svg { display: block; }</style>`,
+    `</head><body>`,
+    ...pages,
+    `</body></html>`
+  ].join('\n')
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { type SheetPiece, nestSheets } from './sheetNesting'
+
+const piece = (label: string, length: number, width: number): SheetPiece => ({ label, length, width })
+
+describe('nestSheets', () => {
+  it('turns a piece that only fits across the grain when rotation is allowed', () => {
+    const plan = nestSheets([piece('A', 1000, 2000)], 2440, 1220, 3, true)
+    expect(plan.unplaced).toEqual([])
+    expect(plan.sheets[0].placements[0]).toMatchObject({ x: 0, y: 0, length: 2000, width: 1000, rotated: true })
+  })
+
+  it('leaves it out when the grain is locked', () => {
+    const plan = nestSheets([piece('A', 1000, 2000)], 2440, 1220, 3, false)
+    expect(plan.sheets).toEqual([])
+    expect(plan.unplaced.map((p) => p.label)).toEqual(['A'])
+  })
+
+  it('keeps a piece along the grain when it fits either way', () => {
+    const plan = nestSheets([piece('A', 600, 400)], 2440, 1220, 3, true)
+    expect(plan.sheets[0].placements[0]).toMatchObject({ length: 600, width: 400, rotated: false })
+  })
+
+  it('leaves out a piece larger than the sheet', () => {
+    const plan = nestSheets([piece('Big', 3000, 1300), piece('B', 500, 500)], 2440, 1220, 3, true)
+    expect(plan.unplaced.map((p) => p.label)).toEqual(['Big'])
+    expect(plan.sheets).toHaveLength(1)
+    expect(plan.sheets[0].placements.map((p) => p.piece.label)).toEqual(['B'])
+  })
+
+  it('fits a piece the full size of the sheet, needing no kerf at the edges', () => {
+    const plan = nestSheets([piece('A', 2440, 1220)], 2440, 1220, 3, false)
+    expect(plan.unplaced).toEqual([])
+    expect(plan.utilisation).toBe(1)
+  })
+
+  it('leaves a kerf between neighbouring pieces', () => {
+    const plan = nestSheets([piece('A', 498, 500), piece('B', 498, 500)], 1000, 500, 4, false)
+    expect(plan.sheets).toHaveLength(1)
+    expect(plan.sheets[0].placements.map((p) => p.x)).toEqual([0, 502])
+  })
+
+  it('starts another sheet when the kerf leaves too little room', () => {
+    const plan = nestSheets([piece('A', 499, 500), piece('B', 499, 500)], 1000, 500, 4, false)
+    expect(plan.sheets).toHaveLength(2)
+  })
+
+  it('reports the placed area against the sheets used', () => {
+    const plan = nestSheets([piece('A', 498, 500), piece('B', 498, 500), piece('C', 200, 100)], 1000, 500, 4, false)
+    expect(plan.sheets).toHaveLength(2)
+    expect(plan.pieceArea).toBe(2 * 498 * 500 + 200 * 100)
+    expect(plan.utilisation).toBeCloseTo(plan.pieceArea / (2 * 1000 * 500))
+  })
+})
@@ -0,0 +1,128 @@
+export interface SheetPiece {
+  label: string
+  group?: string     // e.g. the door a piece belongs to
+  length: number     // along the sheet's long edge (with the grain)
+  width: number      // across the sheet
+}
+
+export interface Placement {
+  piece: SheetPiece
+  x: number          // position along the sheet length
+  y: number          // position across the sheet width
+  length: number     // placed size along the sheet length
+  width: number      // placed size across the sheet width
+  rotated: boolean   // true when the piece was turned 90° to fit
+}
+
+export interface Sheet {
+  placements: Placement[]
+  usedArea: number
+}
+
+export interface NestingPlan {
+  sheets: Sheet[]
+  unplaced: SheetPiece[]   // pieces that don't fit on an empty sheet
+  sheetLength: number
+  sheetWidth: number
+  pieceArea: number
+  utilisation: number      // placed piece area ÷ total sheet area, 0–1
+}
+
+interface FreeRect {
+  x: number
+  y: number
+  length: number
+  width: number
+}
+
+interface SheetState {
+  sheet: Sheet
+  free: FreeRect[]
+}
+
+/**
+ * Nest rectangular pieces onto sheets using guillotine cuts (every cut runs edge to edge,
+ * as on a panel saw or track saw). Pieces are placed largest first into the free space
+ * that leaves the shortest leftover side. The kerf is added to the far edges of each
+ * piece; a piece may end flush with the sheet edge without one.
+ */
+export function nestSheets(
+  pieces: SheetPiece[],
+  sheetLength: number,
+  sheetWidth: number,
+  kerf: number,
+  allowRotation: boolean
+): NestingPlan {
+  const sorted = [...pieces].sort((a, b) => b.length * b.width - a.length * a.width || b.length - a.length)
+  const states: SheetState[] = []
+  const unplaced: SheetPiece[] = []
+
+  const orientations = (p: SheetPiece): [number, number, boolean][] =>
+    allowRotation && p.length !== p.width
+      ? [[p.length, p.width, false], [p.width, p.length, true]]
+      : [[p.length, p.width, false]]
+
+  const fits = (r: FreeRect, l: number, w: number) => l + kerf <= r.length + 1e-9 && w + kerf <= r.width + 1e-9
+
+  for (const piece of sorted) {
+    let best: { state: SheetState; rect: FreeRect; l: number; w: number; rotated: boolean } | null = null
+    let bestScore = Infinity
+
+    for (const state of states) {
+      for (const rect of state.free) {
+        for (const [l, w, rotated] of orientations(piece)) {
+          if (!fits(rect, l, w)) continue
+          const score = Math.min(rect.length - l, rect.width - w)
+          if (score < bestScore) {
+            bestScore = score
+            best = { state, rect, l, w, rotated }
+          }
+        }
+      }
+    }
+
+    if (!best) {
+      // Sheet edges don't need a kerf, so the usable area is one kerf larger
+      const fresh: FreeRect = { x: 0, y: 0, length: sheetLength + kerf, width: sheetWidth + kerf }
+      const orientation = orientations(piece).find(([l, w]) => fits(fresh, l, w))
+      if (!orientation) {
+        unplaced.push(piece)
+        continue
+      }
+      const state: SheetState = { sheet: { placements: [], usedArea: 0 }, free: [fresh] }
+      states.push(state)
+      best = { state, rect: fresh, l: orientation[0], w: orientation[1], rotated: orientation[2] }
+    }
+
+    const { state, rect, l, w, rotated } = best
+    state.sheet.placements.push({ piece, x: rect.x, y: rect.y, length: l, width: w, rotated })
+    state.sheet.usedArea += l * w
+
+    // Split the leftover space along the shorter leftover side, keeping the larger offcut whole
+    const usedL = l + kerf
+    const usedW = w + kerf
+    const leftL = rect.length - usedL
+    const leftW = rect.width - usedW
+    state.free.splice(state.free.indexOf(rect), 1)
+    if (leftL < leftW) {
+      state.free.push({ x: rect.x + usedL, y: rect.y, length: leftL, width: usedW })
+      state.free.push({ x: rect.x, y: rect.y + usedW, length: rect.length, width: leftW })
+    } else {
+      state.free.push({ x: rect.x + usedL, y: rect.y, length: leftL, width: rect.width })
+      state.free.push({ x: rect.x, y: rect.y + usedW, length: usedL, width: leftW })
+    }
+    state.free = state.free.filter((r) => r.length > kerf && r.width > kerf)
+  }
+
+  const sheets = states.map((s) => s.sheet)
+  const pieceArea = sheets.reduce((sum, s) => sum + s.usedArea, 0)
+  const totalArea = sheets.length * sheetLength * sheetWidth
+  return {
+    sheets,
+    unplaced,
+    sheetLength,
+    sheetWidth,
+    pieceArea,
+    utilisation: totalArea > 0 ? pieceArea / totalArea : 0
+  }
+}
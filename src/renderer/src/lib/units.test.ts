@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { type UnitSettings, MM_PER_INCH, formatLength, parseLength } from './units'
+
+const metric: UnitSettings = { system: 'metric', precision: 16 }
+const imperial: UnitSettings = { system: 'imperial', precision: 16 }
+
+describe('parseLength', () => {
+  it('reads a bare number in the chosen unit', () => {
+    expect(parseLength('762', metric)).toBe(762)
+    expect(parseLength('12.5', metric)).toBe(12.5)
+    expect(parseLength('30', imperial)).toBeCloseTo(30 * MM_PER_INCH)
+  })
+
+  it('reads fractions and mixed fractions of an inch', () => {
+    expect(parseLength('3/4', imperial)).toBeCloseTo(19.05)
+    expect(parseLength('12 3/16', imperial)).toBeCloseTo(12.1875 * MM_PER_INCH)
+    expect(parseLength('12-3/16', imperial)).toBeCloseTo(12.1875 * MM_PER_INCH)
+  })
+
+  it('lets an explicit unit override the chosen one', () => {
+    expect(parseLength('3/4"', metric)).toBeCloseTo(19.05)
+    expect(parseLength('2in', metric)).toBeCloseTo(50.8)
+    expect(parseLength('30mm', imperial)).toBe(30)
+    expect(parseLength(' 30 MM ', imperial)).toBe(30)
+  })
+
+  it('reads feet and inches', () => {
+    expect(parseLength(`1' 2-3/8"`, metric)).toBeCloseTo(14.375 * MM_PER_INCH)
+    expect(parseLength(`6'8"`, imperial)).toBeCloseTo(80 * MM_PER_INCH)
+    expect(parseLength(`1'-2 3/8`, imperial)).toBeCloseTo(14.375 * MM_PER_INCH)
+    expect(parseLength(`2'`, metric)).toBeCloseTo(24 * MM_PER_INCH)
+    expect(parseLength('3 ft 1 in', metric)).toBeCloseTo(37 * MM_PER_INCH)
+  })
+
+  it('keeps the sign of negative input', () => {
+    expect(parseLength('-5', metric)).toBe(-5)
+    expect(parseLength('-3/4', imperial)).toBeCloseTo(-19.05)
+    expect(parseLength(`-1' 2"`, imperial)).toBeCloseTo(-14 * MM_PER_INCH)
+  })
+
+  it('returns null for input it cannot read', () => {
+    expect(parseLength('', metric)).toBeNull()
+    expect(parseLength('abc', metric)).toBeNull()
+    expect(parseLength('1/0', imperial)).toBeNull()
+    expect(parseLength('12 3/0', imperial)).toBeNull()
+    expect(parseLength('1.2.3', metric)).toBeNull()
+    expect(parseLength(`1' 30mm`, metric)).toBeNull()
+    expect(parseLength(`1' abc`, imperial)).toBeNull()
+  })
+})
+
+describe('formatLength', () => {
+  it('rounds millimetres to the given decimals', () => {
+    expect(formatLength(215.04, metric)).toBe('215')
+    expect(formatLength(215.06, metric)).toBe('215.1')
+    expect(formatLength(215.06, metric, 0)).toBe('215')
+  })
+
+  it('reduces inch fractions to lowest terms', () => {
+    expect(formatLength(263.5, imperial)).toBe('10 3/8')
+    expect(formatLength(19.05, imperial)).toBe('3/4')
+    expect(formatLength(762, imperial)).toBe('30')
+  })
+
+  it('rounds to the nearest step of the chosen precision', () => {
+    expect(formatLength(10, { system: 'imperial', precision: 8 })).toBe('3/8')
+    expect(formatLength(10, { system: 'imperial', precision: 16 })).toBe('3/8')
+    expect(formatLength(10, { system: 'imperial', precision: 32 })).toBe('13/32')
+    expect(formatLength(25.3, imperial)).toBe('1')
+  })
+
+  it('signs negative lengths', () => {
+    expect(formatLength(-19.05, imperial)).toBe('-3/4')
+    expect(formatLength(-263.5, imperial)).toBe('-10 3/8')
+    expect(formatLength(-5, metric)).toBe('-5')
+  })
+
+  it('reads back what it writes', () => {
+    for (const mm of [3.175, 19.05, 263.525, 2032]) {
+      expect(parseLength(formatLength(mm, imperial), imperial)).toBeCloseTo(mm)
+    }
+  })
+})
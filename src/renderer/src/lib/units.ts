@@ -0,0 +1,104 @@
+export type UnitSystem = 'metric' | 'imperial'
+
+/** Denominator used when rounding inches to a fraction, e.g. 16 → nearest 1/16". */
+export type InchPrecision = 8 | 16 | 32
+
+export interface UnitSettings {
+  system: UnitSystem
+  precision: InchPrecision
+}
+
+export const MM_PER_INCH = 25.4
+
+export const defaultUnits: UnitSettings = { system: 'metric', precision: 16 }
+
+/** Short unit label shown after values, e.g. in input suffixes. */
+export function unitSuffix(units: UnitSettings): string {
+  return units.system === 'imperial' ? 'in' : 'mm'
+}
+
+/** The smallest step a user can enter in the current unit, in millimetres. */
+export function unitStep(units: UnitSettings): number {
+  return units.system === 'imperial' ? MM_PER_INCH / units.precision : 1
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b)
+}
+
+/**
+ * Format a millimetre value in the chosen unit, without the unit label.
+ * Metric rounds to `decimals` places; imperial rounds to the nearest fraction of an inch,
+ * e.g. 263.5 → "10 3/8".
+ */
+export function formatLength(mm: number, units: UnitSettings, decimals = 1): string {
+  if (units.system === 'metric') {
+    const f = 10 ** decimals
+    return `${Math.round(mm * f) / f}`
+  }
+  const sign = mm < 0 ? '-' : ''
+  const steps = Math.round((Math.abs(mm) / MM_PER_INCH) * units.precision)
+  const whole = Math.floor(steps / units.precision)
+  const rest = steps % units.precision
+  if (rest === 0) return `${sign}${whole}`
+  const d = gcd(rest, units.precision)
+  const fraction = `${rest / d}/${units.precision / d}`
+  return whole === 0 ? `${sign}${fraction}` : `${sign}${whole} ${fraction}`
+}
+
+/** Format with the unit label attached, e.g. "215 mm" or "8 7/16 in". */
+export function formatLengthWithUnit(mm: number, units: UnitSettings, decimals = 1): string {
+  return `${formatLength(mm, units, decimals)} ${unitSuffix(units)}`
+}
+
+/**
+ * Parse user input into millimetres.
+ * Accepts plain numbers in the current unit ("12.5"), mixed fractions ("12 3/16", "12-3/16"),
+ * bare fractions ("3/16"), an explicit unit ("30mm", "2in", `2"`) and feet and inches
+ * (`6' 8"`, `1'-2 3/8"`). Returns null if unreadable.
+ */
+export function parseLength(text: string, units: UnitSettings): number | null {
+  let s = text.trim().toLowerCase()
+  // Feet first; whatever follows the foot mark is inches, whichever unit is chosen
+  const feet = /^(-)?(\d+(?:\.\d+)?)\s*(?:'|′|ft)[\s-]*(.*)$/.exec(s)
+  if (feet) {
+    const [, neg, ft, rest] = feet
+    const inches = rest === '' ? 0 : rest.endsWith('mm') ? null : parseLength(rest, { ...units, system: 'imperial' })
+    if (inches === null || inches < 0) return null
+    const mm = Number(ft) * 12 * MM_PER_INCH + inches
+    return neg ? -mm : mm
+  }
+  let system = units.system
+  if (s.endsWith('mm')) {
+    system = 'metric'
+    s = s.slice(0, -2)
+  } else if (/(in|"|″)$/.test(s)) {
+    system = 'imperial'
+    s = s.replace(/(in|"|″)$/, '')
+  }
+  s = s.trim()
+  const match = /^(-)?(?:(\d+(?:\.\d+)?)(?:[\s-]+(\d+)\/(\d+))?|(\d+)\/(\d+))$/.exec(s)
+  if (!match) return null
+  const [, neg, whole, num, den, bareNum, bareDen] = match
+  let value: number
+  if (bareNum !== undefined) {
+    if (Number(bareDen) === 0) return null
+    value = Number(bareNum) / Number(bareDen)
+  } else {
+    if (den !== undefined && Number(den) === 0) return null
+    value = Number(whole) + (num !== undefined ? Number(num) / Number(den) : 0)
+  }
+  if (neg) value = -value
+  return system === 'imperial' ? value * MM_PER_INCH : value
+}
+
+export type RoundingMode = 'nearest' | 'up' | 'down'
+
+/** Round a millimetre value to a multiple of `step`, e.g. 0.5 mm to suit a saw stop. */
+export function roundTo(mm: number, step: number, mode: RoundingMode = 'nearest'): number {
+  if (step <= 0) return mm
+  const n = mm / step
+  // Allow for float noise so 261.5 / 0.5 doesn't ceil to the next step
+  const steps = mode === 'up' ? Math.ceil(n - 1e-9) : mode === 'down' ? Math.floor(n + 1e-9) : Math.round(n)
+  return Math.round(steps * step * 1e6) / 1e6
+}
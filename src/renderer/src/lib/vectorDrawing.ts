@@ -0,0 +1,121 @@
+import { escapeXml } from '@/lib/utils'
+
+/**
+ * A drawing in millimetres, y measured downward, that can be written out as SVG or DXF.
+ * `bulge` on a point makes the segment to the next point an arc: it is tan(¼ of the arc's
+ * angle), positive turning anticlockwise as seen on the page, as in DXF.
+ */
+export interface VectorPoint {
+  x: number
+  y: number
+  bulge?: number
+}
+
+export type VectorEntity =
+  | { kind: 'polyline'; layer: string; points: VectorPoint[]; closed: boolean; dashed?: boolean }
+  | { kind: 'circle'; layer: string; x: number; y: number; r: number }
+  | { kind: 'text'; layer: string; x: number; y: number; height: number; text: string }
+
+export interface VectorLayer {
+  name: string             // DXF layer names: letters, digits, - and _ only
+  color: number            // AutoCAD colour index
+  stroke: string           // SVG colour
+}
+
+export interface VectorDrawing {
+  width: number
+  height: number
+  layers: VectorLayer[]
+  entities: VectorEntity[]
+}
+
+const num = (v: number) => `${Math.round(v * 1000) / 1000}`
+
+/** SVG path data for a polyline, turning bulges back into arcs. */
+export function polylinePath(points: VectorPoint[], closed: boolean): string {
+  const segment = (from: VectorPoint, to: VectorPoint) => {
+    if (!from.bulge) return `L ${num(to.x)} ${num(to.y)}`
+    const angle = 4 * Math.atan(Math.abs(from.bulge))
+    const radius = Math.hypot(to.x - from.x, to.y - from.y) / (2 * Math.sin(angle / 2))
+    // With y downward, a turn that looks anticlockwise is SVG's negative sweep
+    return `A ${num(radius)} ${num(radius)} 0 ${angle > Math.PI ? 1 : 0} ${from.bulge > 0 ? 0 : 1} ${num(to.x)} ${num(to.y)}`
+  }
+  const last = points[points.length - 1]
+  return [
+    `M ${num(points[0].x)} ${num(points[0].y)}`,
+    ...points.slice(1).map((p, i) => segment(points[i], p)),
+    ...(closed && last.bulge ? [segment(last, points[0])] : []),
+    ...(closed ? ['Z'] : [])
+  ].join(' ')
+}
+
+/** Standalone SVG at real size, one group per layer. */
+export function drawingToSvg(d: VectorDrawing): string {
+  const layer = (l: VectorLayer) => {
+    const body = d.entities
+      .filter((e) => e.layer === l.name)
+      .map((e) => {
+        switch (e.kind) {
+          case 'polyline':
+            return `<path d="${polylinePath(e.points, e.closed)}"${e.dashed ? ' stroke-dasharray="3 2"' : ''}/>`
+          case 'circle':
+            return `<circle cx="${num(e.x)}" cy="${num(e.y)}" r="${num(e.r)}"/>`
+          case 'text':
+            return `<text x="${num(e.x)}" y="${num(e.y)}" font-size="${num(e.height)}" fill="${l.stroke}" stroke="none">${escapeXml(e.text)}</text>`
+        }
+      })
+    return body.length > 0
+      ? [`<g id="${l.name}" fill="none" stroke="${l.stroke}" stroke-width="0.3" font-family="monospace">`, ...body, `</g>`]
+      : []
+  }
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(d.width)}mm" height="${num(d.height)}mm" viewBox="0 0 ${num(d.width)} ${num(d.height)}">`,
+    ...d.layers.flatMap(layer),
+    `</svg>`
+  ].join('\n')
+}
+
+/**
+ * DXF (R12, which CAM software reads most widely) in millimetres, with y turned upward so the
+ * drawing sits the right way up. Polylines keep their arcs as bulges rather than short lines.
+ */
+export function drawingToDxf(d: VectorDrawing): string {
+  const out: (string | number)[] = []
+  const group = (...pairs: (string | number)[]) => out.push(...pairs)
+  const at = (code: number, x: number, y: number) => group(code, num(x), code + 10, num(d.height - y), code + 20, 0)
+
+  group(0, 'SECTION', 2, 'HEADER', 9, '$ACADVER', 1, 'AC1009', 9, '$INSUNITS', 70, 4, 0, 'ENDSEC')
+  group(0, 'SECTION', 2, 'TABLES', 0, 'TABLE', 2, 'LTYPE', 70, 2)
+  group(0, 'LTYPE', 2, 'CONTINUOUS', 70, 0, 3, 'Solid line', 72, 65, 73, 0, 40, 0)
+  group(0, 'LTYPE', 2, 'DASHED', 70, 0, 3, 'Dashed __ __', 72, 65, 73, 2, 40, 5, 49, 3, 49, -2)
+  group(0, 'ENDTAB', 0, 'TABLE', 2, 'LAYER', 70, d.layers.length)
+  d.layers.forEach((l) => group(0, 'LAYER', 2, l.name, 70, 0, 62, l.color, 6, 'CONTINUOUS'))
+  group(0, 'ENDTAB', 0, 'ENDSEC', 0, 'SECTION', 2, 'ENTITIES')
+
+  d.entities.forEach((e) => {
+    switch (e.kind) {
+      case 'polyline':
+        group(0, 'POLYLINE', 8, e.layer, ...(e.dashed ? [6, 'DASHED'] : []), 66, 1, 70, e.closed ? 1 : 0)
+        at(10, 0, d.height)
+        e.points.forEach((p) => {
+          group(0, 'VERTEX', 8, e.layer)
+          at(10, p.x, p.y)
+          if (p.bulge) group(42, p.bulge.toFixed(6))
+        })
+        group(0, 'SEQEND', 8, e.layer)
+        break
+      case 'circle':
+        group(0, 'CIRCLE', 8, e.layer)
+        at(10, e.x, e.y)
+        group(40, num(e.r))
+        break
+      case 'text':
+        group(0, 'TEXT', 8, e.layer)
+        at(10, e.x, e.y)
+        group(40, num(e.height), 1, e.text)
+        break
+    }
+  })
+  group(0, 'ENDSEC', 0, 'EOF')
+  return out.join('\n') + '\n'
+}
@@ -0,0 +1,330 @@
+import { type UnitSettings, formatLength, unitSuffix } from '@/lib/units'
+import { hardwareFootprint } from '@/lib/doorHardware'
+import { escapeXml, formatTimestamp } from '@/lib/utils'
+import {
+  type CutResult,
+  type DoorConfig,
+  type SavedDoor,
+  archMitres,
+  backFaceConfig,
+  beadingCutName,
+  calculateCuts,
+  calculateDoorCuts,
+  formatBand,
+  formatRoundingPolicy,
+  glazingArchName,
+  hingeSideOf,
+  jointDescription,
+  pairLayoutLabels,
+  pairLeaves,
+  pieceJointName,
+  rowShapeLabels,
+  sawSettings,
+  unitOutlinePath
+} from '@/lib/doorCuts'
+import { type DoorCost, type PriceSettings, type ProjectCost, formatMoney } from '@/lib/doorCost'
+
+export type PaperSize = 'A4' | 'Letter'
+
+export const paperSizeLabels: Record<PaperSize, string> = {
+  A4: 'A4',
+  Letter: 'US Letter'
+}
+
+/**
+ * Print drawing of one face of a door in millimetres, leaves side by side. The plain drawing
+ * shows the infill, handle and hinges; the dimensioned one draws the units in outline with
+ * chains of margins, unit sizes and gaps round each leaf. Both are drawn square.
+ */
+function doorDrawingSvg(c: DoorConfig, units: UnitSettings, dimensioned: boolean): string {
+  const fontSize = 28
+  const pad = dimensioned ? fontSize * 5.5 : fontSize
+  const leaves = pairLeaves(c)
+  const width = c.doorWidth * leaves.length + pad * 2
+  const height = c.doorHeight + pad * 2
+  const top = pad
+  const L = (mm: number) => formatLength(mm, units)
+  const line = (x1: number, y1: number, x2: number, y2: number, width = 1.5) =>
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000" stroke-width="${width}"/>`
+  const text = (x: number, y: number, s: string, vertical: boolean) =>
+    `<text x="${x}" y="${y}" font-family="monospace" font-size="${fontSize}" text-anchor="middle"${vertical ? ` transform="rotate(-90 ${x} ${y})"` : ''}>${escapeXml(s)}</text>`
+
+  // A chain of dimensions between `stops` along an edge, `offset` out from it; narrow labels alternate outward
+  const chain = (stops: number[], edge: number, offset: number, vertical: boolean, start: number) => {
+    const at = edge + offset
+    const out = Math.sign(offset)
+    const pt = (along: number, across: number): [number, number] => (vertical ? [across, start + along] : [start + along, across])
+    const parts = stops.map((s) => line(...pt(s, edge), ...pt(s, at + out * 8), 0.75))
+    stops.slice(1).forEach((to, i) => {
+      const from = stops[i]
+      if (to - from < 0.05) return
+      const label = L(to - from)
+      const stagger = to - from < label.length * fontSize * 0.6 + 8 && i % 2 === 1 ? fontSize * 1.1 : 0
+      const labelAt = at + out * (6 + stagger)
+      parts.push(
+        line(...pt(from, at), ...pt(to, at)),
+        ...[from, to].map((s) => line(...pt(s - 6, at + 6), ...pt(s + 6, at - 6))),
+        vertical
+          ? text(labelAt + (out < 0 ? 0 : fontSize * 0.8), start + (from + to) / 2, label, true)
+          : text(start + (from + to) / 2, labelAt + (out < 0 ? 0 : fontSize * 0.8), label, false)
+      )
+    })
+    return parts.join('\n')
+  }
+
+  const parts = leaves.flatMap((leaf, li) => {
+    const lc = leaf.config
+    const cuts = calculateCuts(lc, units)
+    const left = pad + li * lc.doorWidth
+    const shapes = [
+      `<rect x="${left}" y="${top}" width="${lc.doorWidth}" height="${lc.doorHeight}" fill="${dimensioned ? 'none' : '#ece6da'}" stroke="#000" stroke-width="2"/>`,
+      ...cuts.panelUnits.flatMap((u) => {
+        const [x, y] = [left + u.x, top + u.y]
+        const infillFill = u.infill === 'glass' ? '#d4e6ee' : u.infill === 'open' ? '#fff' : '#f6f3ec'
+        return [
+          `<path d="${unitOutlinePath(lc, u, x, y, 0)}" fill="${dimensioned ? 'none' : '#c9b28a'}" stroke="#000" stroke-width="1"/>`,
+          `<path d="${unitOutlinePath(lc, u, x, y, lc.beadingWidth)}" fill="${dimensioned ? 'none' : infillFill}" stroke="#000" stroke-width="0.75"${u.infill === 'open' ? ' stroke-dasharray="6 4"' : ''}/>`,
+          ...(u.infill === 'mdf' && !dimensioned
+            ? [`<path d="${unitOutlinePath(lc, u, x, y, lc.beadingWidth + cuts.panelBeadingGap)}" fill="none" stroke="#8a7f6a" stroke-width="0.75"/>`]
+            : [])
+        ]
+      })
+    ]
+    if (!dimensioned) {
+      const onLeft = lc.handleSide === 'left'
+      const f = hardwareFootprint(lc.hardware)
+      const hx = onLeft ? left + lc.handleIndent : left + lc.doorWidth - lc.handleIndent
+      const hy = top + lc.handleHeight
+      const hingeX = hingeSideOf(lc) === 'left' ? left : left + lc.doorWidth - lc.hingeLeafWidth
+      shapes.push(
+        `<rect x="${onLeft ? hx - f.outward : hx - f.inward}" y="${hy - f.up}" width="${f.inward + f.outward}" height="${f.up + f.down}" rx="4" fill="#9a9a9a" stroke="#000" stroke-width="1"/>`,
+        `<circle cx="${hx}" cy="${hy}" r="5" fill="#000"/>`,
+        ...cuts.hingeHeights.map((h) =>
+          `<rect x="${hingeX}" y="${top + h - lc.hingeLength / 2}" width="${lc.hingeLeafWidth}" height="${lc.hingeLength}" fill="#b59a55" stroke="#000" stroke-width="1"/>`
+        )
+      )
+      return shapes
+    }
+
+    // Vertical chains go on the hinge side, the outer edge of a pair, leaving the handle side clear
+    const outerLeft = hingeSideOf(lc) === 'left'
+    const across = [0, ...cuts.columnXs.flatMap((x, i) => [x, x + cuts.columnWidths[i]]), lc.doorWidth]
+    const down = [0, ...cuts.rowYs.flatMap((y, i) => [y, y + cuts.rowHeights[i]]), lc.doorHeight]
+    const sideEdge = outerLeft ? left : left + lc.doorWidth
+    const side = outerLeft ? -1 : 1
+    shapes.push(
+      chain(across, top, -fontSize * 1.6, false, left),
+      chain([0, lc.doorWidth], top, -fontSize * 4.2, false, left),
+      chain(down, sideEdge, side * fontSize * 1.6, true, top),
+      chain([0, lc.doorHeight], sideEdge, side * fontSize * 4.2, true, top)
+    )
+    if (!c.pair) shapes.push(chain([0, lc.handleHeight], outerLeft ? left + lc.doorWidth : left, -side * fontSize * 1.6, true, top))
+    return shapes
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">`,
+    ...parts,
+    `</svg>`
+  ].join('\n')
+}
+
+const sheetStyles = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 9.5pt/1.35 system-ui, sans-serif; color: #111; }
+  h1 { font-size: 15pt; margin: 0 0 1mm; }
+  h2 { font-size: 10.5pt; margin: 4mm 0 1.5mm; padding-bottom: 0.5mm; border-bottom: 0.3mm solid #000; }
+  .meta { color: #555; margin-bottom: 3mm; }
+  .sheet + .sheet { break-before: page; }
+  .drawings { display: flex; gap: 5mm; break-inside: avoid; }
+  figure { flex: 1; margin: 0; text-align: center; }
+  figure svg { width: 100%; height: auto; max-height: 110mm; }
+  figcaption { font-size: 8pt; color: #555; }
+  table { width: 100%; border-collapse: collapse; break-inside: auto; }
+  tr { break-inside: avoid; }
+  th, td { padding: 0.8mm 1.5mm; border-bottom: 0.2mm solid #ccc; text-align: left; vertical-align: top; }
+  th { font-size: 8pt; text-transform: uppercase; color: #555; }
+  td.num, th.num { text-align: right; font-family: monospace; white-space: nowrap; }
+  ul { margin: 0; padding-left: 5mm; }
+  .written { white-space: pre-wrap; margin: 1mm 0; }
+  .ruled { height: 7mm; border-bottom: 0.2mm solid #bbb; }
+`
+
+function sheetTable(head: string[], rows: (string | number)[][], numeric: number): string {
+  const cell = (tag: 'th' | 'td', v: string | number, i: number) => `<${tag}${i >= head.length - numeric ? ' class="num"' : ''}>${escapeXml(String(v))}</${tag}>`
+  return [
+    `<table><thead><tr>${head.map((h, i) => cell('th', h, i)).join('')}</tr></thead><tbody>`,
+    ...rows.map((r) => `<tr>${r.map((v, i) => cell('td', v, i)).join('')}</tr>`),
+    `</tbody></table>`
+  ].join('\n')
+}
+
+/** One door's pages: drawings, cut list, fitting guide and notes, with its share of the cost. */
+function doorSheetSection(door: SavedDoor, cuts: CutResult, units: UnitSettings, cost?: { door: DoorCost; prices: PriceSettings }): string {
+  const c = door.config
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
+  const u = unitSuffix(units)
+  const oversized = cuts.beadingCuts.some((b) => b.cutLength !== b.longPoint)
+  const faces = c.back ? [{ title: 'Front face', config: c }, { title: 'Back face, as seen from the back', config: backFaceConfig(c) }] : [{ title: '', config: c }]
+
+  const notes = [
+    ...cuts.diagnostics.filter((d) => d.severity === 'warning').map((d) => `⚠ ${d.face === 'back' ? 'Back face: ' : ''}${d.message}`),
+    `Handle: ${c.hardware.name} on the ${c.pair ? 'meeting stiles' : c.handleSide}, ${L(c.handleHeight)} ${u} from top, ${L(c.handleIndent)} ${u} from edge`,
+    `Hinges: ${cuts.hingeHeights.length} on the ${c.pair ? 'outer edge of each leaf' : hingeSideOf(c)}, centres ${cuts.hingeHeights.map((h) => L(h)).join(' / ')} ${u} from top`,
+    ...(c.pair ? [`Pair: ${pairLayoutLabels[c.pair.layout].toLowerCase()} layout, ${c.pair.activeLeaf} leaf active, ${L(c.pair.overlap)} ${u} meeting-stile overlap`] : []),
+    ...sawSettings(c),
+    `Rounding: ${formatRoundingPolicy(c, units)}; tolerance panels ${formatBand(cuts.rounding.panelBand, units)}, beading ${formatBand(cuts.rounding.beadingBand, units)}`,
+    `Allowances: kerf ${L(c.sawKerf)} ${u}, trim ${L(c.trimAllowance)} ${u} per piece${c.oversizeToFit ? ', cut oversize then trim' : ''}`,
+    ...(cuts.shape ? ['The drawings are square; cut the out-of-square sizes listed above.'] : [])
+  ]
+
+  return [
+    `<section class="sheet">`,
+    `<h1>${escapeXml(door.name)}</h1>`,
+    `<div class="meta">${L(c.doorWidth)} × ${L(c.doorHeight)} ${u}${c.pair ? ' per leaf, pair' : ''} · ${cuts.rows} × ${cuts.columns} · ${escapeXml(jointDescription(c))} · ${formatTimestamp()}</div>`,
+    ...faces.flatMap((f) => [
+      ...(f.title ? [`<h2>${f.title}</h2>`] : []),
+      `<div class="drawings">`,
+      `<figure>${doorDrawingSvg(f.config, units, false)}<figcaption>Preview</figcaption></figure>`,
+      `<figure>${doorDrawingSvg(f.config, units, true)}<figcaption>Dimensions (${u})</figcaption></figure>`,
+      `</div>`
+    ]),
+
+    `<h2>Cut list</h2>`,
+    sheetTable(['MDF panels', 'Qty', `Size (${u})`], cuts.panelCuts.map((p) => [p.label, p.qty, `${L(p.width)} × ${L(p.height)}`]), 2),
+    sheetTable(
+      [`Beading (${jointDescription(c)})`, 'Qty', ...(oversized ? ['Cut to'] : []), 'Long pt', 'Short pt'],
+      cuts.beadingCuts.map((b) => [
+        `${beadingCutName(b)}, ${pieceJointName(b, c)}`,
+        b.qty,
+        ...(oversized ? [L(b.cutLength)] : []),
+        L(b.longPoint),
+        L(b.shortPoint)
+      ]),
+      oversized ? 4 : 3
+    ),
+    ...(cuts.arches.length > 0
+      ? [sheetTable(
+          ['Arched tops (flexible beading)', 'Qty', 'Long pt', 'Short pt', 'Panel template'],
+          cuts.arches.map((a) => [
+            `${a.group || 'Panels'}${a.detail ? ` — ${a.detail}` : ''}, ${rowShapeLabels[a.shape].toLowerCase()}, radius ${L(a.radius)}`,
+            a.qty,
+            L(a.longPoint),
+            L(a.shortPoint),
+            `R ${L(a.template.radius)}, chord ${L(a.template.chord)}, rise ${L(a.template.rise)}`
+          ]),
+          4
+        )]
+      : []),
+    ...(cuts.glazing.length > 0
+      ? [
+          sheetTable(
+            [`Glass (${L(c.glazingClearance)} ${u} clearance)`, 'Qty', 'Glass', 'Cut-out'],
+            cuts.glazing.map((g) => [`${g.group || 'Panels'}${g.detail ? ` — ${g.detail}` : ''}${g.shaped ? ', to template' : ''}`, g.qty, `${L(g.glassWidth)} × ${L(g.glassHeight)}`, `${L(g.cutOutWidth)} × ${L(g.cutOutHeight)}`]),
+            3
+          ),
+          sheetTable(
+            [`Glazing bead (${L(c.glazingBeadWidth)} ${u})`, 'Qty', 'Long pt', 'Short pt'],
+            [
+              ...cuts.glazingBeadCuts.map((b) => [`${beadingCutName(b)}, ${pieceJointName(b, c)}`, b.qty, L(b.longPoint), L(b.shortPoint)]),
+              ...cuts.glazing.flatMap((g) => (g.arch ? [[`${glazingArchName(g)}, flexible, ${archMitres(g.arch)}`, g.arch.qty, L(g.arch.longPoint), L(g.arch.shortPoint)]] : []))
+            ],
+            3
+          )
+        ]
+      : []),
+    ...(cuts.shape
+      ? [sheetTable(
+          ['Out of square', 'Long pt', 'Short pt', 'Change'],
+          [
+            ...cuts.shape.pieces.map((p) => [`${p.unit} ${p.edge}`, L(p.longPoint), L(p.shortPoint), `${p.change >= 0 ? '+' : ''}${L(p.change)}`]),
+            ...cuts.shape.panels.map((p) => [`${p.unit} panel`, `${L(p.topWidth)} / ${L(p.bottomWidth)} wide`, `${L(p.leftHeight)} / ${L(p.rightHeight)} high`, ''])
+          ],
+          3
+        )]
+      : []),
+    sheetTable(
+      ['Totals', ''],
+      [
+        ['MDF panels', `${cuts.panelCount} pieces`],
+        ['Beading pieces', `${cuts.beadingCount} pieces`],
+        ['Total beading length', `${L(cuts.totalBeadingLength, 0)} ${u}`],
+        ['Beading stock to buy', `${L(cuts.beadingStockLength, 0)} ${u}`],
+        ...(cuts.glazingBeadCount > 0 ? [['Glazing bead to buy', `${L(cuts.glazingBeadStockLength, 0)} ${u}`]] : []),
+        ...(cuts.arches.length > 0 ? [['Flexible beading (arches)', `${L(cuts.flexibleBeadingLength, 0)} ${u}`]] : []),
+        ...(cost ? cost.door.lines.map((l) => [`${l.item} cost`, formatMoney(l.cost, cost.prices)]).concat([['Materials cost', formatMoney(cost.door.total, cost.prices)]]) : [])
+      ],
+      1
+    ),
+
+    `<h2>Fitting guide (from the top-left corner${c.back ? ' of each face' : ''}, ${u})</h2>`,
+    sheetTable(
+      ['Unit', 'Top beading Y', 'Top beading X span', 'Centre pin'],
+      cuts.unitPositions.map((p) => [p.label, L(p.beadingY), `${L(p.beadingLeftX)} → ${L(p.beadingRightX)}`, `(${L(p.pinX)}, ${L(p.pinY)})`]),
+      3
+    ),
+
+    `<h2>Notes</h2>`,
+    `<ul>${notes.map((n) => `<li>${escapeXml(n)}</li>`).join('')}</ul>`,
+    ...(door.notes ? [`<p class="written">${escapeXml(door.notes)}</p>`] : []),
+    ...Array.from({ length: 5 }, () => `<div class="ruled"></div>`),
+    `</section>`
+  ].join('\n')
+}
+
+function workshopSheetHtml(title: string, sections: string[], paper: PaperSize): string {
+  return [
+    `<!DOCTYPE html>`,
+    `<html><head><meta charset="utf-8"><title>${escapeXml(title)}</title>`,
+    `<style>@page { size: ${paper}; }${sheetStyles}</style>`,
+    `</head><body>`,
+    ...sections,
+    `</body></html>`
+  ].join('\n')
+}
+
+export function doorSheetHtml(door: SavedDoor, cuts: CutResult, units: UnitSettings, paper: PaperSize, cost?: { door: DoorCost; prices: PriceSettings }): string {
+  return workshopSheetHtml(door.name, [doorSheetSection(door, cuts, units, cost)], paper)
+}
+
+/** Every door from the same figures as the project summary, after a cover page with the quote. */
+export function projectSheetHtml(doors: SavedDoor[], units: UnitSettings, paper: PaperSize, cost?: { project: ProjectCost; prices: PriceSettings }): string {
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
+  const u = unitSuffix(units)
+  const results = doors.map((door) => calculateDoorCuts(door.config, units))
+  const cover = [
+    `<section class="sheet">`,
+    `<h1>Project — ${doors.length} door${doors.length > 1 ? 's' : ''}</h1>`,
+    `<div class="meta">${formatTimestamp()}</div>`,
+    sheetTable(
+      ['Door', `Size (${u})`, 'Layout', 'MDF', 'Beading', `Stock (${u})`],
+      doors.map((door, i) => {
+        const cuts = results[i]
+        const size = `${L(door.config.doorWidth)} × ${L(door.config.doorHeight)}${door.config.pair ? ' pair' : ''}`
+        return cuts.isValid
+          ? [door.name, size, `${cuts.rows} × ${cuts.columns}`, `${cuts.panelCount}`, `${cuts.beadingCount}`, L(cuts.beadingStockLength, 0)]
+          : [door.name, size, 'invalid configuration', '', '', '']
+      }),
+      3
+    ),
+    ...(cost
+      ? [
+          `<h2>Materials quote</h2>`,
+          sheetTable(
+            ['Item', 'Quantity', 'Cost'],
+            [
+              ...cost.project.lines.map((l) => [l.item, l.quantity, formatMoney(l.cost, cost.prices)]),
+              ...cost.project.doors.map((d) => [`${d.name} (share)`, '', formatMoney(d.total, cost.prices)]),
+              ['Project total', '', formatMoney(cost.project.total, cost.prices)]
+            ],
+            1
+          )
+        ]
+      : []),
+    `</section>`
+  ].join('\n')
+  const sections = doors.flatMap((door, i) =>
+    results[i].isValid ? [doorSheetSection(door, results[i], units, cost && { door: cost.project.doors[i], prices: cost.prices })] : []
+  )
+  return workshopSheetHtml('Project', [cover, ...sections], paper)
+}
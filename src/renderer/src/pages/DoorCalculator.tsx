@@ -1,207 +1,365 @@
-import { useMemo, useState, useCallback, useRef } from 'react'
+import { Fragment, useMemo, useState, useCallback, useRef } from 'react'
+import { flushSync } from 'react-dom'
 import { usePersistedState } from '@/lib/usePersistedState'
+import { storage } from '@/lib/storage'
+import { escapeXml, formatTimestamp } from '@/lib/utils'
+import {
+  type ArchCut,
+  type BackFace,
+  type CutResult,
+  type Diagnostic,
+  type DoorConfig,
+  type DoorPair,
+  type FieldLink,
+  type InfillType,
+  type JointType,
+  type LinkableField,
+  type RowShape,
+  type RowTop,
+  type SavedDoor,
+  type SolveInput,
+  type SolvePin,
+  archMitres,
+  backFaceConfig,
+  backLayoutLabels,
+  beadingCutName,
+  calculateCuts,
+  calculateDoorCuts,
+  columnName,
+  combineLeafCuts,
+  createDoor,
+  fitRatios,
+  fitRowTops,
+  formatAngle,
+  formatBand,
+  formatRoundingPolicy,
+  formatShare,
+  formatSlack,
+  frontValue,
+  glazingArchName,
+  groupCode,
+  handleReach,
+  hingeMitreClearance,
+  hingeSideOf,
+  infillLabels,
+  isFaceLayoutKey,
+  jointDescription,
+  jointTypeLabels,
+  normalizeDoor,
+  pairLayoutLabels,
+  pairLeaves,
+  pickFaceLayout,
+  pieceJointName,
+  ratioShares,
+  roundingSteps,
+  rowName,
+  rowShapeLabels,
+  sawSettings,
+  sizeLimits,
+  standardHingeHeights,
+  unitOutlinePath,
+  unitOutlinePoints
+} from '@/lib/doorCuts'
+import { type DoorCost, type PriceSettings, type ProjectCost, calculateProjectCost, defaultPrices, formatDoorCostText, formatMoney, formatQuoteText, stockLengthPrice } from '@/lib/doorCost'
+import { type CutPiece, type CuttingPlan, planCuts } from '@/lib/cuttingStock'
+import { type NestingPlan, type SheetPiece, nestSheets } from '@/lib/sheetNesting'
+import { type ArchCurve, archCurve, archPathSegment, archRise } from '@/lib/archGeometry'
+import { mapPoint } from '@/lib/doorShape'
+import { type ImageBackground, type ImageFormat, imageBackgrounds, imageFormats, maxImageSide, rasterizeSvg, withDpi } from '@/lib/imageExport'
+import { type VectorDrawing, type VectorEntity, type VectorLayer, type VectorPoint, drawingToDxf, drawingToSvg } from '@/lib/vectorDrawing'
+import { type HardwareItem, builtInHardware, gripLengthLabels, hardwareFootprint, hardwareKindLabels, hasRose } from '@/lib/doorHardware'
+import { type PaperSize, doorSheetHtml, paperSizeLabels, projectSheetHtml } from '@/lib/workshopSheet'
+import { markingTemplateHtml, markingTemplateSvg } from '@/lib/markingTemplate'
+import { type DoorImportError, csvFilters, cutListCsv, importDoorsCsv, panelsCsv } from '@/lib/doorCsv'
+import {
+  type InchPrecision,
+  type UnitSettings,
+  defaultUnits,
+  formatLength,
+  parseLength,
+  unitStep,
+  unitSuffix
+} from '@/lib/units'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
-import { Ruler, Scissors, AlertTriangle, ChevronDown, Copy, Check, Plus, Trash2, Pencil, MapPin, Download } from 'lucide-react'
+import { Ruler, Scissors, AlertTriangle, ChevronDown, Copy, Check, Plus, Trash2, Pencil, MapPin, Download, Lock, LockOpen, Link2, Printer, ImageDown, FileSpreadsheet, FileUp, type LucideIcon } from 'lucide-react'
 
 // ── Types ──────────────────────────────────────────────
 
-type DiagnosticGuide = 'dimensions' | 'margins' | 'gaps' | 'beading' | 'ratio' | 'handle' | 'overlay' | null
+type DiagnosticGuide = 'dimensions' | 'margins' | 'gaps' | 'beading' | 'ratio' | 'handle' | 'hinges' | 'shape' | 'overlay' | null
 
 const keyToGuide: Record<string, DiagnosticGuide> = {
-  doorWidth: 'dimensions', doorHeight: 'dimensions',
+  doorWidth: 'dimensions', doorHeight: 'dimensions', edges: 'shape',
   topMargin: 'margins', bottomMargin: 'margins', leftMargin: 'margins', rightMargin: 'margins',
   horizontalGap: 'gaps', verticalGap: 'gaps',
+  rows: 'beading', columns: 'beading',
   beadingWidth: 'beading', mdfPanelWidth: 'beading',
-  topPanelRatio: 'ratio',
-  handleSide: 'handle', handleHeight: 'handle', handleIndent: 'handle', handleSpread: 'handle',
+  jointType: 'beading', cornerAngle: 'beading', runThrough: 'beading', sawPosition: 'beading',
+  rowRatios: 'ratio', columnRatios: 'ratio', rowTops: 'beading',
+  infills: 'beading', glazingClearance: 'beading', glazingRebate: 'beading', glazingBeadWidth: 'beading',
+  handleSide: 'handle', handleHeight: 'handle', handleIndent: 'handle', hardware: 'handle', pair: 'handle',
+  hingeCount: 'hinges', hingeHeights: 'hinges', hingeLength: 'hinges', hingeLeafWidth: 'hinges',
 }
 
-interface DoorConfig {
-  doorWidth: number
-  doorHeight: number
-  topMargin: number
-  bottomMargin: number
-  leftMargin: number
-  rightMargin: number
-  horizontalGap: number
-  verticalGap: number
-  beadingWidth: number
-  mdfPanelWidth: number
-  topPanelRatio: number
-  handleSide: 'left' | 'right'
-  handleHeight: number
-  handleIndent: number
-  handleSpread: number  // total reach from door edge inward
+interface StockSettings {
+  lengths: number[]        // beading lengths on sale, e.g. 2400 and 3000 mm
+  scope: 'door' | 'all'    // plan the active door or every saved door together
 }
 
-interface UnitPosition {
-  label: string            // e.g. "Top-Left"
-  beadingLeftX: number     // left long-point X from left edge
-  beadingRightX: number    // right long-point X from left edge
-  beadingY: number         // top beading Y from top edge (top outer edge)
-  pinX: number             // center pin X from left edge
-  pinY: number             // center pin Y from top edge (vertical center of beading)
+/** Last-used choices for saving the preview as an image. */
+interface ImageOptions {
+  format: ImageFormat
+  sizing: 'dpi' | 'pixels'
+  dpi: number              // at real size: each millimetre of the drawing printed at this resolution
+  pixelWidth: number
+  background: ImageBackground
+  overlay: ImageOverlay
 }
 
-interface CutResult {
-  panelWidth: number
-  topPanelHeight: number
-  bottomPanelHeight: number
-  topHorizontalBeading: number
-  topVerticalBeading: number
-  bottomHorizontalBeading: number
-  bottomVerticalBeading: number
-  topHorizontalBeadingShort: number
-  topVerticalBeadingShort: number
-  bottomHorizontalBeadingShort: number
-  bottomVerticalBeadingShort: number
-  panelBeadingGap: number
-  unitPositions: UnitPosition[]
-  handleWarnings: string[]
-  isValid: boolean
-  errors: string[]
+interface SheetSettings {
+  length: number           // MDF sheet size, long edge
+  width: number
+  grainLock: boolean       // keep panel height along the sheet length (no rotation)
 }
 
-interface SavedDoor {
+/** Doors on one landing whose chosen gap line sits at one height above the floor. */
+interface AlignmentGroup {
   id: string
   name: string
-  config: DoorConfig
+  doorIds: string[]
+  gap: number              // gap line to align: 0 is the gap under the top row
+  datum: number            // centre of that gap above the floor
+  floorGap: number         // door bottom above the floor
+  adjust: 'ratios' | 'margins'   // what each door changes to meet the datum
 }
 
 // ── Defaults (standard UK interior door) ───────────────
 
-const defaultConfig: DoorConfig = {
-  doorWidth: 762,
-  doorHeight: 1981,
-  topMargin: 100,
-  bottomMargin: 100,
-  leftMargin: 80,
-  rightMargin: 80,
-  horizontalGap: 80,
-  verticalGap: 80,
-  beadingWidth: 20,
-  mdfPanelWidth: 215,
-  topPanelRatio: 40,
-  handleSide: 'left' as const,
-  handleHeight: 1000,
-  handleIndent: 55,
-  handleSpread: 140
+const initialDoors: SavedDoor[] = [createDoor('Door 1')]
+
+const defaultStock: StockSettings = { lengths: [2400, 3000], scope: 'door' }
+
+const defaultSheet: SheetSettings = { length: 2440, width: 1220, grainLock: false }
+
+const defaultImageOptions: ImageOptions = { format: 'png', sizing: 'dpi', dpi: 150, pixelWidth: 3000, background: 'dark', overlay: 'shown' }
+
+// ── Arch templates ─────────────────────────────────────
+
+/**
+ * Full-size SVG template for one arched unit, in millimetres: the MDF panel's curve to cut
+ * round, with the beading curves dashed for checking the bend. The 100 mm bar checks the
+ * print scale.
+ */
+function archTemplateSvg(c: DoorConfig, cuts: CutResult, a: ArchCut, title: string, units: UnitSettings): string {
+  const margin = 20
+  const below = 60           // straight side shown under the panel's springing
+  const top = fitRowTops(c.rowTops, a.row + 1)[a.row]
+  const [outer, inner, panel] = [0, c.beadingWidth, c.beadingWidth + cuts.panelBeadingGap]
+    .map((d) => archCurve(a.shape, a.unitWidth / 2, top.rise, d)!)
+  const width = a.unitWidth + margin * 2
+  const springY = margin + outer.crown
+  const height = springY + below + 40
+  const cx = margin + a.unitWidth / 2
+  const L = (mm: number) => `${formatLength(mm, units)} ${unitSuffix(units)}`
+  const curvePath = (curve: ArchCurve, drop: number) =>
+    `M ${cx - curve.span / 2} ${springY + drop} V ${springY - curve.spring} ${archPathSegment(curve, cx, springY)} V ${springY + drop}`
+  const text = (x: number, y: number, s: string) =>
+    `<text x="${x}" y="${y}" font-family="monospace" font-size="4">${escapeXml(s)}</text>`
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+    `<path d="${curvePath(outer, 0)}" fill="none" stroke="#888" stroke-width="0.3" stroke-dasharray="3 2"/>`,
+    `<path d="${curvePath(inner, below / 2)}" fill="none" stroke="#888" stroke-width="0.3" stroke-dasharray="3 2"/>`,
+    `<path d="${curvePath(panel, below)}" fill="none" stroke="#000" stroke-width="0.5"/>`,
+    `<line x1="${cx}" y1="${margin - 5}" x2="${cx}" y2="${springY + below}" stroke="#888" stroke-width="0.2" stroke-dasharray="1 1"/>`,
+    `<line x1="${margin - 5}" y1="${springY}" x2="${width - margin + 5}" y2="${springY}" stroke="#888" stroke-width="0.2" stroke-dasharray="1 1"/>`,
+    text(margin, margin - 8, `${title} — ${rowShapeLabels[a.shape]} top, full size`),
+    text(margin, springY + below + 10, `Panel: radius ${L(a.template.radius)}, chord ${L(a.template.chord)}, rise ${L(a.template.rise)}`),
+    text(margin, springY + below + 16, `Beading (dashed): outer radius ${L(a.radius)}, inner ${L(a.innerRadius)}, rise ${L(a.rise)}`),
+    `<line x1="${margin}" y1="${springY + below + 24}" x2="${margin + 100}" y2="${springY + below + 24}" stroke="#000" stroke-width="0.5"/>`,
+    text(margin + 104, springY + below + 25.5, `100 mm — check before cutting`),
+    `</svg>`,
+  ].join('\n')
 }
 
-function createDoor(name: string): SavedDoor {
-  return { id: crypto.randomUUID(), name, config: { ...defaultConfig } }
+// ── Alignment groups ───────────────────────────────────
+
+const alignAdjustLabels: Record<AlignmentGroup['adjust'], string> = {
+  ratios: 'Row ratios',
+  margins: 'Top & bottom margins',
 }
 
-const initialDoors: SavedDoor[] = [createDoor('Door 1')]
+/** Fields alignment sets on each member; editing one by hand takes the door out of its group. */
+function alignedFields(g: AlignmentGroup): (keyof DoorConfig)[] {
+  return g.adjust === 'ratios' ? ['rowRatios'] : ['topMargin', 'bottomMargin']
+}
 
-// ── Calculation ────────────────────────────────────────
-
-function calculateCuts(c: DoorConfig): CutResult {
-  const errors: string[] = []
-  const handleWarnings: string[] = []
-
-  // Available space inside margins
-  const availableWidth = c.doorWidth - c.leftMargin - c.rightMargin - c.horizontalGap
-  const availableHeight = c.doorHeight - c.topMargin - c.bottomMargin - c.verticalGap
-
-  // Each panel "unit" = beading + gap + panel + gap + beading
-  const panelUnitWidth = availableWidth / 2
-  const panelWidth = c.mdfPanelWidth
-
-  // The gap between the MDF panel edge and the beading inner edge
-  const panelBeadingGap = (panelUnitWidth - 2 * c.beadingWidth - panelWidth) / 2
-
-  const topUnitHeight = availableHeight * (c.topPanelRatio / 100)
-  const bottomUnitHeight = availableHeight * ((100 - c.topPanelRatio) / 100)
-  const topPanelHeight = topUnitHeight - 2 * c.beadingWidth - 2 * panelBeadingGap
-  const bottomPanelHeight = bottomUnitHeight - 2 * c.beadingWidth - 2 * panelBeadingGap
-
-  // Long-point for 45° mitred beading
-  const topHBeading = panelUnitWidth
-  const topVBeading = topUnitHeight
-  const botHBeading = panelUnitWidth
-  const botVBeading = bottomUnitHeight
-
-  if (panelWidth <= 0)
-    errors.push('MDF panel width must be greater than 0.')
-  if (panelBeadingGap < 0)
-    errors.push('MDF panel is too wide for the available space — reduce panel width or increase door width/margins.')
-  if (topPanelHeight <= 0)
-    errors.push('Top panel height is negative — adjust margins, gaps or ratio.')
-  if (bottomPanelHeight <= 0)
-    errors.push('Bottom panel height is negative — adjust margins, gaps or ratio.')
-
-  // Handle vs beading collision check
-  const handleMargin = c.handleSide === 'left' ? c.leftMargin : c.rightMargin
-  if (c.handleSpread > handleMargin) {
-    // Handle hardware extends past the margin — check if it vertically overlaps any beading unit
-    const handleTop = c.handleHeight - 80   // backplate half-height (160/2)
-    const handleBottom = c.handleHeight + 80
-
-    // Top beading unit vertical range
-    const topUnitTop = c.topMargin
-    const topUnitBottom = c.topMargin + topUnitHeight
-    // Bottom beading unit vertical range
-    const bottomUnitTop = c.topMargin + topUnitHeight + c.verticalGap
-    const bottomUnitBottom = bottomUnitTop + bottomUnitHeight
-
-    const overlapsTop = handleBottom > topUnitTop && handleTop < topUnitBottom
-    const overlapsBottom = handleBottom > bottomUnitTop && handleTop < bottomUnitBottom
-
-    const overlap = c.handleSpread - handleMargin
-    if (overlapsTop || overlapsBottom) {
-      handleWarnings.push(
-        `Handle hardware extends ${overlap.toFixed(1)} mm past the ${c.handleSide} margin into the beading zone. Increase the ${c.handleSide} margin to at least ${c.handleSpread} mm or reduce handle spread.`
-      )
-    }
+/** Height of a gap line's centre above the floor, or null when the door has no such gap. */
+function gapHeight(c: DoorConfig, gap: number, floorGap: number): number | null {
+  const rows = Math.max(1, Math.round(c.rows))
+  if (gap > rows - 2) return null
+  const availableHeight = c.doorHeight - c.topMargin - c.bottomMargin - c.verticalGap * (rows - 1)
+  const above = ratioShares(fitRatios(c.rowRatios, rows)).slice(0, gap + 1).reduce((sum, s) => sum + s, 0)
+  const y = c.topMargin + (availableHeight * above) / 100 + gap * c.verticalGap + c.verticalGap / 2
+  return floorGap + c.doorHeight - y
+}
+
+/**
+ * The door's layout moved so the group's gap line sits on the datum: either the rows above
+ * and below the line are rebalanced, each keeping its share of its side, or the whole layout
+ * slides between the top and bottom margins. Null when the door can't reach the datum.
+ */
+function alignToDatum(c: DoorConfig, g: AlignmentGroup): DoorConfig | null {
+  const current = gapHeight(c, g.gap, g.floorGap)
+  if (current === null) return null
+  const drop = current - g.datum
+  if (g.adjust === 'margins') {
+    const topMargin = Math.round((c.topMargin + drop) * 1000) / 1000
+    const bottomMargin = Math.round((c.bottomMargin - drop) * 1000) / 1000
+    return topMargin >= 0 && bottomMargin >= 0 ? { ...c, topMargin, bottomMargin } : null
   }
+  const rows = Math.max(1, Math.round(c.rows))
+  const availableHeight = c.doorHeight - c.topMargin - c.bottomMargin - c.verticalGap * (rows - 1)
+  const shares = ratioShares(fitRatios(c.rowRatios, rows))
+  const above = shares.slice(0, g.gap + 1).reduce((sum, s) => sum + s, 0)
+  if (!(above > 0 && above < 100)) return null
+  const target = above + (drop / availableHeight) * 100
+  if (!(target > 0 && target < 100)) return null
+  const rowRatios = shares.map((s, i) => Math.round((i <= g.gap ? (s * target) / above : (s * (100 - target)) / (100 - above)) * 1000) / 1000)
+  return { ...c, rowRatios }
+}
 
-  // ── Unit positions (absolute from door edges) ──
-  const colXs = [c.leftMargin, c.leftMargin + panelUnitWidth + c.horizontalGap]
-  const rowYs = [c.topMargin, c.topMargin + topUnitHeight + c.verticalGap]
-  const unitHs = [topUnitHeight, bottomUnitHeight]
-  const labels = ['Top-Left', 'Top-Right', 'Bottom-Left', 'Bottom-Right']
-
-  const unitPositions: UnitPosition[] = []
-  for (let ri = 0; ri < 2; ri++) {
-    for (let ci = 0; ci < 2; ci++) {
-      const lx = colXs[ci]  // left edge of unit (= left long-point of top beading)
-      const rx = colXs[ci] + panelUnitWidth  // right edge (= right long-point)
-      const ty = rowYs[ri]  // top edge of unit (= top of top beading)
-      unitPositions.push({
-        label: labels[ri * 2 + ci],
-        beadingLeftX: Math.round(lx * 10) / 10,
-        beadingRightX: Math.round(rx * 10) / 10,
-        beadingY: Math.round(ty * 10) / 10,
-        pinX: Math.round((lx + panelUnitWidth / 2) * 10) / 10,
-        pinY: Math.round((ty + c.beadingWidth / 2) * 10) / 10,
-      })
+function groupOfDoor(groups: AlignmentGroup[], id: string): AlignmentGroup | undefined {
+  return groups.find((g) => g.doorIds.includes(id))
+}
+
+// ── Linked fields ──────────────────────────────────────
+
+const linkableFields: Record<LinkableField, string> = {
+  topMargin: 'Top margin',
+  bottomMargin: 'Bottom margin',
+  leftMargin: 'Left margin',
+  rightMargin: 'Right margin',
+  horizontalGap: 'Horizontal gap',
+  verticalGap: 'Vertical gap',
+  beadingWidth: 'Beading width',
+  mdfPanelWidth: 'MDF panel width',
+}
+
+/**
+ * Push edits to `changed` through every link, in both directions, so each rule holds
+ * afterwards. A field is only set once, so loops of links can't fight each other.
+ */
+function applyLinks(c: DoorConfig, changed: (keyof DoorConfig)[]): DoorConfig {
+  const next = { ...c }
+  const settled = new Set<keyof DoorConfig>(changed)
+  const queue = [...changed]
+  while (queue.length > 0) {
+    const key = queue.shift()!
+    for (const link of c.links) {
+      if (link.source === key && !settled.has(link.target)) {
+        next[link.target] = next[link.source] + link.offset
+        settled.add(link.target)
+        queue.push(link.target)
+      } else if (link.target === key && !settled.has(link.source)) {
+        next[link.source] = next[link.target] - link.offset
+        settled.add(link.source)
+        queue.push(link.source)
+      }
     }
   }
+  return next
+}
 
-  const r = (v: number) => Math.round(v * 10) / 10
+function formatLink(link: FieldLink, units: UnitSettings): string {
+  const offset = link.offset === 0 ? '' : ` ${link.offset > 0 ? '+' : '−'} ${formatLength(Math.abs(link.offset), units)} ${unitSuffix(units)}`
+  return `${linkableFields[link.target]} = ${linkableFields[link.source]}${offset}`
+}
 
-  return {
-    panelWidth: r(panelWidth),
-    topPanelHeight: r(topPanelHeight),
-    bottomPanelHeight: r(bottomPanelHeight),
-    topHorizontalBeading: r(topHBeading),
-    topVerticalBeading: r(topVBeading),
-    bottomHorizontalBeading: r(botHBeading),
-    bottomVerticalBeading: r(botVBeading),
-    topHorizontalBeadingShort: r(topHBeading - 2 * c.beadingWidth),
-    topVerticalBeadingShort: r(topVBeading - 2 * c.beadingWidth),
-    bottomHorizontalBeadingShort: r(botHBeading - 2 * c.beadingWidth),
-    bottomVerticalBeadingShort: r(botVBeading - 2 * c.beadingWidth),
-    panelBeadingGap: r(panelBeadingGap),
-    unitPositions,
-    handleWarnings,
-    isValid: errors.length === 0,
-    errors
+// ── Inverse solving ────────────────────────────────────
+
+const solveInputs: Record<SolveInput, { label: string; keys: (keyof DoorConfig)[]; range: (c: DoorConfig) => [number, number] }> = {
+  mdfPanelWidth: { label: 'MDF panel width', keys: ['mdfPanelWidth'], range: (c) => [1, c.doorWidth] },
+  sideMargins: { label: 'Left & right margins', keys: ['leftMargin', 'rightMargin'], range: (c) => [0, c.doorWidth / 2] },
+  endMargins: { label: 'Top & bottom margins', keys: ['topMargin', 'bottomMargin'], range: (c) => [0, c.doorHeight / 2] },
+  horizontalGap: { label: 'Horizontal gap', keys: ['horizontalGap'], range: (c) => [0, c.doorWidth / 2] },
+  verticalGap: { label: 'Vertical gap', keys: ['verticalGap'], range: (c) => [0, c.doorHeight / 2] },
+  beadingWidth: { label: 'Beading width', keys: ['beadingWidth'], range: () => [1, 100] },
+}
+
+function solveOutputLabel(pin: SolvePin, cuts: CutResult): string {
+  if (pin.output === 'panelBeadingGap') return 'panel reveal'
+  if (pin.output === 'panelWidth') {
+    const name = columnName(Math.min(pin.index, cuts.columns - 1), cuts.columns)
+    return `${name ? `${name.toLowerCase()} ` : ''}panel width`
+  }
+  const name = rowName(Math.min(pin.index, cuts.rows - 1), cuts.rows)
+  return `${name ? `${name.toLowerCase()} ` : ''}panel height`
+}
+
+function readSolveOutput(pin: SolvePin, cuts: CutResult): number {
+  if (pin.output === 'panelBeadingGap') return cuts.panelBeadingGap
+  const unit = pin.output === 'panelWidth'
+    ? cuts.panelUnits.find((u) => u.column === Math.min(pin.index, cuts.columns - 1))
+    : cuts.panelUnits.find((u) => u.row === Math.min(pin.index, cuts.rows - 1))
+  if (!unit) return NaN
+  return pin.output === 'panelWidth' ? unit.panelWidth : unit.panelHeight
+}
+
+function applySolveInput(c: DoorConfig, input: SolveInput, value: number): DoorConfig {
+  const next = { ...c }
+  for (const key of solveInputs[input].keys) (next[key] as number) = value
+  return applyLinks(next, solveInputs[input].keys)
+}
+
+type SolveResult = { ok: true; config: DoorConfig; value: number } | { ok: false; reason: string }
+
+/**
+ * Find the value of the pinned input that gives the target output, by bisection over
+ * the input's range. Every output moves steadily one way as any single input grows,
+ * so a sign change between the ends of the range brackets the answer.
+ */
+function solvePin(c: DoorConfig, units: UnitSettings = defaultUnits): SolveResult {
+  const pin = c.pin
+  if (!pin) return { ok: true, config: c, value: NaN }
+  const input = solveInputs[pin.input]
+  const L = (mm: number) => `${formatLength(mm, units)} ${unitSuffix(units)}`
+  const outputLabel = solveOutputLabel(pin, calculateCuts(c, units))
+  // Lower-case "Left & right margins" mid-sentence but leave "MDF panel width" alone
+  const inputLabel = input.label.replace(/^[A-Z][a-z]/, (s) => s.toLowerCase())
+  const miss = (v: number) => readSolveOutput(pin, calculateCuts(applySolveInput(c, pin.input, v), units)) - pin.target
+
+  const [lo, hi] = input.range(c)
+  const fLo = miss(lo)
+  const fHi = miss(hi)
+  if (Number.isNaN(fLo) || Number.isNaN(fHi) || Math.abs(fHi - fLo) < 1e-9)
+    return { ok: false, reason: `${input.label} doesn't change the ${outputLabel} — pick another input to adjust.` }
+  if (Math.sign(fLo) === Math.sign(fHi) && fLo !== 0) {
+    const [reachLo, reachHi] = [fLo + pin.target, fHi + pin.target].sort((a, b) => a - b)
+    return {
+      ok: false,
+      reason: `A ${L(pin.target)} ${outputLabel} can't be reached by adjusting the ${inputLabel} between ${L(lo)} and ${L(hi)}; it only spans ${L(reachLo)} to ${L(reachHi)}.`
+    }
+  }
+  // Outputs are rounded to the door's rounding step, so the target holds over a short stretch: find both ends, take the middle
+  const edge = (zeroCountsAsLow: boolean) => {
+    let a = lo
+    let b = hi
+    for (let i = 0; i < 50; i++) {
+      const mid = (a + b) / 2
+      const fMid = miss(mid)
+      if (fMid === 0 ? zeroCountsAsLow : Math.sign(fMid) === Math.sign(fLo)) a = mid
+      else b = mid
+    }
+    return (a + b) / 2
   }
+  const value = Math.round(((edge(false) + edge(true)) / 2) * 100) / 100
+  const config = applySolveInput(c, pin.input, value)
+  const cuts = calculateCuts(config, units)
+  if (!cuts.isValid)
+    return { ok: false, reason: `A ${L(pin.target)} ${outputLabel} needs the ${inputLabel} at ${L(value)}, but then: ${cuts.diagnostics.find((d) => d.severity === 'error')?.message}` }
+  return { ok: true, config, value }
 }
 
 // ── NumberInput ────────────────────────────────────────
@@ -213,7 +371,11 @@ function SliderInput({
   suffix = 'mm',
   min = 0,
   max = 500,
-  step = 1
+  step = 1,
+  units,
+  link,
+  lock,
+  issue
 }: {
   label: string
   value: number
@@ -222,23 +384,59 @@ function SliderInput({
   min?: number
   max?: number
   step?: number
+  units?: UnitSettings     // set for lengths: value stays in mm, display follows the unit system
+  link?: string            // describes the links this field is part of
+  lock?: string            // set when the field is solved for a locked result
+  issue?: Diagnostic['severity']   // highlights a field named by a diagnostic
 }) {
+  const issueBorder = issue === 'error' ? 'border-destructive' : issue === 'warning' ? 'border-yellow-500/60' : ''
+  // Imperial values are typed as text ("30 1/16") and committed on blur/Enter
+  const [draft, setDraft] = useState<string | null>(null)
+  const imperial = units?.system === 'imperial'
+  const sliderStep = units && imperial ? unitStep(units) : step
+
+  const commitDraft = () => {
+    if (draft === null || !units) return
+    const mm = parseLength(draft, units)
+    if (mm !== null) onChange(mm)
+    setDraft(null)
+  }
+
   return (
     <div className="flex flex-col gap-1.5">
       <div className="flex items-center justify-between">
-        <Label className="text-xs text-muted-foreground">{label}</Label>
+        <Label className={`text-xs flex items-center gap-1 ${issue === 'error' ? 'text-destructive-foreground' : issue === 'warning' ? 'text-yellow-400' : 'text-muted-foreground'}`}>
+          {label}
+          {link && <span title={link}><Link2 className="h-3 w-3 text-primary" /></span>}
+          {lock && <span title={lock}><Lock className="h-3 w-3 text-primary" /></span>}
+        </Label>
         <div className="relative w-24">
-          <Input
-            type="number"
-            min={min}
-            max={max}
-            step={step}
-            value={value}
-            onChange={(e) => onChange(Number(e.target.value))}
-            className="pr-8 h-7 text-xs text-right font-mono"
-          />
+          {units && imperial ? (
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={draft ?? formatLength(value, units)}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commitDraft}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitDraft()
+                if (e.key === 'Escape') setDraft(null)
+              }}
+              className={`pr-6 h-7 text-xs text-right font-mono ${issueBorder}`}
+            />
+          ) : (
+            <Input
+              type="number"
+              min={min}
+              max={max}
+              step={step}
+              value={value}
+              onChange={(e) => onChange(Number(e.target.value))}
+              className={`pr-8 h-7 text-xs text-right font-mono ${issueBorder}`}
+            />
+          )}
           <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground pointer-events-none">
-            {suffix}
+            {units ? unitSuffix(units) : suffix}
           </span>
         </div>
       </div>
@@ -246,7 +444,7 @@ function SliderInput({
         type="range"
         min={min}
         max={max}
-        step={step}
+        step={sliderStep}
         value={value}
         onChange={(e) => onChange(Number(e.target.value))}
         className="w-full accent-primary h-1.5 cursor-pointer"
@@ -256,6 +454,51 @@ function SliderInput({
   )
 }
 
+// ── Diagnostics ────────────────────────────────────────
+
+function DiagnosticList({
+  diagnostics,
+  units,
+  onApply,
+  onFocus,
+  compact
+}: {
+  diagnostics: Diagnostic[]
+  units: UnitSettings
+  onApply: (d: Diagnostic) => void
+  onFocus: (d: Diagnostic) => void   // show the overlay for the fields involved
+  compact?: boolean
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      {diagnostics.map((d, i) => (
+        <div
+          key={i}
+          className={`flex items-start gap-2 ${compact ? 'text-xs' : 'text-sm'} ${
+            d.severity === 'error' ? 'text-destructive-foreground' : 'text-yellow-400'
+          }`}
+        >
+          <AlertTriangle className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} shrink-0 mt-0.5`} />
+          <div className="flex-1 min-w-0">
+            <button onClick={() => onFocus(d)} tabIndex={-1} className="text-left hover:underline" title="Show on the preview">
+              {d.message}
+            </button>
+            {d.fix && (
+              <button
+                onClick={() => onApply(d)}
+                tabIndex={-1}
+                className="ml-2 inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-secondary text-secondary-foreground hover:bg-secondary/80 text-[10px] font-medium"
+              >
+                <Check className="h-2.5 w-2.5" /> Set {linkableFields[d.fix.field].toLowerCase().replace(/^mdf/, 'MDF')} to {formatLength(d.fix.value, units)} {unitSuffix(units)}
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 // ── CutRow ─────────────────────────────────────────────
 
 function SummaryBadge({ label, value }: { label?: string; value: string }) {
@@ -453,7 +696,7 @@ function CollapsibleCard({
         ref={contentRef}
         onKeyDown={handleContentKeyDown}
         className={`overflow-hidden transition-all duration-200 ease-in-out ${
-          open ? 'max-h-[500px] opacity-100' : 'max-h-0 opacity-0'
+          open ? 'max-h-[800px] opacity-100' : 'max-h-0 opacity-0'
         }`}
       >
         <CardContent className="flex flex-col gap-2 pt-0">{children}</CardContent>
@@ -466,52 +709,224 @@ function CutRow({
   label,
   longPoint,
   shortPoint,
-  qty
+  cutLength,
+  qty,
+  units
 }: {
   label: string
   longPoint: number
   shortPoint: number
+  cutLength: number
   qty: number
+  units: UnitSettings
 }) {
+  const oversized = cutLength !== longPoint
   return (
     <div className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
       <span className="text-muted-foreground">{label}</span>
       <div className="flex items-center gap-4">
         <span className="text-xs text-muted-foreground">×{qty}</span>
-        <span className="font-mono font-medium w-20 text-right">{longPoint} mm</span>
-        <span className="font-mono text-xs text-muted-foreground w-24 text-right">
-          ({shortPoint} short)
+        <span className="font-mono font-medium w-20 text-right">{formatLength(cutLength, units)} {unitSuffix(units)}</span>
+        <span className="font-mono text-xs text-muted-foreground min-w-24 text-right">
+          {oversized
+            ? `(ideal ${formatLength(longPoint, units)} → ${formatLength(shortPoint, units)})`
+            : `(${formatLength(shortPoint, units)} short)`}
         </span>
       </div>
     </div>
   )
 }
 
+// ── Image export ───────────────────────────────────────
+
+type ImageOverlay = 'shown' | 'none' | Exclude<DiagnosticGuide, null | 'dimensions'>
+
+const imageOverlayLabels: Record<ImageOverlay, string> = {
+  shown: 'As shown',
+  none: 'None',
+  overlay: 'Full overlay',
+  margins: 'Margins',
+  gaps: 'Gaps',
+  beading: 'Beading',
+  ratio: 'Ratios',
+  handle: 'Handle',
+  hinges: 'Hinges',
+  shape: 'Measured shape',
+}
+
+const imageBackgroundLabels: Record<ImageBackground, string> = {
+  dark: 'Dark',
+  light: 'Light',
+  transparent: 'Transparent',
+}
+
+const imageOptionsKey = 'door-calculator-image-options'
+
+/** Pixels per preview unit (a millimetre) for the chosen size, capped at what a canvas can hold. */
+function imageScale(o: ImageOptions, width: number, height: number): number {
+  const wanted = o.sizing === 'dpi' ? o.dpi / 25.4 : o.pixelWidth / width
+  return Math.min(wanted, maxImageSide / Math.max(width, height))
+}
+
 // ── SVG Preview ────────────────────────────────────────
 
-function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorConfig; cuts: CutResult; guide: DiagnosticGuide; onToggleOverlay: () => void }) {
+const glassFill = 'oklch(0.45 0.06 220 / 0.6)'
+
+/** Diagonal highlights that set glass apart from a flat panel. */
+function GlassGlints({ x, y, width, height }: { x: number; y: number; width: number; height: number }) {
+  const glint = { stroke: 'oklch(0.85 0.04 220)', strokeLinecap: 'round' as const, opacity: 0.5 }
+  const size = Math.min(width, height)
+  return (
+    <g pointerEvents="none">
+      <line x1={x + width * 0.15} y1={y + size * 0.35} x2={x + width * 0.15 + size * 0.25} y2={y + size * 0.1} strokeWidth={3} {...glint} />
+      <line x1={x + width * 0.15} y1={y + size * 0.5} x2={x + width * 0.15 + size * 0.4} y2={y + size * 0.1} strokeWidth={1.5} {...glint} />
+    </g>
+  )
+}
+
+/** How much an out-of-square door's distortion is scaled up in the preview. */
+const distortionScale = 10
+
+/** Seams where the beading pieces of one unit meet: mitres on the diagonal, butt and coped joints across the running piece. */
+function BeadingJointLines({ c, x, y, width, height, top }: { c: DoorConfig; x: number; y: number; width: number; height: number; top?: RowTop }) {
+  const w = c.beadingWidth
+  const seam = { fill: 'none', stroke: 'oklch(0.5 0.07 50)', strokeWidth: 1 }
+  const outer = top && top.shape !== 'rectangle' ? archCurve(top.shape, width / 2, top.rise, 0) : null
+  const inner = top && top.shape !== 'rectangle' ? archCurve(top.shape, width / 2, top.rise, w) : null
+  const springY = outer ? y + outer.crown : y
+  // Outer corners, each with the direction pointing into the unit; an arched top has none at the top
+  const corners = [
+    { cx: x, cy: y, dx: 1, dy: 1 },
+    { cx: x + width, cy: y, dx: -1, dy: 1 },
+    { cx: x + width, cy: y + height, dx: -1, dy: -1 },
+    { cx: x, cy: y + height, dx: 1, dy: -1 },
+  ].filter(({ cy }) => !(outer && inner) || cy > y)
+  return (
+    <g>
+      {outer && inner && (
+        <>
+          {/* The sides meet the curve at the springing line, a pointed arch also at the crown */}
+          <line x1={x} y1={springY} x2={x + w} y2={springY - inner.spring} {...seam} />
+          <line x1={x + width} y1={springY} x2={x + width - w} y2={springY - inner.spring} {...seam} />
+          {outer.centres.length === 2 && <line x1={x + width / 2} y1={y} x2={x + width / 2} y2={springY - inner.crown} {...seam} />}
+        </>
+      )}
+      {corners.map(({ cx, cy, dx, dy }, i) => {
+        if (c.jointType === 'mitre') {
+          return <line key={i} x1={cx} y1={cy} x2={cx + dx * w} y2={cy + dy * w} {...seam} />
+        }
+        // The seam runs along the inside edge of the piece left whole
+        const horizontal = c.runThrough === 'horizontal'
+        const sx = horizontal ? cx : cx + dx * w
+        const sy = horizontal ? cy + dy * w : cy
+        const ex = cx + dx * w
+        const ey = cy + dy * w
+        if (c.jointType === 'butt') {
+          return <line key={i} x1={sx} y1={sy} x2={ex} y2={ey} {...seam} />
+        }
+        // A cope follows the moulding profile, lapping over the running piece
+        const mx = (sx + ex) / 2 - (horizontal ? 0 : dx * w * 0.4)
+        const my = (sy + ey) / 2 - (horizontal ? dy * w * 0.4 : 0)
+        return <path key={i} d={`M ${sx} ${sy} Q ${mx} ${my} ${ex} ${ey}`} {...seam} />
+      })}
+    </g>
+  )
+}
+
+/** Draws a hardware item centred on its spindle; `inward` is +1 when the door centre is to the right. */
+function HardwareShape({ item, x, y, inward }: { item: HardwareItem; x: number; y: number; inward: 1 | -1 }) {
+  const plate = { fill: 'oklch(0.45 0 0)', stroke: 'oklch(0.55 0 0)', strokeWidth: 1 }
+  const grip = { fill: 'oklch(0.55 0 0)', stroke: 'oklch(0.65 0 0)', strokeWidth: 1 }
+  const keyholeY = item.kind === 'escutcheon' ? y : y + item.plateHeight * 0.28
+
+  return (
+    <g>
+      {/* Backplate, rose or fixing plates */}
+      {item.kind === 'pull-bar' ? (
+        [-1, 1].map((end) => (
+          <circle key={end} cx={x} cy={y + (end * (item.gripLength - item.plateHeight)) / 2} r={item.plateWidth / 2} {...plate} />
+        ))
+      ) : hasRose(item.kind) ? (
+        <circle cx={x} cy={y} r={item.plateWidth / 2} {...plate} />
+      ) : (
+        <rect
+          x={x - item.plateWidth / 2}
+          y={y - item.plateHeight / 2}
+          width={item.plateWidth}
+          height={item.plateHeight}
+          rx={Math.min(item.plateWidth, item.plateHeight) / 2}
+          {...plate}
+        />
+      )}
+      {item.keyhole && <circle cx={x} cy={keyholeY} r={5} fill="oklch(0.25 0 0)" />}
+
+      {/* Lever, knob, bar or turn */}
+      {(item.kind === 'lever-backplate' || item.kind === 'lever-rose') && (
+        <>
+          <rect
+            x={inward === 1 ? x : x - item.gripLength}
+            y={y - item.gripWidth / 2}
+            width={item.gripLength}
+            height={item.gripWidth}
+            rx={item.gripWidth / 2}
+            {...grip}
+          />
+          <circle cx={x} cy={y} r={item.gripWidth * 0.7} fill="oklch(0.5 0 0)" stroke="oklch(0.6 0 0)" strokeWidth={1} />
+        </>
+      )}
+      {item.kind === 'knob' && (
+        <>
+          <circle cx={x} cy={y} r={item.gripLength / 2} {...grip} />
+          <circle cx={x} cy={y} r={item.gripLength / 4} fill="oklch(0.6 0 0)" />
+        </>
+      )}
+      {(item.kind === 'pull-bar' || item.kind === 'thumb-turn') && (
+        <rect
+          x={x - item.gripWidth / 2}
+          y={y - item.gripLength / 2}
+          width={item.gripWidth}
+          height={item.gripLength}
+          rx={item.gripWidth / 2}
+          {...grip}
+        />
+      )}
+    </g>
+  )
+}
+
+function DoorPreview({ name, config, cuts, guide: shownGuide, units, onToggleOverlay, meetingOverlap }: {
+  name: string             // file name for a saved image, without the extension
+  config: DoorConfig
+  cuts: CutResult
+  guide: DiagnosticGuide
+  units: UnitSettings
+  onToggleOverlay: () => void
+  meetingOverlap?: { side: 'left' | 'right'; width: number }   // strip of a passive leaf hidden by the active one
+}) {
   const [zoom, setZoom] = useState(1)
   const [pan, setPan] = useState({ x: 0, y: 0 })
   const dragging = useRef<{ startX: number; startY: number; panX: number; panY: number } | null>(null)
   const svgRef = useRef<SVGSVGElement>(null)
+  const [imageOptions, setImageOptions] = useState<ImageOptions | null>(null)   // set while the save options are open
+  const [imageState, setImageState] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle')
+  // Overlay drawn just long enough to save an image with it; undefined follows the shown guide
+  const [exportGuide, setExportGuide] = useState<DiagnosticGuide | undefined>(undefined)
+  const guide = exportGuide === undefined ? shownGuide : exportGuide
 
   if (!cuts.isValid) return null
 
   const c = config
+  const L = (mm: number) => formatLength(mm, units)
   const padding = 30
   const vbW = c.doorWidth + padding * 2
   const vbH = c.doorHeight + padding * 2
 
-  const availableWidth = c.doorWidth - c.leftMargin - c.rightMargin - c.horizontalGap
-  const unitW = availableWidth / 2
-
-  const availableHeight = c.doorHeight - c.topMargin - c.bottomMargin - c.verticalGap
-  const topUnitH = availableHeight * (c.topPanelRatio / 100)
-  const botUnitH = availableHeight * ((100 - c.topPanelRatio) / 100)
-
-  const cols = [c.leftMargin, c.leftMargin + unitW + c.horizontalGap]
-  const rows = [c.topMargin, c.topMargin + topUnitH + c.verticalGap]
-  const unitHeights = [topUnitH, botUnitH]
+  const { panelUnits, columnXs, columnWidths, rowYs, rowHeights } = cuts
+  const totalUnitHeight = rowHeights.reduce((sum, h) => sum + h, 0)
+  const totalUnitWidth = columnWidths.reduce((sum, w) => sum + w, 0)
+  // Gaps between neighbouring units (left/top edge of each gap)
+  const columnGapXs = columnXs.slice(1).map((x) => x - c.horizontalGap)
+  const rowGapYs = rowYs.slice(1).map((y) => y - c.verticalGap)
 
   // Zoom: smaller viewBox = zoomed in
   const vw = vbW / zoom
@@ -556,64 +971,57 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
 
   const [pngState, setPngState] = useState<'idle' | 'copying' | 'copied'>('idle')
 
+  // The whole drawing, unzoomed, with extra margin for overlay labels that extend beyond the padding
+  const extraMargin = 60
+  const fullVbW = vbW + extraMargin * 2
+  const fullVbH = vbH + extraMargin * 2
+  const snapshot = () => {
+    const clone = svgRef.current!.cloneNode(true) as SVGSVGElement
+    clone.setAttribute('viewBox', `${-extraMargin} ${-extraMargin} ${fullVbW} ${fullVbH}`)
+    clone.setAttribute('width', String(fullVbW))
+    clone.setAttribute('height', String(fullVbH))
+    clone.removeAttribute('class')
+    clone.removeAttribute('style')
+    return new XMLSerializer().serializeToString(clone)
+  }
+
   const copyAsPng = useCallback(async () => {
     if (!svgRef.current || pngState === 'copying') return
     setPngState('copying')
     try {
-      const svgEl = svgRef.current
-      // Clone SVG and reset viewBox to show full diagram with extra margin for labels
-      const clone = svgEl.cloneNode(true) as SVGSVGElement
-      const extraMargin = 60 // extra space for overlay labels that extend beyond padding
-      const fullVbX = -extraMargin
-      const fullVbY = -extraMargin
-      const fullVbW = vbW + extraMargin * 2
-      const fullVbH = vbH + extraMargin * 2
-      clone.setAttribute('viewBox', `${fullVbX} ${fullVbY} ${fullVbW} ${fullVbH}`)
-      clone.setAttribute('width', String(fullVbW))
-      clone.setAttribute('height', String(fullVbH))
-      clone.removeAttribute('class')
-      clone.removeAttribute('style')
-
-      const serializer = new XMLSerializer()
-      const svgStr = serializer.serializeToString(clone)
-      const svgBlob = new Blob([svgStr], { type: 'image/svg+xml;charset=utf-8' })
-      const url = URL.createObjectURL(svgBlob)
-
-      const img = new Image()
-      const scale = 8 // 8× for crisp text at any zoom
-      const width = fullVbW * scale
-      const height = fullVbH * scale
-
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve()
-        img.onerror = () => reject(new Error('Image load failed'))
-        img.src = url
-      })
-
-      const canvas = document.createElement('canvas')
-      canvas.width = width
-      canvas.height = height
-      const ctx = canvas.getContext('2d')!
-      // Dark background matching the app
-      ctx.fillStyle = '#09090b'
-      ctx.fillRect(0, 0, width, height)
-      ctx.drawImage(img, 0, 0, width, height)
-      URL.revokeObjectURL(url)
-
-      const blob = await new Promise<Blob | null>((res) => canvas.toBlob(res, 'image/png'))
-      if (blob) {
-        await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })])
-        setPngState('copied')
-        setTimeout(() => setPngState('idle'), 1500)
-      } else {
-        setPngState('idle')
-      }
+      // 8× for crisp text at any zoom, on the app's dark background
+      const blob = await rasterizeSvg(snapshot(), fullVbW, fullVbH, 8, 'png', imageBackgrounds.dark)
+      await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })])
+      setPngState('copied')
+      setTimeout(() => setPngState('idle'), 1500)
     } catch (err) {
       console.error('Copy PNG failed:', err)
       setPngState('idle')
     }
   }, [vbW, vbH, pngState])
 
+  const saveImage = async (options: ImageOptions) => {
+    if (!svgRef.current) return
+    storage.set(imageOptionsKey, options)
+    setImageOptions(null)
+    setImageState('saving')
+    try {
+      flushSync(() => setExportGuide(options.overlay === 'shown' ? undefined : options.overlay === 'none' ? null : options.overlay))
+      const svg = snapshot()
+      flushSync(() => setExportGuide(undefined))
+      const scale = imageScale(options, fullVbW, fullVbH)
+      const blob = await rasterizeSvg(svg, fullVbW, fullVbH, scale, options.format, imageBackgrounds[options.background])
+      const bytes = withDpi(new Uint8Array(await blob.arrayBuffer()), options.format, scale * 25.4)
+      const { label, extension } = imageFormats[options.format]
+      const path = await window.api.saveFile({ content: bytes, fileName: `${name}.${extension}`, filters: [{ name: label, extensions: [extension] }] })
+      setImageState(path ? 'saved' : 'idle')
+    } catch (err) {
+      console.error('Save image failed:', err)
+      setImageState('failed')
+    }
+    setTimeout(() => setImageState('idle'), 1500)
+  }
+
   return (
     <div className="relative h-full">
       <svg
@@ -639,16 +1047,44 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
         stroke="oklch(0.4 0 0)"
         strokeWidth={2}
       />
+      {meetingOverlap && meetingOverlap.width > 0 && (
+        <rect
+          x={meetingOverlap.side === 'left' ? padding : padding + c.doorWidth - meetingOverlap.width}
+          y={padding}
+          width={meetingOverlap.width}
+          height={c.doorHeight}
+          fill="oklch(0.3 0 0)"
+          stroke="oklch(0.45 0 0)"
+          strokeWidth={1}
+          strokeDasharray="6 4"
+        />
+      )}
 
       {/* Panels */}
-      {cols.map((colX, ci) =>
-        rows.map((rowY, ri) => {
-          const uh = unitHeights[ri]
-          const bx = padding + colX
-          const by = padding + rowY
+      {panelUnits.map((u) => {
+          const unitW = u.width
+          const uh = u.height
+          const bx = padding + u.x
+          const by = padding + u.y
+          const top = fitRowTops(c.rowTops, u.row + 1)[u.row]
+
+          if (top.shape !== 'rectangle') {
+            const inset = c.beadingWidth + cuts.panelBeadingGap
+            return (
+              <g key={`${u.column}-${u.row}`}>
+                <path d={unitOutlinePath(c, u, bx, by, 0)} fill="oklch(0.35 0.05 50)" stroke="oklch(0.5 0.07 50)" strokeWidth={1.5} />
+                <path d={unitOutlinePath(c, u, bx, by, c.beadingWidth)} fill={u.infill === 'glass' ? glassFill : 'oklch(0.205 0 0)'} />
+                {u.infill === 'mdf' && (
+                  <path d={unitOutlinePath(c, u, bx, by, inset)} fill="oklch(0.3 0.02 90)" stroke="oklch(0.45 0.03 90)" strokeWidth={1} />
+                )}
+                {u.infill === 'glass' && <GlassGlints x={bx + c.beadingWidth} y={by + c.beadingWidth} width={unitW - 2 * c.beadingWidth} height={uh - 2 * c.beadingWidth} />}
+                <BeadingJointLines c={c} x={bx} y={by} width={unitW} height={uh} top={top} />
+              </g>
+            )
+          }
 
           return (
-            <g key={`${ci}-${ri}`}>
+            <g key={`${u.column}-${u.row}`}>
               {/* Beading frame (outer rectangle of the unit) */}
               <rect
                 x={bx}
@@ -660,86 +1096,88 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
                 stroke="oklch(0.5 0.07 50)"
                 strokeWidth={1.5}
               />
-              {/* Gap between beading and panel */}
+              {/* Gap between beading and panel, or the glass seen through the cut-out */}
               <rect
                 x={bx + c.beadingWidth}
                 y={by + c.beadingWidth}
                 width={unitW - 2 * c.beadingWidth}
                 height={uh - 2 * c.beadingWidth}
                 rx={1}
-                fill="oklch(0.205 0 0)"
+                fill={u.infill === 'glass' ? glassFill : 'oklch(0.205 0 0)'}
               />
               {/* MDF Panel */}
-              <rect
-                x={bx + c.beadingWidth + cuts.panelBeadingGap}
-                y={by + c.beadingWidth + cuts.panelBeadingGap}
-                width={cuts.panelWidth}
-                height={ri === 0 ? cuts.topPanelHeight : cuts.bottomPanelHeight}
-                rx={1}
-                fill="oklch(0.3 0.02 90)"
-                stroke="oklch(0.45 0.03 90)"
-                strokeWidth={1}
-              />
-
+              {u.infill === 'mdf' && (
+                <rect
+                  x={bx + c.beadingWidth + cuts.panelBeadingGap}
+                  y={by + c.beadingWidth + cuts.panelBeadingGap}
+                  width={u.panelWidth}
+                  height={u.panelHeight}
+                  rx={1}
+                  fill="oklch(0.3 0.02 90)"
+                  stroke="oklch(0.45 0.03 90)"
+                  strokeWidth={1}
+                />
+              )}
+              {u.infill === 'glass' && <GlassGlints x={bx + c.beadingWidth} y={by + c.beadingWidth} width={unitW - 2 * c.beadingWidth} height={uh - 2 * c.beadingWidth} />}
+              <BeadingJointLines c={c} x={bx} y={by} width={unitW} height={uh} />
             </g>
           )
-        })
-      )}
-
-      {/* Door handle */}
-      {(() => {
-        const handleX = c.handleSide === 'left'
-          ? padding + c.handleIndent
-          : padding + c.doorWidth - c.handleIndent
-        const handleY = padding + c.handleHeight
-        const handleLen = 120
-        const handleW = 10
-        const backplateW = 30
-        const backplateH = 160
+        })}
+
+      {/* Measured shape, with the distortion exaggerated so a few mm show */}
+      {cuts.shape && (() => {
+        const { shape } = cuts.shape
+        const shapeColor = 'oklch(0.75 0.18 80)'
+        const outline = (x: number, y: number, w: number, h: number) =>
+          [[x, y], [x + w, y], [x + w, y + h], [x, y + h]]
+            .map(([px, py]) => mapPoint(shape, { x: px, y: py }, distortionScale))
+            .map((p) => `${padding + p.x},${padding + p.y}`)
+            .join(' ')
+        return (
+          <g pointerEvents="none">
+            <polygon points={outline(0, 0, c.doorWidth, c.doorHeight)} fill="none" stroke={shapeColor} strokeWidth={2} strokeDasharray="8 4" />
+            {panelUnits.map((u) => (
+              <polygon key={`shape-${u.column}-${u.row}`} points={outline(u.x, u.y, u.width, u.height)} fill="none" stroke={shapeColor} strokeWidth={1} strokeDasharray="4 3" opacity={0.7} />
+            ))}
+            <text x={padding + 6} y={padding + c.doorHeight + 22} fill={shapeColor} fontSize={16} fontFamily="monospace">
+              Measured shape, distortion ×{distortionScale}
+            </text>
+          </g>
+        )
+      })()}
 
+      {/* Hinges */}
+      {cuts.hingeHeights.map((h, i) => {
+        const leafX = hingeSideOf(c) === 'left' ? padding : padding + c.doorWidth - c.hingeLeafWidth
+        const knuckleX = hingeSideOf(c) === 'left' ? padding : padding + c.doorWidth - 4
+        const top = padding + h - c.hingeLength / 2
         return (
-          <g>
-            {/* Backplate */}
+          <g key={`hinge-${i}`}>
             <rect
-              x={handleX - backplateW / 2}
-              y={handleY - backplateH / 2}
-              width={backplateW}
-              height={backplateH}
-              rx={backplateW / 2}
-              fill="oklch(0.45 0 0)"
-              stroke="oklch(0.55 0 0)"
-              strokeWidth={1}
-            />
-            {/* Keyhole */}
-            <circle
-              cx={handleX}
-              cy={handleY + backplateH * 0.28}
-              r={5}
-              fill="oklch(0.25 0 0)"
-            />
-            {/* Handle lever */}
-            <rect
-              x={c.handleSide === 'right' ? handleX - handleLen : handleX}
-              y={handleY - handleW / 2}
-              width={handleLen}
-              height={handleW}
-              rx={handleW / 2}
-              fill="oklch(0.55 0 0)"
-              stroke="oklch(0.65 0 0)"
-              strokeWidth={1}
-            />
-            {/* Handle rose */}
-            <circle
-              cx={handleX}
-              cy={handleY}
-              r={handleW}
-              fill="oklch(0.5 0 0)"
-              stroke="oklch(0.6 0 0)"
+              x={leafX}
+              y={top}
+              width={c.hingeLeafWidth}
+              height={c.hingeLength}
+              rx={2}
+              fill="oklch(0.5 0.06 80)"
+              stroke="oklch(0.62 0.07 80)"
               strokeWidth={1}
             />
+            <rect x={knuckleX} y={top} width={4} height={c.hingeLength} fill="oklch(0.62 0.07 80)" />
+            {[0.25, 0.75].map((f) => (
+              <circle key={f} cx={leafX + c.hingeLeafWidth / 2} cy={top + c.hingeLength * f} r={3} fill="oklch(0.35 0.03 80)" />
+            ))}
           </g>
         )
-      })()}
+      })}
+
+      {/* Door handle */}
+      <HardwareShape
+        item={c.hardware}
+        x={c.handleSide === 'left' ? padding + c.handleIndent : padding + c.doorWidth - c.handleIndent}
+        y={padding + c.handleHeight}
+        inward={c.handleSide === 'left' ? 1 : -1}
+      />
 
       {/* ── Diagnostic guide overlays ── */}
       {(() => {
@@ -756,35 +1194,47 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
             <g opacity={0.9}>
               {/* Top margin */}
               <line x1={dX} y1={dY + c.topMargin} x2={dX + dW} y2={dY + c.topMargin} {...guideStroke} />
-              <text x={dX + dW + 8} y={dY + c.topMargin / 2} dominantBaseline="central" {...guideTextStyle}>{c.topMargin}</text>
+              <text x={dX + dW + 8} y={dY + c.topMargin / 2} dominantBaseline="central" {...guideTextStyle}>{L(c.topMargin)}</text>
               {/* Bottom margin */}
               <line x1={dX} y1={dY + dH - c.bottomMargin} x2={dX + dW} y2={dY + dH - c.bottomMargin} {...guideStroke} />
-              <text x={dX + dW + 8} y={dY + dH - c.bottomMargin / 2} dominantBaseline="central" {...guideTextStyle}>{c.bottomMargin}</text>
+              <text x={dX + dW + 8} y={dY + dH - c.bottomMargin / 2} dominantBaseline="central" {...guideTextStyle}>{L(c.bottomMargin)}</text>
               {/* Left margin */}
               <line x1={dX + c.leftMargin} y1={dY} x2={dX + c.leftMargin} y2={dY + dH} {...guideStroke} />
-              <text x={dX + c.leftMargin / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>{c.leftMargin}</text>
+              <text x={dX + c.leftMargin / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>{L(c.leftMargin)}</text>
               {/* Right margin */}
               <line x1={dX + dW - c.rightMargin} y1={dY} x2={dX + dW - c.rightMargin} y2={dY + dH} {...guideStroke} />
-              <text x={dX + dW - c.rightMargin / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>{c.rightMargin}</text>
+              <text x={dX + dW - c.rightMargin / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>{L(c.rightMargin)}</text>
             </g>
           )
         }
 
         if (guide === 'gaps') {
-          const gapLeft = dX + c.leftMargin + unitW
-          const gapTop = dY + c.topMargin + topUnitH
           return (
             <g opacity={0.9}>
-              {/* Horizontal gap zone */}
-              <rect x={gapLeft} y={dY} width={c.horizontalGap} height={dH} fill={guideColor} opacity={0.12} />
-              <line x1={gapLeft} y1={dY} x2={gapLeft} y2={dY + dH} {...guideStroke} />
-              <line x1={gapLeft + c.horizontalGap} y1={dY} x2={gapLeft + c.horizontalGap} y2={dY + dH} {...guideStroke} />
-              <text x={gapLeft + c.horizontalGap / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>H {c.horizontalGap}</text>
-              {/* Vertical gap zone */}
-              <rect x={dX} y={gapTop} width={dW} height={c.verticalGap} fill={guideColor} opacity={0.12} />
-              <line x1={dX} y1={gapTop} x2={dX + dW} y2={gapTop} {...guideStroke} />
-              <line x1={dX} y1={gapTop + c.verticalGap} x2={dX + dW} y2={gapTop + c.verticalGap} {...guideStroke} />
-              <text x={dX + dW + 8} y={gapTop + c.verticalGap / 2} dominantBaseline="central" {...guideTextStyle}>V {c.verticalGap}</text>
+              {/* Horizontal gap zones (between columns) */}
+              {columnGapXs.map((gx, i) => {
+                const gapLeft = dX + gx
+                return (
+                  <g key={`hg-${i}`}>
+                    <rect x={gapLeft} y={dY} width={c.horizontalGap} height={dH} fill={guideColor} opacity={0.12} />
+                    <line x1={gapLeft} y1={dY} x2={gapLeft} y2={dY + dH} {...guideStroke} />
+                    <line x1={gapLeft + c.horizontalGap} y1={dY} x2={gapLeft + c.horizontalGap} y2={dY + dH} {...guideStroke} />
+                    <text x={gapLeft + c.horizontalGap / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>H {L(c.horizontalGap)}</text>
+                  </g>
+                )
+              })}
+              {/* Vertical gap zones (between rows) */}
+              {rowGapYs.map((gy, i) => {
+                const gapTop = dY + gy
+                return (
+                  <g key={`vg-${i}`}>
+                    <rect x={dX} y={gapTop} width={dW} height={c.verticalGap} fill={guideColor} opacity={0.12} />
+                    <line x1={dX} y1={gapTop} x2={dX + dW} y2={gapTop} {...guideStroke} />
+                    <line x1={dX} y1={gapTop + c.verticalGap} x2={dX + dW} y2={gapTop + c.verticalGap} {...guideStroke} />
+                    <text x={dX + dW + 8} y={gapTop + c.verticalGap / 2} dominantBaseline="central" {...guideTextStyle}>V {L(c.verticalGap)}</text>
+                  </g>
+                )
+              })}
             </g>
           )
         }
@@ -793,78 +1243,177 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
           // Highlight the beading frames on each unit
           return (
             <g opacity={0.9}>
-              {cols.map((colX, ci) =>
-                rows.map((rowY, ri) => {
-                  const bx = dX + colX
-                  const by = dY + rowY
-                  const uh = unitHeights[ri]
+              {panelUnits.map((u) => {
+                  const bx = dX + u.x
+                  const by = dY + u.y
+                  const unitW = u.width
+                  const uh = u.height
                   return (
-                    <g key={`b-${ci}-${ri}`}>
+                    <g key={`b-${u.column}-${u.row}`}>
                       {/* Outer beading edge */}
                       <rect x={bx} y={by} width={unitW} height={uh} fill="none" stroke={guideColor} strokeWidth={1.5} />
                       {/* Inner beading edge */}
                       <rect x={bx + c.beadingWidth} y={by + c.beadingWidth} width={unitW - 2 * c.beadingWidth} height={uh - 2 * c.beadingWidth} fill="none" stroke={guideColor} strokeWidth={1} strokeDasharray="4 2" />
                       {/* Beading width label */}
-                      <text x={bx + c.beadingWidth / 2} y={by - 4} textAnchor="middle" {...guideTextStyle}>{c.beadingWidth}</text>
+                      <text x={bx + c.beadingWidth / 2} y={by - 4} textAnchor="middle" {...guideTextStyle}>{L(c.beadingWidth)}</text>
                       {/* Panel width label */}
-                      <text x={bx + unitW / 2} y={by + uh + 14} textAnchor="middle" {...guideTextStyle}>panel {cuts.panelWidth}</text>
+                      <text x={bx + unitW / 2} y={by + uh + 14} textAnchor="middle" {...guideTextStyle}>panel {L(u.panelWidth)}</text>
                     </g>
                   )
-                })
-              )}
+                })}
             </g>
           )
         }
 
         if (guide === 'ratio') {
-          const splitY = dY + c.topMargin + topUnitH + c.verticalGap / 2
           return (
             <g opacity={0.9}>
-              <line x1={dX} y1={splitY} x2={dX + dW} y2={splitY} {...guideStroke} />
-              <text x={dX + dW + 8} y={dY + c.topMargin + topUnitH / 2} dominantBaseline="central" {...guideTextStyle}>{c.topPanelRatio}%</text>
-              <text x={dX + dW + 8} y={dY + c.topMargin + topUnitH + c.verticalGap + botUnitH / 2} dominantBaseline="central" {...guideTextStyle}>{100 - c.topPanelRatio}%</text>
+              {rowGapYs.map((gy, i) => {
+                const splitY = dY + gy + c.verticalGap / 2
+                return <line key={`split-${i}`} x1={dX} y1={splitY} x2={dX + dW} y2={splitY} {...guideStroke} />
+              })}
+              {rowYs.length > 1 && rowYs.map((ry, ri) => (
+                <text key={`share-${ri}`} x={dX + dW + 8} y={dY + ry + rowHeights[ri] / 2} dominantBaseline="central" {...guideTextStyle}>
+                  {formatShare((rowHeights[ri] / totalUnitHeight) * 100)}%
+                </text>
+              ))}
+              {columnGapXs.map((gx, i) => {
+                const splitX = dX + gx + c.horizontalGap / 2
+                return <line key={`csplit-${i}`} x1={splitX} y1={dY} x2={splitX} y2={dY + dH} {...guideStroke} />
+              })}
+              {columnXs.length > 1 && columnXs.map((cx, ci) => (
+                <text key={`cshare-${ci}`} x={dX + cx + columnWidths[ci] / 2} y={dY + dH + 14} textAnchor="middle" {...guideTextStyle}>
+                  {formatShare((columnWidths[ci] / totalUnitWidth) * 100)}%
+                </text>
+              ))}
             </g>
           )
         }
 
         if (guide === 'handle') {
           const hx = c.handleSide === 'left' ? dX : dX + dW
-          const spreadEnd = c.handleSide === 'left' ? dX + c.handleSpread : dX + dW - c.handleSpread
+          const reach = handleReach(c)
+          const footprint = hardwareFootprint(c.hardware)
+          const spreadEnd = c.handleSide === 'left' ? dX + reach : dX + dW - reach
           const handleY = dY + c.handleHeight
+          const zoneTop = handleY - footprint.up - 10
+          const zoneBottom = handleY + footprint.down + 10
           const margin = c.handleSide === 'left' ? c.leftMargin : c.rightMargin
           const marginLine = c.handleSide === 'left' ? dX + margin : dX + dW - margin
-          const warn = c.handleSpread > margin
+          const warn = cuts.diagnostics.some((d) => d.code === 'handle-overlap')
           const warnColor = 'oklch(0.75 0.2 60)'
           return (
             <g opacity={0.9}>
-              {/* Handle spread zone */}
+              {/* Hardware footprint zone */}
               <rect
                 x={Math.min(hx, spreadEnd)}
-                y={handleY - 90}
-                width={c.handleSpread}
-                height={180}
+                y={zoneTop}
+                width={reach}
+                height={zoneBottom - zoneTop}
                 fill={warn ? warnColor : guideColor}
                 opacity={0.12}
                 rx={3}
               />
-              {/* Spread line */}
-              <line x1={spreadEnd} y1={handleY - 90} x2={spreadEnd} y2={handleY + 90} stroke={warn ? warnColor : guideColor} strokeWidth={1.5} strokeDasharray="6 3" />
+              {/* Reach line */}
+              <line x1={spreadEnd} y1={zoneTop} x2={spreadEnd} y2={zoneBottom} stroke={warn ? warnColor : guideColor} strokeWidth={1.5} strokeDasharray="6 3" />
               {/* Margin line for reference */}
               <line x1={marginLine} y1={dY} x2={marginLine} y2={dY + dH} stroke={guideColor} strokeWidth={1} strokeDasharray="3 3" opacity={0.5} />
               {/* Spread label */}
               <text
                 x={(hx + spreadEnd) / 2}
-                y={handleY - 96}
+                y={zoneTop - 6}
                 textAnchor="middle"
                 fill={warn ? warnColor : guideColor}
                 fontSize={22}
                 fontFamily="monospace"
               >
-                spread {c.handleSpread}
+                reach {L(reach)}
               </text>
               {/* Handle height line */}
               <line x1={hx} y1={dY} x2={hx} y2={handleY} stroke={guideColor} strokeWidth={1} strokeDasharray="3 3" opacity={0.5} />
-              <text x={hx + (c.handleSide === 'left' ? -4 : 4)} y={dY + c.handleHeight / 2} textAnchor={c.handleSide === 'left' ? 'end' : 'start'} dominantBaseline="central" {...guideTextStyle}>{c.handleHeight}</text>
+              <text x={hx + (c.handleSide === 'left' ? -4 : 4)} y={dY + c.handleHeight / 2} textAnchor={c.handleSide === 'left' ? 'end' : 'start'} dominantBaseline="central" {...guideTextStyle}>{L(c.handleHeight)}</text>
+            </g>
+          )
+        }
+
+        if (guide === 'hinges') {
+          const hingeSide = hingeSideOf(c)
+          const edgeX = hingeSide === 'left' ? dX : dX + dW
+          const margin = hingeSide === 'left' ? c.leftMargin : c.rightMargin
+          const marginLine = hingeSide === 'left' ? dX + margin : dX + dW - margin
+          const warnColor = 'oklch(0.75 0.2 60)'
+          return (
+            <g opacity={0.9}>
+              {/* Margin line for reference */}
+              <line x1={marginLine} y1={dY} x2={marginLine} y2={dY + dH} stroke={guideColor} strokeWidth={1} strokeDasharray="3 3" opacity={0.5} />
+              {cuts.hingeHeights.map((h, i) => {
+                const warn = cuts.diagnostics.some((d) => d.part === `Hinge ${i + 1}`)
+                const color = warn ? warnColor : guideColor
+                const top = dY + h - c.hingeLength / 2
+                return (
+                  <g key={`hinge-guide-${i}`}>
+                    {/* Leaf footprint plus mitre clearance */}
+                    <rect
+                      x={hingeSide === 'left' ? dX : dX + dW - c.hingeLeafWidth - hingeMitreClearance}
+                      y={top - hingeMitreClearance}
+                      width={c.hingeLeafWidth + hingeMitreClearance}
+                      height={c.hingeLength + 2 * hingeMitreClearance}
+                      fill={color}
+                      opacity={0.12}
+                      rx={3}
+                    />
+                    <line x1={edgeX} y1={dY + h} x2={hingeSide === 'left' ? edgeX + c.hingeLeafWidth + hingeMitreClearance : edgeX - c.hingeLeafWidth - hingeMitreClearance} y2={dY + h} stroke={color} strokeWidth={1.5} strokeDasharray="6 3" />
+                    <text
+                      x={edgeX + (hingeSide === 'left' ? -4 : 4)}
+                      y={dY + h}
+                      textAnchor={hingeSide === 'left' ? 'end' : 'start'}
+                      dominantBaseline="central"
+                      {...guideTextStyle}
+                      fill={color}
+                    >
+                      {L(h)}
+                    </text>
+                  </g>
+                )
+              })}
+            </g>
+          )
+        }
+
+        if (guide === 'shape' && cuts.shape && c.edges) {
+          const { shape, cornerAngles } = cuts.shape
+          const [tl, tr, br, bl] = ([[0, 0], [dW, 0], [dW, dH], [0, dH]] as const).map(([x, y]) => {
+            const p = mapPoint(shape, { x, y }, distortionScale)
+            return { x: dX + p.x, y: dY + p.y }
+          })
+          const edges = c.edges
+          return (
+            <g opacity={0.9}>
+              <text x={(tl.x + tr.x) / 2} y={Math.min(tl.y, tr.y) - 8} textAnchor="middle" {...guideTextStyle}>{L(edges.topWidth)}</text>
+              <text x={(bl.x + br.x) / 2} y={Math.max(bl.y, br.y) + 22} textAnchor="middle" {...guideTextStyle}>{L(edges.bottomWidth)}</text>
+              <text x={Math.min(tl.x, bl.x) - 8} y={dY + dH / 2} textAnchor="end" dominantBaseline="central" {...guideTextStyle}>{L(edges.leftHeight)}</text>
+              <text x={Math.max(tr.x, br.x) + 8} y={dY + dH / 2} dominantBaseline="central" {...guideTextStyle}>{L(edges.rightHeight)}</text>
+              {shape.fromDiagonals && (
+                <>
+                  <line x1={tl.x} y1={tl.y} x2={br.x} y2={br.y} {...guideStroke} strokeWidth={1.5} opacity={0.6} />
+                  <line x1={bl.x} y1={bl.y} x2={tr.x} y2={tr.y} {...guideStroke} strokeWidth={1.5} opacity={0.6} />
+                  <text x={dX + dW / 2} y={dY + dH / 2 - 14} textAnchor="middle" {...guideTextStyle}>
+                    {L(edges.diagonalDown)} / {L(edges.diagonalUp)}
+                  </text>
+                </>
+              )}
+              {[tl, tr, br, bl].map((p, i) => (
+                <text
+                  key={`angle-${i}`}
+                  x={p.x + (i === 0 || i === 3 ? 10 : -10)}
+                  y={p.y + (i < 2 ? 26 : -12)}
+                  textAnchor={i === 0 || i === 3 ? 'start' : 'end'}
+                  {...guideTextStyle}
+                  fontSize={18}
+                >
+                  {cornerAngles[i]}°
+                </text>
+              ))}
             </g>
           )
         }
@@ -888,8 +1437,9 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
           const innerRight = dX + dW - c.rightMargin
           const innerTop = dY + c.topMargin
           const innerBottom = dY + dH - c.bottomMargin
-          const gapLeft = innerLeft + unitW
-          const gapTop = innerTop + topUnitH
+          // Gap labels sit on the first gap in each direction
+          const gapLeft = columnGapXs.length > 0 ? dX + columnGapXs[0] : dX + dW / 2
+          const gapTop = rowGapYs.length > 0 ? dY + rowGapYs[0] : innerTop + (innerBottom - innerTop) / 2
           const splitY = gapTop + c.verticalGap / 2
 
           // Handle
@@ -916,7 +1466,7 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
                     <circle cx={px} cy={py} r={3} fill={pinColor} opacity={0.8} />
                     {/* Coordinate labels */}
                     <text x={px} y={by - 6} textAnchor="middle" {...pinTextStyle}>
-                      pin ({up.pinX}, {up.pinY})
+                      pin ({L(up.pinX)}, {L(up.pinY)})
                     </text>
                     {/* Horizontal guide lines from door edges */}
                     <line x1={dX} y1={py} x2={blx} y2={py} {...pinStroke} opacity={0.4} />
@@ -931,33 +1481,33 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
               <line x1={dX + dW / 2} y1={dY} x2={dX + dW / 2} y2={innerTop} stroke={dimColor} strokeWidth={1} strokeDasharray={dashPattern} />
               <line x1={dX + dW / 2 - 8} y1={dY} x2={dX + dW / 2 + 8} y2={dY} stroke={dimColor} strokeWidth={1} />
               <line x1={dX + dW / 2 - 8} y1={innerTop} x2={dX + dW / 2 + 8} y2={innerTop} stroke={dimColor} strokeWidth={1} />
-              <text x={dX + dW / 2 + 14} y={dY + c.topMargin / 2} textAnchor="start" dominantBaseline="central" fill={dimColor} {...txtBase}>{c.topMargin}</text>
+              <text x={dX + dW / 2 + 14} y={dY + c.topMargin / 2} textAnchor="start" dominantBaseline="central" fill={dimColor} {...txtBase}>{L(c.topMargin)}</text>
               {/* Bottom margin */}
               <line x1={dX + dW / 2} y1={innerBottom} x2={dX + dW / 2} y2={dY + dH} stroke={dimColor} strokeWidth={1} strokeDasharray={dashPattern} />
               <line x1={dX + dW / 2 - 8} y1={innerBottom} x2={dX + dW / 2 + 8} y2={innerBottom} stroke={dimColor} strokeWidth={1} />
               <line x1={dX + dW / 2 - 8} y1={dY + dH} x2={dX + dW / 2 + 8} y2={dY + dH} stroke={dimColor} strokeWidth={1} />
-              <text x={dX + dW / 2 + 14} y={dY + dH - c.bottomMargin / 2} textAnchor="start" dominantBaseline="central" fill={dimColor} {...txtBase}>{c.bottomMargin}</text>
+              <text x={dX + dW / 2 + 14} y={dY + dH - c.bottomMargin / 2} textAnchor="start" dominantBaseline="central" fill={dimColor} {...txtBase}>{L(c.bottomMargin)}</text>
               {/* Left margin */}
               {(() => {
-                const alignY = innerTop + topUnitH / 3
+                const alignY = innerTop + rowHeights[0] / 3
                 return (
                   <g>
                     <line x1={dX} y1={alignY} x2={innerLeft} y2={alignY} stroke={dimColor} strokeWidth={1} strokeDasharray={dashPattern} />
                     <line x1={dX} y1={alignY - 8} x2={dX} y2={alignY + 8} stroke={dimColor} strokeWidth={1} />
                     <line x1={innerLeft} y1={alignY - 8} x2={innerLeft} y2={alignY + 8} stroke={dimColor} strokeWidth={1} />
-                    <text x={dX + c.leftMargin / 2} y={alignY - 16} textAnchor="middle" fill={dimColor} {...txtBase}>{c.leftMargin}</text>
+                    <text x={dX + c.leftMargin / 2} y={alignY - 16} textAnchor="middle" fill={dimColor} {...txtBase}>{L(c.leftMargin)}</text>
                   </g>
                 )
               })()}
               {/* Right margin */}
               {(() => {
-                const alignY = innerTop + topUnitH / 3
+                const alignY = innerTop + rowHeights[0] / 3
                 return (
                   <g>
                     <line x1={innerRight} y1={alignY} x2={dX + dW} y2={alignY} stroke={dimColor} strokeWidth={1} strokeDasharray={dashPattern} />
                     <line x1={innerRight} y1={alignY - 8} x2={innerRight} y2={alignY + 8} stroke={dimColor} strokeWidth={1} />
                     <line x1={dX + dW} y1={alignY - 8} x2={dX + dW} y2={alignY + 8} stroke={dimColor} strokeWidth={1} />
-                    <text x={dX + dW - c.rightMargin / 2} y={alignY - 16} textAnchor="middle" fill={dimColor} {...txtBase}>{c.rightMargin}</text>
+                    <text x={dX + dW - c.rightMargin / 2} y={alignY - 16} textAnchor="middle" fill={dimColor} {...txtBase}>{L(c.rightMargin)}</text>
                   </g>
                 )
               })()}
@@ -969,33 +1519,56 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
               <line x1={innerRight} y1={dY} x2={innerRight} y2={dY + dH} stroke={dimColor} strokeWidth={0.5} strokeDasharray="2 4" opacity={0.4} />
 
               {/* ── Gap annotations ── */}
-              {/* Horizontal gap */}
-              <rect x={gapLeft} y={innerTop} width={c.horizontalGap} height={innerBottom - innerTop} fill={gapColor} opacity={0.08} />
-              <line x1={gapLeft} y1={splitY} x2={gapLeft + c.horizontalGap} y2={splitY} stroke={gapColor} strokeWidth={1.5} />
-              <line x1={gapLeft} y1={splitY - 8} x2={gapLeft} y2={splitY + 8} stroke={gapColor} strokeWidth={1.5} />
-              <line x1={gapLeft + c.horizontalGap} y1={splitY - 8} x2={gapLeft + c.horizontalGap} y2={splitY + 8} stroke={gapColor} strokeWidth={1.5} />
-              <text x={gapLeft + c.horizontalGap / 4} y={innerTop + (innerBottom - innerTop) / 2} textAnchor="middle" dominantBaseline="central" fill={gapColor} {...txtBase} transform={`rotate(-90, ${gapLeft + c.horizontalGap / 2}, ${innerTop + (innerBottom - innerTop) / 2})`}>vert gap {c.verticalGap}</text>
-              {/* Vertical gap */}
-              <rect x={innerLeft} y={gapTop} width={innerRight - innerLeft} height={c.verticalGap} fill={gapColor} opacity={0.08} />
-              <line x1={dX + dW / 2} y1={gapTop} x2={dX + dW / 2} y2={gapTop + c.verticalGap} stroke={gapColor} strokeWidth={1.5} />
-              <line x1={dX + dW / 2 - 8} y1={gapTop} x2={dX + dW / 2 + 8} y2={gapTop} stroke={gapColor} strokeWidth={1.5} />
-              <line x1={dX + dW / 2 - 8} y1={gapTop + c.verticalGap} x2={dX + dW / 2 + 8} y2={gapTop + c.verticalGap} stroke={gapColor} strokeWidth={1.5} />
-              <text x={gapLeft - c.horizontalGap / 4} y={gapTop + c.verticalGap / 2} textAnchor="end" dominantBaseline="central" fill={gapColor} {...txtBase}>horz gap {c.horizontalGap}</text>
-
-              {/* ── Ratio split ── */}
-              <line x1={innerLeft} y1={splitY} x2={innerRight} y2={splitY} stroke={gapColor} strokeWidth={0.5} strokeDasharray="6 3" opacity={0.5} />
-              <text x={dX + dW + 8} y={innerTop + topUnitH / 2} dominantBaseline="central" fill={gapColor} {...txtBase}>{c.topPanelRatio}%</text>
-              <text x={dX + dW + 8} y={innerTop + topUnitH + c.verticalGap + botUnitH / 2} dominantBaseline="central" fill={gapColor} {...txtBase}>{100 - c.topPanelRatio}%</text>
+              {/* Horizontal gaps */}
+              {columnGapXs.map((gx, i) => {
+                const gl = dX + gx
+                return (
+                  <g key={`hg-${i}`}>
+                    <rect x={gl} y={innerTop} width={c.horizontalGap} height={innerBottom - innerTop} fill={gapColor} opacity={0.08} />
+                    <line x1={gl} y1={splitY} x2={gl + c.horizontalGap} y2={splitY} stroke={gapColor} strokeWidth={1.5} />
+                    <line x1={gl} y1={splitY - 8} x2={gl} y2={splitY + 8} stroke={gapColor} strokeWidth={1.5} />
+                    <line x1={gl + c.horizontalGap} y1={splitY - 8} x2={gl + c.horizontalGap} y2={splitY + 8} stroke={gapColor} strokeWidth={1.5} />
+                  </g>
+                )
+              })}
+              {columnGapXs.length > 0 && (
+                <text x={gapLeft + c.horizontalGap / 4} y={innerTop + (innerBottom - innerTop) / 2} textAnchor="middle" dominantBaseline="central" fill={gapColor} {...txtBase} transform={`rotate(-90, ${gapLeft + c.horizontalGap / 2}, ${innerTop + (innerBottom - innerTop) / 2})`}>vert gap {L(c.verticalGap)}</text>
+              )}
+              {/* Vertical gaps */}
+              {rowGapYs.map((gy, i) => {
+                const gt = dY + gy
+                return (
+                  <g key={`vg-${i}`}>
+                    <rect x={innerLeft} y={gt} width={innerRight - innerLeft} height={c.verticalGap} fill={gapColor} opacity={0.08} />
+                    <line x1={dX + dW / 2} y1={gt} x2={dX + dW / 2} y2={gt + c.verticalGap} stroke={gapColor} strokeWidth={1.5} />
+                    <line x1={dX + dW / 2 - 8} y1={gt} x2={dX + dW / 2 + 8} y2={gt} stroke={gapColor} strokeWidth={1.5} />
+                    <line x1={dX + dW / 2 - 8} y1={gt + c.verticalGap} x2={dX + dW / 2 + 8} y2={gt + c.verticalGap} stroke={gapColor} strokeWidth={1.5} />
+                  </g>
+                )
+              })}
+              {rowGapYs.length > 0 && (
+                <text x={gapLeft - c.horizontalGap / 4} y={gapTop + c.verticalGap / 2} textAnchor="end" dominantBaseline="central" fill={gapColor} {...txtBase}>horz gap {L(c.horizontalGap)}</text>
+              )}
+
+              {/* ── Ratio splits ── */}
+              {rowGapYs.map((gy, i) => {
+                const sy = dY + gy + c.verticalGap / 2
+                return <line key={`split-${i}`} x1={innerLeft} y1={sy} x2={innerRight} y2={sy} stroke={gapColor} strokeWidth={0.5} strokeDasharray="6 3" opacity={0.5} />
+              })}
+              {rowYs.map((ry, ri) => (
+                <text key={`share-${ri}`} x={dX + dW + 8} y={dY + ry + rowHeights[ri] / 2} dominantBaseline="central" fill={gapColor} {...txtBase}>
+                  {formatShare((rowHeights[ri] / totalUnitHeight) * 100)}%
+                </text>
+              ))}
 
               {/* ── Beading & panel labels per unit ── */}
-              {cols.map((colX, ci) =>
-                rows.map((rowY, ri) => {
-                  const bx = dX + colX
-                  const by = dY + rowY
-                  const uh = unitHeights[ri]
-                  const panelH = ri === 0 ? cuts.topPanelHeight : cuts.bottomPanelHeight
+              {panelUnits.map((u) => {
+                  const bx = dX + u.x
+                  const by = dY + u.y
+                  const unitW = u.width
+                  const uh = u.height
                   return (
-                    <g key={`s-${ci}-${ri}`}>
+                    <g key={`s-${u.column}-${u.row}`}>
                       {/* Beading outer edge highlight */}
                       <rect x={bx} y={by} width={unitW} height={uh} fill="none" stroke={beadColor} strokeWidth={1} opacity={0.5} />
                       {/* Beading width indicator at 1/3 down left side */}
@@ -1007,82 +1580,72 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
                             <line x1={bx} y1={tickY} x2={bx + c.beadingWidth} y2={tickY} stroke={beadColor} strokeWidth={1.5} />
                             <line x1={bx} y1={tickY - 4} x2={bx} y2={tickY + 4} stroke={beadColor} strokeWidth={1.5} />
                             <line x1={bx + c.beadingWidth} y1={tickY - 4} x2={bx + c.beadingWidth} y2={tickY + 4} stroke={beadColor} strokeWidth={1.5} />
-                            <text x={tickX} y={tickY + 16} textAnchor="middle" fill={beadColor} {...txtBase} fontSize={14}>{c.beadingWidth}</text>
+                            <text x={tickX} y={tickY + 16} textAnchor="middle" fill={beadColor} {...txtBase} fontSize={14}>{L(c.beadingWidth)}</text>
                           </g>
                         )
                       })()}
                       {/* Panel size label */}
                       <text x={bx + unitW / 2} y={by + uh / 2 - 12} textAnchor="middle" dominantBaseline="central" fill={beadColor} {...txtBase} fontSize={16} opacity={0.8}>
-                        {cuts.panelWidth}×{panelH}
+                        {L(u.panelWidth)}×{L(u.panelHeight)}
                       </text>
                       {/* Panel-beading gap label */}
                       {cuts.panelBeadingGap > 0 && (
                         <text x={bx + unitW / 2} y={by + uh / 2 + 12} textAnchor="middle" dominantBaseline="central" fill={beadColor} {...txtBase} fontSize={14} opacity={0.6}>
-                          gap {cuts.panelBeadingGap}
+                          gap {L(cuts.panelBeadingGap)}
                         </text>
                       )}
                     </g>
                   )
-                })
-              )}
+                })}
 
               {/* ── Unit width dimension line (below top-left unit) ── */}
               {(() => {
-                const ux = dX + cols[0]
-                const uy = dY + rows[0] + unitHeights[0] + 8
+                const unitW = columnWidths[0]
+                const ux = dX + columnXs[0]
+                const uy = dY + rowYs[0] + rowHeights[0] + 8
                 return (
                   <g>
                     <line x1={ux} y1={uy} x2={ux + unitW} y2={uy} stroke={beadColor} strokeWidth={1.5} />
                     <line x1={ux} y1={uy - 6} x2={ux} y2={uy + 6} stroke={beadColor} strokeWidth={1.5} />
                     <line x1={ux + unitW} y1={uy - 6} x2={ux + unitW} y2={uy + 6} stroke={beadColor} strokeWidth={1.5} />
-                    <text x={ux + unitW / 2} y={uy + 22} textAnchor="middle" fill={beadColor} {...txtBase}>unit {unitW.toFixed(1)}</text>
+                    <text x={ux + unitW / 2} y={uy + 22} textAnchor="middle" fill={beadColor} {...txtBase}>unit {L(unitW)}</text>
                   </g>
                 )
               })()}
 
-              {/* ── Unit height dimension lines (to the left of top-left unit) ── */}
-              {(() => {
-                const ux = dX + cols[0] - 8
-                const topY1 = dY + rows[0]
-                const topY2 = topY1 + unitHeights[0]
-                const botY1 = dY + rows[1]
-                const botY2 = botY1 + unitHeights[1]
+              {/* ── Unit height dimension lines (to the left of the first column) ── */}
+              {rowYs.map((ry, ri) => {
+                const ux = dX + columnXs[0] - 8
+                const y1 = dY + ry
+                const y2 = y1 + rowHeights[ri]
                 const labelX = ux - 22
+                const labelY = y1 + rowHeights[ri] / 2
                 return (
-                  <g>
-                    {/* Top unit height */}
-                    <line x1={ux} y1={topY1} x2={ux} y2={topY2} stroke={beadColor} strokeWidth={1.5} />
-                    <line x1={ux - 6} y1={topY1} x2={ux + 6} y2={topY1} stroke={beadColor} strokeWidth={1.5} />
-                    <line x1={ux - 6} y1={topY2} x2={ux + 6} y2={topY2} stroke={beadColor} strokeWidth={1.5} />
-                    <text x={labelX} y={topY1 + unitHeights[0] / 2} textAnchor="middle" dominantBaseline="central" fill={beadColor} {...txtBase}
-                      transform={`rotate(-90, ${labelX}, ${topY1 + unitHeights[0] / 2})`}>
-                      unit {topUnitH.toFixed(1)}
-                    </text>
-                    {/* Bottom unit height */}
-                    <line x1={ux} y1={botY1} x2={ux} y2={botY2} stroke={beadColor} strokeWidth={1.5} />
-                    <line x1={ux - 6} y1={botY1} x2={ux + 6} y2={botY1} stroke={beadColor} strokeWidth={1.5} />
-                    <line x1={ux - 6} y1={botY2} x2={ux + 6} y2={botY2} stroke={beadColor} strokeWidth={1.5} />
-                    <text x={labelX} y={botY1 + unitHeights[1] / 2} textAnchor="middle" dominantBaseline="central" fill={beadColor} {...txtBase}
-                      transform={`rotate(-90, ${labelX}, ${botY1 + unitHeights[1] / 2})`}>
-                      unit {botUnitH.toFixed(1)}
+                  <g key={`uh-${ri}`}>
+                    <line x1={ux} y1={y1} x2={ux} y2={y2} stroke={beadColor} strokeWidth={1.5} />
+                    <line x1={ux - 6} y1={y1} x2={ux + 6} y2={y1} stroke={beadColor} strokeWidth={1.5} />
+                    <line x1={ux - 6} y1={y2} x2={ux + 6} y2={y2} stroke={beadColor} strokeWidth={1.5} />
+                    <text x={labelX} y={labelY} textAnchor="middle" dominantBaseline="central" fill={beadColor} {...txtBase}
+                      transform={`rotate(-90, ${labelX}, ${labelY})`}>
+                      unit {L(rowHeights[ri])}
                     </text>
                   </g>
                 )
-              })()}
+              })}
 
               {/* ── Handle position ── */}
               <line x1={hx} y1={dY} x2={hx} y2={hy} stroke={handleColor} strokeWidth={0.8} strokeDasharray={dashPattern} opacity={0.6} />
               <line x1={c.handleSide === 'left' ? dX : dX + dW} y1={hy} x2={hx} y2={hy} stroke={handleColor} strokeWidth={1.2} strokeDasharray={dashPattern} opacity={0.6} />
               <text x={hx + (c.handleSide === 'left' ? -8 : 8)} y={hy - 22} textAnchor={c.handleSide === 'left' ? 'end' : 'start'} fill={handleColor} {...txtBase}>
-                ↕ {c.handleHeight}
+                ↕ {L(c.handleHeight)}
               </text>
               <text x={hx + (c.handleSide === 'left' ? -8 : 8)} y={hy - 8} textAnchor={c.handleSide === 'left' ? 'end' : 'start'} fill={handleColor} {...txtBase}>
-                ↔ {c.handleIndent}
+                ↔ {L(c.handleIndent)}
               </text>
 
               {/* ── Door dimensions (outside edges) ── */}
               <text x={dX + dW / 2} y={dY - 20} textAnchor="middle" fill={dimColor} {...txtBase} fontSize={24} fontWeight={600}>
-                {c.doorWidth} × {c.doorHeight} mm
+                {L(c.doorWidth)} × {L(c.doorHeight)} {unitSuffix(units)}
               </text>
             </g>
           )
@@ -1132,98 +1695,507 @@ function DoorPreview({ config, cuts, guide, onToggleOverlay }: { config: DoorCon
             <Download className="h-3.5 w-3.5" />
           )}
         </button>
+        <button
+          onClick={() => setImageOptions(imageOptions ? null : { ...defaultImageOptions, ...storage.get<Partial<ImageOptions>>(imageOptionsKey, {}) })}
+          tabIndex={-1}
+          className={`p-1.5 rounded border backdrop-blur-sm transition-all duration-300 ${
+            imageState === 'saved'
+              ? 'bg-green-900/80 text-green-300 border-green-700'
+              : imageState === 'failed'
+                ? 'bg-red-900/80 text-red-300 border-red-700'
+                : imageOptions
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'bg-secondary/80 text-secondary-foreground hover:bg-secondary border-border'
+          }`}
+          title="Save image…"
+        >
+          {imageState === 'saved' ? (
+            <Check className="h-3.5 w-3.5" />
+          ) : (
+            <ImageDown className={`h-3.5 w-3.5 ${imageState === 'saving' ? 'animate-bounce' : ''}`} />
+          )}
+        </button>
       </div>
+      {imageOptions && (() => {
+        const o = imageOptions
+        const set = (changes: Partial<ImageOptions>) => setImageOptions({ ...o, ...changes })
+        const scale = imageScale(o, fullVbW, fullVbH)
+        const capped = scale < (o.sizing === 'dpi' ? o.dpi / 25.4 : o.pixelWidth / fullVbW) - 1e-9
+        const choice = <T extends string>(value: T, current: T, label: string, onPick: (v: T) => void, disabled = false) => (
+          <button
+            key={value}
+            onClick={() => onPick(value)}
+            disabled={disabled}
+            tabIndex={-1}
+            className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-40 ${
+              current === value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+            }`}
+          >
+            {label}
+          </button>
+        )
+        return (
+          <div className="absolute top-11 right-2 w-64 flex flex-col gap-2 rounded-md border border-border bg-card/95 p-3 shadow-lg backdrop-blur-sm">
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Save image</h4>
+            <div className="flex gap-1">
+              {(Object.keys(imageFormats) as ImageFormat[]).map((f) =>
+                choice(f, o.format, imageFormats[f].label, (format) => set({ format, background: format === 'jpeg' && o.background === 'transparent' ? 'light' : o.background }))
+              )}
+            </div>
+            <div className="flex gap-1">
+              {choice<ImageOptions['sizing']>('dpi', o.sizing, 'DPI at real size', (sizing) => set({ sizing }))}
+              {choice<ImageOptions['sizing']>('pixels', o.sizing, 'Pixel width', (sizing) => set({ sizing }))}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={o.sizing === 'dpi' ? o.dpi : o.pixelWidth}
+                onChange={(e) => {
+                  const v = Math.max(1, Math.round(Number(e.target.value) || 0))
+                  set(o.sizing === 'dpi' ? { dpi: v } : { pixelWidth: v })
+                }}
+                className="h-7 w-24 text-xs text-right"
+              />
+              <span className="text-xs font-mono text-muted-foreground">
+                {Math.round(fullVbW * scale)} × {Math.round(fullVbH * scale)} px
+              </span>
+            </div>
+            {capped && (
+              <p className="text-xs text-yellow-500">
+                Capped at {maxImageSide} px on the long side ({Math.floor(scale * 25.4)} DPI).
+              </p>
+            )}
+            <div className="flex gap-1">
+              {(Object.keys(imageBackgroundLabels) as ImageBackground[]).map((b) =>
+                choice(b, o.background, imageBackgroundLabels[b], (background) => set({ background }), b === 'transparent' && o.format === 'jpeg')
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-xs text-muted-foreground">Overlay</Label>
+              <select
+                value={o.overlay}
+                onChange={(e) => set({ overlay: e.target.value as ImageOverlay })}
+                className="h-7 flex-1 min-w-0 rounded-md border border-input bg-transparent px-2 text-xs"
+              >
+                {(Object.keys(imageOverlayLabels) as ImageOverlay[]).map((v) => (
+                  <option key={v} value={v} className="bg-background">
+                    {imageOverlayLabels[v]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-1">
+              <button
+                onClick={() => saveImage(o)}
+                tabIndex={-1}
+                className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors bg-primary text-primary-foreground hover:bg-primary/90"
+              >
+                <ImageDown className="h-3 w-3" /> Save…
+              </button>
+              <button
+                onClick={() => setImageOptions(null)}
+                tabIndex={-1}
+                className="px-3 py-1.5 rounded-md text-xs font-medium transition-colors bg-secondary text-secondary-foreground hover:bg-secondary/80"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )
+      })()}
     </div>
   )
 }
 
-// ── Text formatting for sharing ───────────────────────
-
-function formatTimestamp(): string {
-  const d = new Date()
-  return d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
-    + ' ' + d.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+/**
+ * Every door in an alignment group side by side at one scale, standing on the floor, with the
+ * datum drawn across them all. A door whose gap line misses the datum is marked in red.
+ */
+function ElevationPreview({ group, doors, units }: { group: AlignmentGroup; doors: SavedDoor[]; units: UnitSettings }) {
+  const spacing = 150
+  const padding = 40
+  const members = doors.filter((d) => group.doorIds.includes(d.id))
+  const widths = members.map((d) => d.config.doorWidth * (d.config.pair ? 2 : 1))
+  const tallest = Math.max(group.datum, ...members.map((d) => d.config.doorHeight + group.floorGap))
+  const totalWidth = widths.reduce((sum, w) => sum + w, 0) + spacing * Math.max(0, members.length - 1)
+  const vbW = totalWidth + padding * 2
+  const vbH = tallest + padding * 2 + 60
+  const floorY = padding + tallest
+  const datumY = floorY - group.datum
+  const fontSize = 36
+  const lineColor = 'oklch(0.7 0.15 250)'
+  let x = padding
+  return (
+    <svg viewBox={`0 0 ${vbW} ${vbH}`} className="w-full rounded border border-border">
+      <rect x={0} y={0} width={vbW} height={vbH} fill="oklch(0.145 0 0)" />
+      {members.map((door, i) => {
+        const left = x
+        x += widths[i] + spacing
+        const top = floorY - group.floorGap - door.config.doorHeight
+        const reached = gapHeight(door.config, group.gap, group.floorGap)
+        const onDatum = reached !== null && Math.abs(reached - group.datum) < 0.5
+        return (
+          <g key={door.id}>
+            {pairLeaves(door.config).map((leaf, li) => {
+              const c = leaf.config
+              const leafX = left + li * c.doorWidth
+              const cuts = calculateCuts(c, units)
+              return (
+                <g key={leaf.side}>
+                  <rect x={leafX} y={top} width={c.doorWidth} height={c.doorHeight} fill="oklch(0.205 0 0)" stroke="oklch(0.4 0 0)" strokeWidth={3} />
+                  {cuts.panelUnits.map((u) => (
+                    <g key={`${u.row}-${u.column}`}>
+                      <path d={unitOutlinePath(c, u, leafX + u.x, top + u.y, 0)} fill="oklch(0.35 0.05 50)" stroke="oklch(0.5 0.07 50)" strokeWidth={2} />
+                      <path d={unitOutlinePath(c, u, leafX + u.x, top + u.y, c.beadingWidth)} fill={u.infill === 'glass' ? glassFill : u.infill === 'mdf' ? 'oklch(0.3 0.02 90)' : 'oklch(0.205 0 0)'} />
+                    </g>
+                  ))}
+                </g>
+              )
+            })}
+            {reached !== null && (
+              <line
+                x1={left - 20}
+                y1={floorY - reached}
+                x2={left + widths[i] + 20}
+                y2={floorY - reached}
+                stroke={onDatum ? lineColor : 'oklch(0.65 0.2 25)'}
+                strokeWidth={4}
+              />
+            )}
+            <text x={left + widths[i] / 2} y={floorY + fontSize * 1.4} textAnchor="middle" fontSize={fontSize} fontFamily="monospace" fill="oklch(0.8 0 0)">
+              {door.name}
+            </text>
+            {!onDatum && (
+              <text x={left + widths[i] / 2} y={floorY + fontSize * 2.6} textAnchor="middle" fontSize={fontSize * 0.8} fontFamily="monospace" fill="oklch(0.65 0.2 25)">
+                {reached === null ? 'no such gap' : `${formatLength(reached, units)} ${unitSuffix(units)}`}
+              </text>
+            )}
+          </g>
+        )
+      })}
+      <line x1={padding / 2} y1={floorY} x2={vbW - padding / 2} y2={floorY} stroke="oklch(0.6 0 0)" strokeWidth={3} />
+      <line x1={padding / 2} y1={datumY} x2={vbW - padding / 2} y2={datumY} stroke={lineColor} strokeWidth={2} strokeDasharray="16 10" />
+      <text x={padding / 2} y={datumY - 10} fontSize={fontSize} fontFamily="monospace" fill={lineColor}>
+        {formatLength(group.datum, units)} {unitSuffix(units)} from floor
+      </text>
+    </svg>
+  )
 }
 
-function formatSummaryText(name: string, c: DoorConfig, cuts: CutResult): string {
+// ── Text formatting for sharing ───────────────────────
+
+function formatSummaryText(name: string, c: DoorConfig, cuts: CutResult, units: UnitSettings, cost?: { door: DoorCost; prices: PriceSettings }): string {
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
+  const u = unitSuffix(units)
   const lines: string[] = [
     `🚪 Summary — ${name}`,
     `📅 ${formatTimestamp()}`,
     ``,
-    `Door: ${c.doorWidth} × ${c.doorHeight} mm`,
-    `Margins: T${c.topMargin} B${c.bottomMargin} L${c.leftMargin} R${c.rightMargin} mm`,
-    `Gaps: H${c.horizontalGap} V${c.verticalGap} mm`,
-    `Beading width: ${c.beadingWidth} mm`,
-    `Panel–beading gap: ${cuts.panelBeadingGap} mm`,
-    `Handle: ${c.handleSide}, ${c.handleHeight} mm from top, ${c.handleSpread} mm spread from edge`,
+    `Door: ${L(c.doorWidth)} × ${L(c.doorHeight)} ${u}${c.pair ? ' per leaf' : ''}`,
+    ...(c.back ? [`Faces: front and back, back ${c.back.layout === 'custom' ? 'with its own layout' : 'mirroring the front'}; handle on the ${c.pair ? 'meeting stiles' : `${c.handleSide} of the front, ${hingeSideOf(c)} of the back`}`] : []),
+    ...(c.pair ? [`Pair: ${pairLayoutLabels[c.pair.layout].toLowerCase()} layout, ${c.pair.activeLeaf} leaf active, ${L(c.pair.overlap)} ${u} meeting-stile overlap`] : []),
+    `Layout: ${cuts.rows} row${cuts.rows > 1 ? 's' : ''} × ${cuts.columns} column${cuts.columns > 1 ? 's' : ''}`,
+    `Ratios: rows ${fitRatios(c.rowRatios, cuts.rows).join('/')}, columns ${fitRatios(c.columnRatios, cuts.columns).join('/')}`,
+    `Margins: T${L(c.topMargin)} B${L(c.bottomMargin)} L${L(c.leftMargin)} R${L(c.rightMargin)} ${u}${c.pair ? ' (left leaf)' : ''}`,
+    `Gaps: H${L(c.horizontalGap)} V${L(c.verticalGap)} ${u}`,
+    ...(c.back?.layout === 'custom' && c.back.custom
+      ? [`Back face: ${c.back.custom.rows} × ${c.back.custom.columns}, margins T${L(c.back.custom.topMargin)} B${L(c.back.custom.bottomMargin)} L${L(c.back.custom.leftMargin)} R${L(c.back.custom.rightMargin)}, gaps H${L(c.back.custom.horizontalGap)} V${L(c.back.custom.verticalGap)}, beading ${L(c.back.custom.beadingWidth)} ${u} (as seen from the back)`]
+      : []),
+    `Beading width: ${L(c.beadingWidth)} ${u}`,
+    `Panel–beading gap: ${L(cuts.panelBeadingGap)} ${u}`,
+    `Handle: ${c.hardware.name} on the ${c.pair ? 'meeting stiles' : c.handleSide}, ${L(c.handleHeight)} ${u} from top, ${L(c.handleIndent)} ${u} from edge (reaches ${L(handleReach(c))} ${u})`,
+    `Hinges: ${cuts.hingeHeights.length} on the ${c.pair ? 'outer edge of each leaf' : hingeSideOf(c)}, ${L(c.hingeLength)} × ${L(c.hingeLeafWidth)} ${u}, centres ${cuts.hingeHeights.map((h) => L(h)).join(' / ')} ${u} from top`,
+    ...(c.links.length > 0 ? [`Links: ${c.links.map((l) => formatLink(l, units)).join('; ')}`] : []),
+    ...(c.pin ? [`Locked: ${solveOutputLabel(c.pin, cuts)} ${L(c.pin.target)} ${u}, solving for ${solveInputs[c.pin.input].label.toLowerCase()}`] : []),
     ``,
     `📐 MDF Panels`,
-    `  Top panels (×2): ${cuts.panelWidth} × ${cuts.topPanelHeight} mm`,
-    `  Bottom panels (×2): ${cuts.panelWidth} × ${cuts.bottomPanelHeight} mm`,
+    ...cuts.panelCuts.map((p) => `  ${p.label} (×${p.qty}): ${L(p.width)} × ${L(p.height)} ${u}`),
+    ``,
+    `✂️ Beading (${jointDescription(c)}, long-point → short-point)`,
+    ...cuts.beadingCuts.map((b) =>
+      b.cutLength !== b.longPoint
+        ? `  ${beadingCutName(b)} (×${b.qty}, ${pieceJointName(b, c)}): cut ${L(b.cutLength)}, trim to ${L(b.longPoint)} → ${L(b.shortPoint)} ${u}  [${b.formula}]`
+        : `  ${beadingCutName(b)} (×${b.qty}, ${pieceJointName(b, c)}): ${L(b.longPoint)} → ${L(b.shortPoint)} ${u}  [${b.formula}]`
+    ),
     ``,
-    `✂️ Beading (45° mitres, long-point → short-point)`,
-    `  Top horizontal (×4): ${cuts.topHorizontalBeading} → ${cuts.topHorizontalBeadingShort} mm`,
-    `  Top vertical (×4): ${cuts.topVerticalBeading} → ${cuts.topVerticalBeadingShort} mm`,
-    `  Bottom horizontal (×4): ${cuts.bottomHorizontalBeading} → ${cuts.bottomHorizontalBeadingShort} mm`,
-    `  Bottom vertical (×4): ${cuts.bottomVerticalBeading} → ${cuts.bottomVerticalBeadingShort} mm`,
+    `🪚 Saw settings`,
+    ...sawSettings(c).map((s) => `  ${s}`),
+    ...(cuts.arches.length > 0
+      ? [
+          ``,
+          `⌒ Arched tops (flexible beading, long-point → short-point)`,
+          ...cuts.arches.flatMap((a) => [
+            `  ${a.group || 'Panels'}${a.detail ? ` — ${a.detail}` : ''}: ${rowShapeLabels[a.shape].toLowerCase()}, span ${L(a.span)} × rise ${L(a.rise)} ${u}, radius ${L(a.radius)} ${u}`,
+            `    Beading (×${a.qty}): ${L(a.longPoint)} → ${L(a.shortPoint)} ${u}, mitre ${a.springMitre > 0 ? formatAngle(a.springMitre) : 'square'} at the sides${a.crownMitre > 0 ? `, ${formatAngle(a.crownMitre)} at the crown` : ''}`,
+            `    Panel template: radius ${L(a.template.radius)}, chord ${L(a.template.chord)}, rise ${L(a.template.rise)}, sides ${L(a.template.sideHeight)} ${u}`,
+          ]),
+        ]
+      : []),
+    ...(cuts.shape && c.edges
+      ? [
+          ``,
+          `📐 Out of square (measured ${L(c.edges.topWidth)}/${L(c.edges.bottomWidth)} wide, ${L(c.edges.leftHeight)}/${L(c.edges.rightHeight)} high${cuts.shape.shape.fromDiagonals ? `, diagonals ${L(c.edges.diagonalDown)}/${L(c.edges.diagonalUp)}` : ''} ${u})`,
+          `  Corners TL/TR/BR/BL: ${cuts.shape.cornerAngles.map((a) => `${a}°`).join(' / ')}`,
+          ...cuts.shape.pieces.map((p) => `  ${p.unit} ${p.edge}: ${L(p.longPoint)} → ${L(p.shortPoint)} ${u} (${p.change >= 0 ? '+' : ''}${L(p.change)})`),
+          ...cuts.shape.panels.map((p) => `  ${p.unit} panel: ${L(p.topWidth)}/${L(p.bottomWidth)} × ${L(p.leftHeight)}/${L(p.rightHeight)} ${u}`),
+        ]
+      : []),
     ``,
+    ...(cuts.glazing.length > 0
+      ? [
+          `🪟 Glass to order (${L(c.glazingClearance)} ${u} clearance all round)`,
+          ...cuts.glazing.map((g) => `  ${g.group || 'Panels'}${g.detail ? ` — ${g.detail}` : ''} (×${g.qty}): ${L(g.glassWidth)} × ${L(g.glassHeight)} ${u}${g.shaped ? ', shaped to the arch template' : ''}`),
+          `  Door cut-outs: ${cuts.glazing.map((g) => `${L(g.cutOutWidth)} × ${L(g.cutOutHeight)} ${u} (×${g.qty})`).join(', ')}`,
+          `  Glazing bead (${L(c.glazingBeadWidth)} ${u}, long-point → short-point):`,
+          ...cuts.glazingBeadCuts.map((b) => `    ${beadingCutName(b)} (×${b.qty}, ${pieceJointName(b, c)}): ${L(b.longPoint)} → ${L(b.shortPoint)} ${u}`),
+          ...cuts.glazing.flatMap((g) => (g.arch ? [`    ${glazingArchName(g)}, flexible (×${g.arch.qty}, ${archMitres(g.arch)}): ${L(g.arch.longPoint)} → ${L(g.arch.shortPoint)} ${u}`] : [])),
+          ``,
+        ]
+      : []),
     `📦 Totals`,
-    `  MDF panels: 4 pieces`,
-    `  Beading: 16 pieces`,
-    `  Total beading: ${(
-      cuts.topHorizontalBeading * 4 +
-      cuts.topVerticalBeading * 4 +
-      cuts.bottomHorizontalBeading * 4 +
-      cuts.bottomVerticalBeading * 4
-    ).toFixed(0)} mm`,
+    `  MDF panels: ${cuts.panelCount} pieces`,
+    `  Beading: ${cuts.beadingCount} pieces`,
+    `  Total beading: ${L(cuts.totalBeadingLength, 0)} ${u}`,
+    `  Beading stock to buy: ${L(cuts.beadingStockLength, 0)} ${u} (kerf ${L(c.sawKerf)} ${u}, trim ${L(c.trimAllowance)} ${u} per piece${c.oversizeToFit ? ', cut oversize' : ''})`,
+    ...(cuts.glazingBeadCount > 0 ? [`  Glazing bead to buy: ${L(cuts.glazingBeadStockLength, 0)} ${u} (${cuts.glazingBeadCount} pieces)`] : []),
+    ``,
+    `📏 Rounding: ${formatRoundingPolicy(c, units)}`,
+    `  Tolerance: panels ${formatBand(cuts.rounding.panelBand, units)}, beading ${formatBand(cuts.rounding.beadingBand, units)}`,
+    `  Slack across each row: beading ${formatSlack(cuts.rounding.acrossRow, units)} (right margin), panels ${formatSlack(cuts.rounding.panelAcrossRow, units)} (reveals)`,
+    `  Slack down each column: beading ${formatSlack(cuts.rounding.downColumn, units)} (bottom margin)`,
     ``,
     `📌 Fitting Guide (pin positions from door edges)`,
     ...cuts.unitPositions.map(up =>
-      `  ${up.label}: top beading at Y=${up.pinY} mm, pin at (${up.pinX}, ${up.pinY}) mm`
+      `  ${up.label}: top beading at Y=${L(up.pinY)} ${u}, pin at (${L(up.pinX)}, ${L(up.pinY)}) ${u}`
     ),
   ]
+  if (cost) lines.push(``, ...formatDoorCostText(cost.door, cost.prices))
   return lines.join('\n')
 }
 
-function formatCompactText(name: string, c: DoorConfig, cuts: CutResult): string {
+function formatCompactText(name: string, c: DoorConfig, cuts: CutResult, units: UnitSettings): string {
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
   return [
     `${name} (${formatTimestamp()})`,
-    `${c.doorWidth}×${c.doorHeight}`,
-    `MDF: ${cuts.panelWidth}×${cuts.topPanelHeight} (×2), ${cuts.panelWidth}×${cuts.bottomPanelHeight} (×2)`,
-    `Beading LP→SP: TH ${cuts.topHorizontalBeading}→${cuts.topHorizontalBeadingShort} (×4), TV ${cuts.topVerticalBeading}→${cuts.topVerticalBeadingShort} (×4), BH ${cuts.bottomHorizontalBeading}→${cuts.bottomHorizontalBeadingShort} (×4), BV ${cuts.bottomVerticalBeading}→${cuts.bottomVerticalBeadingShort} (×4)`,
-    `Gap: ${cuts.panelBeadingGap}mm`,
+    `${L(c.doorWidth)}×${L(c.doorHeight)}${units.system === 'imperial' ? ' in' : ''}${c.pair ? ` pair (${c.pair.layout})` : ''}`,
+    `MDF: ${cuts.panelCuts.map((p) => `${L(p.width)}×${L(p.height)} (×${p.qty})`).join(', ') || 'none'}`,
+    ...(cuts.glazing.length > 0 ? [`Glass: ${cuts.glazing.map((g) => `${L(g.glassWidth)}×${L(g.glassHeight)} (×${g.qty})`).join(', ')}`] : []),
+    `Beading LP→SP: ${cuts.beadingCuts
+      .map((b) => `${groupCode(b.group)}${b.orientation === 'horizontal' ? 'H' : 'V'}${b.detail ? ` [${b.detail}]` : ''} ${b.cutLength !== b.longPoint ? `cut ${L(b.cutLength)}, ` : ''}${L(b.longPoint)}→${L(b.shortPoint)} (×${b.qty})`)
+      .join(', ')}`,
+    `Gap: ${L(cuts.panelBeadingGap)}${units.system === 'imperial' ? ' in' : 'mm'}`,
+    `Tol: panels ${formatBand(cuts.rounding.panelBand, units)}, beading ${formatBand(cuts.rounding.beadingBand, units)}`,
+    `Stock: ${L(cuts.beadingStockLength, 0)}${units.system === 'imperial' ? ' in' : 'mm'}`,
   ].join('\n')
 }
 
-function formatAllDoorsSummary(doors: SavedDoor[]): string {
+function formatAllDoorsSummary(doors: SavedDoor[], units: UnitSettings, cost?: { project: ProjectCost; prices: PriceSettings }): string {
   const ts = formatTimestamp()
-  const sections = doors.map((door) => {
-    const cuts = calculateCuts(door.config)
+  const sections = doors.map((door, i) => {
+    const cuts = calculateDoorCuts(door.config, units)
     if (!cuts.isValid) return `🚪 ${door.name} — invalid configuration`
-    return formatSummaryText(door.name, door.config, cuts)
+    return formatSummaryText(door.name, door.config, cuts, units, cost && { door: cost.project.doors[i], prices: cost.prices })
   })
-  return [
+  const lines = [
     `📋 All Doors Summary (${doors.length} door${doors.length > 1 ? 's' : ''})`,
     `📅 ${ts}`,
     '',
     sections.join('\n\n' + '─'.repeat(40) + '\n\n'),
-  ].join('\n')
+  ]
+  if (cost) lines.push('', '─'.repeat(40), '', ...formatQuoteText(cost.project, cost.prices))
+  return lines.join('\n')
 }
 
-function CopyButton({ text, label, fullWidth }: { text: string; label: string; fullWidth?: boolean }) {
-  const [copied, setCopied] = useState(false)
+// ── Beading stock plan ─────────────────────────────────
 
-  const copy = useCallback(() => {
-    navigator.clipboard.writeText(text).then(() => {
-      setCopied(true)
-      setTimeout(() => setCopied(false), 2000)
-    })
-  }, [text])
+/** One piece per beading length to cut, including any trim waste that isn't cut oversize. */
+function beadingPieces(c: DoorConfig, cuts: CutResult, group?: string): CutPiece[] {
+  const waste = c.oversizeToFit ? 0 : c.trimAllowance
+  return cuts.beadingCuts.flatMap((b) =>
+    Array.from({ length: b.qty }, () => ({ label: beadingCutName(b), group, length: b.cutLength + waste }))
+  )
+}
 
-  return (
-    <button
-      onClick={copy}
-      tabIndex={0}
+/** The same for the straight glazing bead, a separate profile planned on its own lengths. */
+function glazingBeadPieces(c: DoorConfig, cuts: CutResult, group?: string): CutPiece[] {
+  const waste = c.oversizeToFit ? 0 : c.trimAllowance
+  return cuts.glazingBeadCuts.flatMap((b) =>
+    Array.from({ length: b.qty }, () => ({ label: beadingCutName(b), group, length: b.cutLength + waste }))
+  )
+}
+
+function formatStockPlanText(title: string, plan: CuttingPlan, kerf: number, units: UnitSettings, glazingPlan?: CuttingPlan): string {
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
+  const u = unitSuffix(units)
+  const wastePct = (p: CuttingPlan) => (p.totalStock > 0 ? (p.totalOffcut / p.totalStock) * 100 : 0)
+  const buy = (p: CuttingPlan) => p.purchase.map((s) => `${s.count} × ${L(s.stockLength)} ${u}`).join(', ') || 'nothing'
+  const bars = (p: CuttingPlan) =>
+    p.bars.map((bar, i) =>
+      `  Length ${i + 1} (${L(bar.stockLength)} ${u}): ${bar.pieces
+        .map((piece) => `${piece.group ? `${piece.group} ` : ''}${piece.label} ${L(piece.length)}`)
+        .join(', ')} — offcut ${L(bar.offcut, 0)} ${u}`
+    )
+  const unplaced = (p: CuttingPlan) =>
+    p.unplaced.length > 0 ? [`⚠️ Longer than any stock length: ${p.unplaced.map((piece) => `${piece.label} ${L(piece.length)}`).join(', ')}`] : []
+  const lines: string[] = [
+    `🪵 Beading Stock Plan — ${title}`,
+    `📅 ${formatTimestamp()}`,
+    ``,
+    `Buy: ${buy(plan)}`,
+    `Kerf: ${L(kerf)} ${u}`,
+    ``,
+    ...bars(plan),
+    ``,
+    `Total offcut waste: ${L(plan.totalOffcut, 0)} ${u} (${wastePct(plan).toFixed(1)}%)`,
+    ...unplaced(plan),
+  ]
+  if (glazingPlan && glazingPlan.bars.length + glazingPlan.unplaced.length > 0) {
+    lines.push(
+      ``,
+      `🪟 Glazing bead — buy: ${buy(glazingPlan)}`,
+      ...bars(glazingPlan),
+      `Offcut waste: ${L(glazingPlan.totalOffcut, 0)} ${u} (${wastePct(glazingPlan).toFixed(1)}%)`,
+      ...unplaced(glazingPlan)
+    )
+  }
+  return lines.join('\n')
+}
+
+function StockPlanBars({ plan, units }: { plan: CuttingPlan; units: UnitSettings }) {
+  const longest = Math.max(...plan.bars.map((b) => b.stockLength), 1)
+  return (
+    <div className="flex flex-col gap-1.5">
+      {plan.bars.map((bar, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <span className="text-[10px] text-muted-foreground font-mono w-6 shrink-0">#{i + 1}</span>
+          <div
+            className="flex h-5 rounded overflow-hidden border border-border"
+            style={{ width: `${(bar.stockLength / longest) * 100}%` }}
+            title={`${formatLength(bar.stockLength, units)} ${unitSuffix(units)}`}
+          >
+            {bar.pieces.map((p, pi) => (
+              <div
+                key={pi}
+                className="h-full bg-amber-500/30 border-r border-background text-[9px] leading-5 px-1 truncate text-amber-200"
+                style={{ width: `${(p.length / bar.stockLength) * 100}%` }}
+                title={`${p.group ? `${p.group} — ` : ''}${p.label}: ${formatLength(p.length, units)} ${unitSuffix(units)}`}
+              >
+                {formatLength(p.length, units, 0)}
+              </div>
+            ))}
+            <div className="h-full flex-1 bg-muted/30 text-[9px] leading-5 px-1 truncate text-muted-foreground">
+              {bar.offcut > 0 ? formatLength(bar.offcut, units, 0) : ''}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// ── MDF sheet plan ─────────────────────────────────────
+
+/** One piece per MDF panel, with the panel height running along the sheet length. */
+function panelPieces(cuts: CutResult, group?: string): SheetPiece[] {
+  return cuts.panelUnits
+    .filter((u) => u.infill === 'mdf')
+    .map((u) => ({ label: u.label, group, length: u.panelHeight, width: u.panelWidth }))
+}
+
+function formatSheetPlanText(plan: NestingPlan, kerf: number, grainLock: boolean, units: UnitSettings): string {
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
+  const u = unitSuffix(units)
+  const lines: string[] = [
+    `🪚 MDF Sheet Plan`,
+    `📅 ${formatTimestamp()}`,
+    ``,
+    `Sheets: ${plan.sheets.length} × ${L(plan.sheetLength)} × ${L(plan.sheetWidth)} ${u}`,
+    `Kerf: ${L(kerf)} ${u}${grainLock ? ' · grain locked (no rotation)' : ''}`,
+    `Utilisation: ${(plan.utilisation * 100).toFixed(1)}%`,
+    ``,
+    ...plan.sheets.map((sheet, i) =>
+      `  Sheet ${i + 1}: ${sheet.placements
+        .map((p) => `${p.piece.group ? `${p.piece.group} ` : ''}${p.piece.label} ${L(p.piece.width)} × ${L(p.piece.length)}${p.rotated ? ' (turned)' : ''}`)
+        .join(', ')}`
+    ),
+  ]
+  if (plan.unplaced.length > 0) {
+    lines.push(``, `⚠️ Larger than a sheet: ${plan.unplaced.map((p) => `${p.label} ${L(p.width)} × ${L(p.length)}`).join(', ')}`)
+  }
+  return lines.join('\n')
+}
+
+function SheetDiagram({ plan, units }: { plan: NestingPlan; units: UnitSettings }) {
+  const { sheetLength, sheetWidth } = plan
+  const fontSize = Math.max(sheetWidth, sheetLength / 2) / 24
+  return (
+    <div className="flex flex-col gap-2">
+      {plan.sheets.map((sheet, i) => (
+        <div key={i}>
+          <div className="flex justify-between text-[10px] text-muted-foreground font-mono mb-0.5">
+            <span>Sheet {i + 1}</span>
+            <span>{((sheet.usedArea / (sheetLength * sheetWidth)) * 100).toFixed(1)}% used</span>
+          </div>
+          <svg viewBox={`0 0 ${sheetLength} ${sheetWidth}`} className="w-full rounded border border-border">
+            <rect x={0} y={0} width={sheetLength} height={sheetWidth} fill="oklch(0.205 0 0)" />
+            {sheet.placements.map((p, pi) => (
+              <g key={pi}>
+                <rect
+                  x={p.x}
+                  y={p.y}
+                  width={p.length}
+                  height={p.width}
+                  fill="oklch(0.3 0.02 90)"
+                  stroke="oklch(0.45 0.03 90)"
+                  strokeWidth={fontSize / 8}
+                >
+                  <title>{`${p.piece.group ? `${p.piece.group} — ` : ''}${p.piece.label}: ${formatLength(p.piece.width, units)} × ${formatLength(p.piece.length, units)} ${unitSuffix(units)}`}</title>
+                </rect>
+                {p.width > fontSize * 2.5 && p.length > fontSize * 3 && (
+                  <text
+                    x={p.x + p.length / 2}
+                    y={p.y + p.width / 2}
+                    textAnchor="middle"
+                    fontSize={fontSize}
+                    fontFamily="monospace"
+                    fill="oklch(0.8 0.05 90)"
+                  >
+                    <tspan x={p.x + p.length / 2} dy={-fontSize * 0.2}>
+                      {p.piece.group ? `${p.piece.group} ` : ''}{p.piece.label}
+                    </tspan>
+                    <tspan x={p.x + p.length / 2} dy={fontSize * 1.2} fill="oklch(0.6 0.03 90)">
+                      {formatLength(p.piece.width, units, 0)} × {formatLength(p.piece.length, units, 0)}
+                    </tspan>
+                  </text>
+                )}
+              </g>
+            ))}
+          </svg>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// ── Copy and save buttons ──────────────────────────────
+
+function CopyButton({ text, label, fullWidth }: { text: string; label: string; fullWidth?: boolean }) {
+  const [copied, setCopied] = useState(false)
+
+  const copy = useCallback(() => {
+    navigator.clipboard.writeText(text).then(() => {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    })
+  }, [text])
+
+  return (
+    <button
+      onClick={copy}
+      tabIndex={0}
       data-card-tabbable
       className={`inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all duration-200 ${
         fullWidth ? 'w-full mt-1' : ''
@@ -1242,27 +2214,387 @@ function CopyButton({ text, label, fullWidth }: { text: string; label: string; f
   )
 }
 
+/** Save through the main process, which asks where; `onSave` resolves to the saved path, or null if cancelled. */
+function NativeSaveButton({ onSave, label, icon: Icon = Download, fullWidth }: { onSave: () => Promise<string | null>; label: string; icon?: LucideIcon; fullWidth?: boolean }) {
+  const [state, setState] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle')
+
+  const save = () => {
+    setState('saving')
+    onSave()
+      .then((path) => setState(path ? 'saved' : 'idle'), () => setState('failed'))
+      .finally(() => setTimeout(() => setState('idle'), 2000))
+  }
+
+  return (
+    <button
+      onClick={save}
+      disabled={state === 'saving'}
+      tabIndex={0}
+      data-card-tabbable
+      className={`inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all duration-200 ${
+        fullWidth ? 'w-full mt-1' : ''
+      } ${
+        state === 'saved'
+          ? 'bg-green-500/15 text-green-400 border border-green-500/30'
+          : state === 'failed'
+            ? 'bg-red-500/15 text-red-400 border border-red-500/30'
+            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80 border border-border'
+      }`}
+    >
+      {state === 'saved' ? (
+        <><Check className="h-3 w-3" /> Saved</>
+      ) : (
+        <><Icon className="h-3 w-3" /> {state === 'saving' ? 'Saving…' : state === 'failed' ? 'Couldn’t save' : label}</>
+      )}
+    </button>
+  )
+}
+
+/** Save a workshop sheet or template through the main process, which prints it to PDF. */
+function PdfButton({ html, fileName, paper, label, fullWidth }: { html: () => string; fileName: string; paper: PaperSize; label: string; fullWidth?: boolean }) {
+  return (
+    <NativeSaveButton
+      onSave={() => window.api.printToPdf({ html: html(), fileName, pageSize: paper })}
+      label={label}
+      icon={Printer}
+      fullWidth={fullWidth}
+    />
+  )
+}
+
+// ── Vector export ──────────────────────────────────────
+
+const vectorLayers: VectorLayer[] = [
+  { name: 'DOOR', color: 7, stroke: '#000000' },
+  { name: 'BEADING', color: 30, stroke: '#b06a10' },
+  { name: 'PANELS', color: 5, stroke: '#1f4fd1' },
+  { name: 'GLAZING', color: 4, stroke: '#0f8a9a' },
+  { name: 'HARDWARE', color: 8, stroke: '#666666' },
+  { name: 'OVERLAY', color: 1, stroke: '#d11f1f' },
+]
+
+/** A rectangle with fully rounded ends, as backplates are drawn, or a circle when square. */
+function stadiumPoints(cx: number, cy: number, width: number, height: number): VectorPoint[] {
+  const r = Math.min(width, height) / 2
+  const [dx, dy] = [width / 2 - r, height / 2 - r]
+  // Clockwise round the page, each end a half turn
+  return height >= width
+    ? [{ x: cx - r, y: cy + dy }, { x: cx - r, y: cy - dy, bulge: -1 }, { x: cx + r, y: cy - dy }, { x: cx + r, y: cy + dy, bulge: -1 }]
+    : [{ x: cx - dx, y: cy + r, bulge: -1 }, { x: cx - dx, y: cy - r }, { x: cx + dx, y: cy - r, bulge: -1 }, { x: cx + dx, y: cy + r }]
+}
+
+/**
+ * One face as a vector drawing in real millimetres, leaves side by side: door edges, beading
+ * outlines, MDF panels, glass cut-outs and hardware on their own layers. On a measured door
+ * every point follows the real shape. The overlay layer adds the margins, pin positions,
+ * handle reach and hinge clearances, and any warnings under the door.
+ */
+function doorVectorDrawing(c: DoorConfig, units: UnitSettings, overlays: boolean): VectorDrawing {
+  const leaves = pairLeaves(c)
+  const L = (mm: number) => `${formatLength(mm, units)} ${unitSuffix(units)}`
+  const textHeight = 12
+  const entities: VectorEntity[] = []
+  const warnings: string[] = []
+
+  leaves.forEach((leaf, li) => {
+    const lc = leaf.config
+    const cuts = calculateCuts(lc, units)
+    const left = li * lc.doorWidth
+    const shape = cuts.shape?.shape
+    const real = (p: VectorPoint): VectorPoint => {
+      const q = shape ? mapPoint(shape, { x: (p.x / lc.doorWidth) * shape.width, y: (p.y / lc.doorHeight) * shape.height }) : p
+      return { ...p, x: left + q.x, y: q.y }
+    }
+    const polyline = (layer: string, points: VectorPoint[], dashed?: boolean) =>
+      entities.push({ kind: 'polyline', layer, points: points.map(real), closed: true, dashed })
+    const circle = (layer: string, x: number, y: number, r: number) => {
+      const centre = real({ x, y })
+      entities.push({ kind: 'circle', layer, x: centre.x, y: centre.y, r })
+    }
+    const rect = (x: number, y: number, w: number, h: number): VectorPoint[] =>
+      [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }]
+
+    polyline('DOOR', rect(0, 0, lc.doorWidth, lc.doorHeight))
+    cuts.panelUnits.forEach((u) => {
+      polyline('BEADING', unitOutlinePoints(lc, u, u.x, u.y, 0))
+      polyline('BEADING', unitOutlinePoints(lc, u, u.x, u.y, lc.beadingWidth))
+      if (u.infill === 'mdf') polyline('PANELS', unitOutlinePoints(lc, u, u.x, u.y, lc.beadingWidth + cuts.panelBeadingGap))
+      if (u.infill === 'glass') {
+        polyline('GLAZING', unitOutlinePoints(lc, u, u.x, u.y, lc.beadingWidth - lc.glazingRebate))
+        polyline('GLAZING', unitOutlinePoints(lc, u, u.x, u.y, lc.beadingWidth - lc.glazingRebate + lc.glazingClearance), true)
+      }
+    })
+
+    const item = lc.hardware
+    const hx = lc.handleSide === 'left' ? lc.handleIndent : lc.doorWidth - lc.handleIndent
+    const hy = lc.handleHeight
+    if (item.kind === 'pull-bar') {
+      ;[-1, 1].forEach((end) => circle('HARDWARE', hx, hy + (end * (item.gripLength - item.plateHeight)) / 2, item.plateWidth / 2))
+    } else if (hasRose(item.kind)) {
+      circle('HARDWARE', hx, hy, item.plateWidth / 2)
+    } else {
+      polyline('HARDWARE', stadiumPoints(hx, hy, item.plateWidth, item.plateHeight))
+    }
+    circle('HARDWARE', hx, hy, 4)
+    if (item.keyhole) circle('HARDWARE', hx, item.kind === 'escutcheon' ? hy : hy + item.plateHeight * 0.28, 5)
+    const hingeX = hingeSideOf(lc) === 'left' ? 0 : lc.doorWidth - lc.hingeLeafWidth
+    cuts.hingeHeights.forEach((h) => polyline('HARDWARE', rect(hingeX, h - lc.hingeLength / 2, lc.hingeLeafWidth, lc.hingeLength)))
+
+    if (!overlays) return
+    polyline('OVERLAY', rect(lc.leftMargin, lc.topMargin, lc.doorWidth - lc.leftMargin - lc.rightMargin, lc.doorHeight - lc.topMargin - lc.bottomMargin), true)
+    cuts.unitPositions.forEach((p) => circle('OVERLAY', p.pinX, p.pinY, 2))
+    const reach = handleReach(lc)
+    const f = hardwareFootprint(item)
+    polyline('OVERLAY', rect(lc.handleSide === 'left' ? 0 : lc.doorWidth - reach, hy - f.up, reach, f.up + f.down), true)
+    cuts.hingeHeights.forEach((h) =>
+      polyline('OVERLAY', rect(
+        hingeSideOf(lc) === 'left' ? 0 : lc.doorWidth - lc.hingeLeafWidth - hingeMitreClearance,
+        h - lc.hingeLength / 2 - hingeMitreClearance,
+        lc.hingeLeafWidth + hingeMitreClearance,
+        lc.hingeLength + 2 * hingeMitreClearance
+      ), true)
+    )
+    const tag = c.pair ? `${leaf.side[0].toUpperCase()}${leaf.side.slice(1)} leaf: ` : ''
+    warnings.push(...cuts.diagnostics.map((d) => `${tag}${d.message}`))
+  })
+
+  const width = c.doorWidth * leaves.length
+  const notes = overlays
+    ? [`${L(c.doorWidth)} × ${L(c.doorHeight)}${c.pair ? ' per leaf' : ''}; margins T${L(c.topMargin)} B${L(c.bottomMargin)} L${L(c.leftMargin)} R${L(c.rightMargin)}`, ...warnings]
+    : []
+  notes.forEach((text, i) => entities.push({ kind: 'text', layer: 'OVERLAY', x: 0, y: c.doorHeight + textHeight * 2 * (i + 1), height: textHeight, text }))
+  return {
+    width,
+    height: c.doorHeight + textHeight * 2 * (notes.length + (notes.length > 0 ? 1 : 0)),
+    layers: vectorLayers,
+    entities,
+  }
+}
+
 // ── Main Component ─────────────────────────────────────
 
 export function DoorCalculator() {
-  const [doors, setDoors] = usePersistedState<SavedDoor[]>('door-calculator-doors', initialDoors)
+  const [storedDoors, setDoors] = usePersistedState<SavedDoor[]>('door-calculator-doors', initialDoors)
+  const doors = useMemo(() => storedDoors.map(normalizeDoor), [storedDoors])
   const [activeDoorId, setActiveDoorId] = usePersistedState<string>('door-calculator-active', initialDoors[0].id)
   const [editingName, setEditingName] = useState<string | null>(null)
   const [editNameValue, setEditNameValue] = useState('')
+  const [importReport, setImportReport] = useState<{ added: number; errors: DoorImportError[] } | null>(null)
+  const importInput = useRef<HTMLInputElement>(null)
   const [activeGuide, setActiveGuide] = useState<DiagnosticGuide>(null)
   const [previewOpen, setPreviewOpen] = usePersistedState<boolean>('door-calculator-preview-open', true)
+  const [exportOverlays, setExportOverlays] = usePersistedState<boolean>('door-calculator-export-overlays', false)
+  const [units, setUnits] = usePersistedState<UnitSettings>('unit-settings', defaultUnits)
+  const [stock, setStock] = usePersistedState<StockSettings>('door-calculator-stock', defaultStock)
+  const [sheet, setSheet] = usePersistedState<SheetSettings>('door-calculator-sheet', defaultSheet)
+  const [hardwareLibrary, setHardwareLibrary] = usePersistedState<HardwareItem[]>('door-hardware-library', [])
+  const hardwareOptions = [...builtInHardware, ...hardwareLibrary]
+  const [storedPrices, setPrices] = usePersistedState<PriceSettings>('door-calculator-prices', defaultPrices)
+  const prices = useMemo(() => ({ ...defaultPrices, ...storedPrices }), [storedPrices])
+  const [alignGroups, setAlignGroups] = usePersistedState<AlignmentGroup[]>('door-calculator-alignment', [])
+  const [paper, setPaper] = usePersistedState<PaperSize>('door-calculator-paper', 'A4')
+  const u = unitSuffix(units)
+  const L = (mm: number, decimals?: number) => formatLength(mm, units, decimals)
 
   const activeDoor = doors.find((d) => d.id === activeDoorId) ?? doors[0]
-  const config = activeDoor.config
-  const cuts = useMemo(() => calculateCuts(config), [config])
+  const [face, setFace] = useState<'front' | 'back'>('front')
+  const door = activeDoor.config
+  const viewFace = door.back ? face : 'front'
+  // Only a custom back has settings of its own; a mirrored back is edited through the front
+  const editFace = door.back?.layout === 'custom' ? viewFace : 'front'
+  const config = useMemo(() => (editFace === 'back' ? backFaceConfig(door) : door), [door, editFace])
+  const leaves = useMemo(() => pairLeaves(config), [config])
+  const leafCuts = useMemo(() => leaves.map((leaf) => calculateCuts(leaf.config, units)), [leaves, units])
+  // The face being edited: a pair's leaves share one cut list and one set of diagnostics
+  const cuts = useMemo(() => combineLeafCuts(config, leaves, leafCuts), [config, leaves, leafCuts])
+  const viewConfig = useMemo(() => (viewFace === editFace ? config : backFaceConfig(door)), [viewFace, editFace, config, door])
+  const viewLeaves = useMemo(() => (viewConfig === config ? leaves : pairLeaves(viewConfig)), [viewConfig, config, leaves])
+  const viewLeafCuts = useMemo(
+    () => (viewLeaves === leaves ? leafCuts : viewLeaves.map((leaf) => calculateCuts(leaf.config, units))),
+    [viewLeaves, leaves, leafCuts, units]
+  )
+  // The whole door, both faces, for the cut list and summary
+  const doorCuts = useMemo(() => (door.back ? calculateDoorCuts(door, units) : cuts), [door, units, cuts])
+  const activeGroup = groupOfDoor(alignGroups, activeDoor.id)
+
+  /** Apply one edit to a face, keeping links and any locked result in step. */
+  const applyEdit = <K extends keyof DoorConfig>(prevConfig: DoorConfig, key: K, value: DoorConfig[K]): DoorConfig => {
+    let next: DoorConfig = { ...prevConfig, [key]: value }
+    if (next.edges) {
+      // Measured edges set the nominal size the layout is worked out on
+      next.doorWidth = (next.edges.topWidth + next.edges.bottomWidth) / 2
+      next.doorHeight = (next.edges.leftHeight + next.edges.rightHeight) / 2
+    }
+    // New or edited links take effect straight away, driven from their source fields
+    next = applyLinks(next, key === 'links' ? next.links.map((l) => l.source) : [key])
+    if (next.pin && solveInputs[next.pin.input].keys.some((k) => next[k] !== prevConfig[k])) {
+      // Setting the solved input by hand, directly or through a link, releases the lock
+      next.pin = null
+    } else if (next.pin) {
+      const solved = solvePin(next, units)
+      if (solved.ok) next = solved.config
+    }
+    return next
+  }
 
-  const update = <K extends keyof DoorConfig>(key: K, value: DoorConfig[K]) => {
+  const update = <K extends keyof DoorConfig>(key: K, value: DoorConfig[K], target: 'front' | 'back' = editFace) => {
+    // Setting an aligned field by hand takes the door out of its group; any other edit is realigned
+    const group = groupOfDoor(alignGroups, activeDoor.id)
+    const released = group && target === 'front' && alignedFields(group).includes(key)
+    if (released) leaveGroup(activeDoor.id)
     setDoors((prev) =>
-      prev.map((d) => (d.id === activeDoor.id ? { ...d, config: { ...d.config, [key]: value } } : d))
+      prev.map((d) => {
+        if (d.id !== activeDoor.id) return d
+        const front = normalizeDoor(d).config
+        if (target === 'back' && front.back && isFaceLayoutKey(key)) {
+          const back = applyEdit(backFaceConfig(front), key, value)
+          return { ...d, config: { ...front, back: { ...front.back, custom: pickFaceLayout(back) } } }
+        }
+        const next = applyEdit(front, key, target === 'back' && front.back ? frontValue(front, key, value) : value)
+        return { ...d, config: group && !released ? alignToDatum(next, group) ?? next : next }
+      })
     )
     setActiveGuide(keyToGuide[key] ?? null)
   }
 
+  /** Change a group and move every member door onto its datum. */
+  const updateGroup = (id: string, changes: Partial<AlignmentGroup>) => {
+    const group = alignGroups.find((g) => g.id === id)
+    if (!group) return
+    const next = { ...group, ...changes }
+    // A door belongs to one group at a time
+    setAlignGroups((prev) =>
+      prev.map((g) => (g.id === id ? next : { ...g, doorIds: g.doorIds.filter((d) => !next.doorIds.includes(d)) }))
+    )
+    setDoors((prev) =>
+      prev.map((d) => (next.doorIds.includes(d.id) ? { ...d, config: alignToDatum(normalizeDoor(d).config, next) ?? d.config } : d))
+    )
+  }
+
+  const createGroup = () => {
+    const floorGap = 10
+    const group: AlignmentGroup = {
+      id: crypto.randomUUID(),
+      name: `Landing ${alignGroups.length + 1}`,
+      doorIds: [activeDoor.id],
+      gap: 0,
+      // Start from where this door's first gap already is
+      datum: Math.round(gapHeight(door, 0, floorGap) ?? 1000),
+      floorGap,
+      adjust: 'ratios',
+    }
+    setAlignGroups((prev) => [...prev.map((g) => ({ ...g, doorIds: g.doorIds.filter((d) => d !== activeDoor.id) })), group])
+  }
+
+  const leaveGroup = (doorId: string) =>
+    setAlignGroups((prev) => prev.map((g) => ({ ...g, doorIds: g.doorIds.filter((d) => d !== doorId) })).filter((g) => g.doorIds.length > 0))
+
+  const oversized = cuts.totalBeadingLength !== cuts.idealBeadingLength
+  const solveStatus = config.pin ? solvePin(config, units) : null
+  const [linkDraft, setLinkDraft] = useState<{ target: LinkableField; source: LinkableField }>({ target: 'rightMargin', source: 'leftMargin' })
+  /** Link and lock indicators for a field's SliderInput. */
+  const marks = (key: keyof DoorConfig) => {
+    const links = config.links.filter((l) => l.target === key || l.source === key)
+    const issues = cuts.diagnostics.filter((d) => d.fields.includes(key))
+    return {
+      issue: issues.some((d) => d.severity === 'error') ? 'error' as const : issues.length > 0 ? 'warning' as const : undefined,
+      link: links.length > 0 ? links.map((l) => formatLink(l, units)).join('\n') : undefined,
+      lock: config.pin && solveInputs[config.pin.input].keys.includes(key)
+        ? `Solved to hold the ${solveOutputLabel(config.pin, cuts)}`
+        : activeGroup && editFace === 'front' && alignedFields(activeGroup).includes(key)
+          ? `Aligned with ${activeGroup.name}: set by the datum`
+          : undefined,
+    }
+  }
+  const [solveDraft, setSolveDraft] = useState<Omit<SolvePin, 'target'>>({ output: 'panelBeadingGap', index: 0, input: 'mdfPanelWidth' })
+  const solveChoice = config.pin ?? solveDraft
+  const chooseSolve = (choice: Partial<Omit<SolvePin, 'target'>>) => {
+    const next = { ...solveChoice, ...choice }
+    if (config.pin) update('pin', { ...config.pin, ...choice, target: choice.output || choice.index !== undefined ? readSolveOutput({ ...next, target: 0 }, cuts) : config.pin.target })
+    else setSolveDraft(next)
+  }
+  const handleWarnings = cuts.diagnostics.filter((d) => d.part === 'Handle')
+  const hingeWarnings = cuts.diagnostics.filter((d) => d.part?.startsWith('Hinge'))
+  const applyFix = (d: Diagnostic) => d.fix && update(d.fix.field, d.fix.value, d.face ?? 'front')
+  const focusDiagnostic = (d: Diagnostic) => setActiveGuide(keyToGuide[d.fields[0]] ?? null)
+
+  const stockPlan = useMemo(() => {
+    const sources = stock.scope === 'all' ? doors : [activeDoor]
+    const pieces = sources.flatMap((d) => {
+      const dc = calculateDoorCuts(d.config, units)
+      return dc.isValid ? beadingPieces(d.config, dc, stock.scope === 'all' ? d.name : undefined) : []
+    })
+    return planCuts(pieces, stock.lengths, config.sawKerf)
+  }, [stock, doors, activeDoor, config.sawKerf, units])
+
+  // Glazing bead is a different profile, so it gets lengths of its own
+  const glazingPlan = useMemo(() => {
+    const sources = stock.scope === 'all' ? doors : [activeDoor]
+    const pieces = sources.flatMap((d) => {
+      const dc = calculateDoorCuts(d.config, units)
+      return dc.isValid ? glazingBeadPieces(d.config, dc, stock.scope === 'all' ? d.name : undefined) : []
+    })
+    return planCuts(pieces, stock.lengths, config.sawKerf)
+  }, [stock, doors, activeDoor, config.sawKerf, units])
+
+  // Panels from every saved door share the same sheets
+  const sheetPlan = useMemo(() => {
+    const pieces = doors.flatMap((d) => {
+      const dc = calculateDoorCuts(d.config, units)
+      return dc.isValid ? panelPieces(dc, doors.length > 1 ? d.name : undefined) : []
+    })
+    return nestSheets(pieces, sheet.length, sheet.width, config.sawKerf, !sheet.grainLock)
+  }, [sheet, doors, config.sawKerf, units])
+
+  const projectCost = useMemo(() => {
+    const pieces = doors.flatMap((d) => {
+      const dc = calculateDoorCuts(d.config, units)
+      return dc.isValid ? beadingPieces(d.config, dc, d.name) : []
+    })
+    const beadingPlan = planCuts(pieces, stock.lengths, config.sawKerf)
+    return calculateProjectCost(doors, prices, beadingPlan, sheetPlan, units)
+  }, [doors, prices, stock.lengths, config.sawKerf, sheetPlan, units])
+  const activeDoorCost = projectCost.doors[doors.indexOf(activeDoor)] ?? projectCost.doors[0]
+  const setPrice = <K extends keyof PriceSettings>(key: K, value: PriceSettings[K]) =>
+    setPrices((prev) => ({ ...prev, [key]: value }))
+  const rowRatios = fitRatios(config.rowRatios, cuts.rows)
+  const columnRatios = fitRatios(config.columnRatios, cuts.columns)
+  const rowShares = ratioShares(rowRatios)
+  const columnShares = ratioShares(columnRatios)
+
+  const rowTops = fitRowTops(config.rowTops, cuts.rows)
+  const updateRowTop = (index: number, patch: Partial<RowTop>) =>
+    update('rowTops', rowTops.map((t, i) => (i === index ? { ...t, ...patch } : t)))
+
+  // One row of rounding buttons, typed per field so each only offers its own modes
+  const roundingModes = <K extends 'panelRounding' | 'beadingRounding'>(key: K, label: string, modes: DoorConfig[K][]) => (
+    <div className="flex flex-col gap-1.5">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex gap-2">
+        {modes.map((mode) => (
+          <button
+            key={mode}
+            onClick={() => update(key, mode)}
+            tabIndex={-1}
+            className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+              config[key] === mode
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+            }`}
+          >
+            {mode === 'nearest' ? 'Nearest' : mode === 'down' ? 'Always down' : 'Always up'}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+
+  const updateRatio = (key: 'rowRatios' | 'columnRatios', count: number, index: number, value: number) => {
+    const next = fitRatios(config[key], count)
+    next[index] = value
+    update(key, next)
+  }
+
   const addDoor = () => {
     const newDoor: SavedDoor = {
       id: crypto.randomUUID(),
@@ -1273,6 +2605,20 @@ export function DoorCalculator() {
     setActiveDoorId(newDoor.id)
   }
 
+  // New doors take the active door's design with the sizes from the file
+  const importDoors = (file: File) => {
+    file.text().then((text) => {
+      const imported = importDoorsCsv(text, activeDoor.config, units)
+      if (imported.doors.length > 0) {
+        setDoors((prev) => [...prev, ...imported.doors])
+        setActiveDoorId(imported.doors[0].id)
+      }
+      setImportReport({ added: imported.doors.length, errors: imported.errors })
+    }).catch(() => {
+      setImportReport({ added: 0, errors: [{ row: 0, name: file.name, message: "the file couldn't be read" }] })
+    })
+  }
+
   const deleteDoor = (id: string) => {
     if (doors.length <= 1) return
     setDoors((prev) => {
@@ -1303,7 +2649,7 @@ export function DoorCalculator() {
         <div>
           <h1 className="text-2xl font-bold tracking-tight">Door Decoration Calculator</h1>
           <p className="text-sm text-muted-foreground mt-1">
-            Calculate MDF panel sizes and mitred beading cuts for a 4-panel door design.
+            Calculate MDF panel sizes and mitred beading cuts for a panelled door design.
           </p>
         </div>
 
@@ -1339,7 +2685,7 @@ export function DoorCalculator() {
                   <span className="flex-1 min-w-0 truncate">{door.name}</span>
                 )}
                 <span className="text-[10px] text-muted-foreground font-mono shrink-0">
-                  {door.config.doorWidth}×{door.config.doorHeight}
+                  {L(door.config.doorWidth)}×{L(door.config.doorHeight)}
                 </span>
                 <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
                   <button
@@ -1372,105 +2718,1156 @@ export function DoorCalculator() {
               <Plus className="h-3 w-3" /> Add door
             </button>
             {doors.length > 1 && (
-              <CopyButton text={formatAllDoorsSummary(doors)} label={`Copy full summary (${doors.length} doors)`} fullWidth />
+              <CopyButton text={formatAllDoorsSummary(doors, units, { project: projectCost, prices })} label={`Copy full summary (${doors.length} doors)`} fullWidth />
+            )}
+            <div className="flex flex-wrap gap-2 mt-1">
+              <NativeSaveButton
+                label="Save cut list CSV"
+                icon={FileSpreadsheet}
+                onSave={() => window.api.saveFile({ content: cutListCsv(doors, units), fileName: 'Cut list.csv', filters: csvFilters })}
+              />
+              <NativeSaveButton
+                label="Save panels CSV"
+                icon={FileSpreadsheet}
+                onSave={() => window.api.saveFile({ content: panelsCsv(doors, units), fileName: 'Panels.csv', filters: csvFilters })}
+              />
+            </div>
+            <button
+              onClick={() => importInput.current?.click()}
+              tabIndex={0}
+              data-card-tabbable
+              title="One row per door: name, width, height, and optionally rows, columns and notes. The rest of each door's design is copied from the active door."
+              className="inline-flex items-center justify-center gap-1 w-full mt-1 px-2 py-1.5 rounded-md text-xs font-medium border border-dashed border-border text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors"
+            >
+              <FileUp className="h-3 w-3" /> Import doors from CSV…
+            </button>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) importDoors(file)
+                e.target.value = ''
+              }}
+            />
+            {importReport && (
+              <div className="flex flex-col gap-1 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className={`flex-1 ${importReport.added > 0 ? 'text-green-400' : 'text-muted-foreground'}`}>
+                    {importReport.added > 0
+                      ? `Imported ${importReport.added} door${importReport.added > 1 ? 's' : ''}${importReport.errors.length > 0 ? `, skipped ${importReport.errors.length} row${importReport.errors.length > 1 ? 's' : ''}` : ''}`
+                      : importReport.errors.length > 0 ? 'No doors imported' : 'No doors found in the file'}
+                  </span>
+                  <button onClick={() => setImportReport(null)} tabIndex={-1} className="text-[10px] text-muted-foreground hover:text-foreground">
+                    Dismiss
+                  </button>
+                </div>
+                {importReport.errors.map((err) => (
+                  <div key={err.row} className="flex items-start gap-1.5 text-red-400">
+                    <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                    <span>{err.row > 0 ? `Row ${err.row}${err.name ? ` (${err.name})` : ''}` : err.name}: {err.message}</span>
+                  </div>
+                ))}
+              </div>
             )}
         </CollapsibleCard>
 
-        <CollapsibleCard title="Door Dimensions" summary={<><SummaryBadge label="W" value={`${config.doorWidth}`} /><SummaryBadge label="H" value={`${config.doorHeight}`} /></>}>
-            <SliderInput label="Width" value={config.doorWidth} onChange={(v) => update('doorWidth', v)} min={300} max={1200} />
-            <SliderInput label="Height" value={config.doorHeight} onChange={(v) => update('doorHeight', v)} min={500} max={2500} />
+        <CollapsibleCard
+          title="Units"
+          defaultOpen={false}
+          description="Values are stored in millimetres; imperial rounds the display to the chosen fraction of an inch."
+          summary={<><SummaryBadge value={units.system === 'imperial' ? 'Inches' : 'Millimetres'} />{units.system === 'imperial' && <SummaryBadge label="Nearest" value={`1/${units.precision}"`} />}</>}
+        >
+            <div className="flex gap-2">
+              {(['metric', 'imperial'] as const).map((system) => (
+                <button
+                  key={system}
+                  onClick={() => setUnits((prev) => ({ ...prev, system }))}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    units.system === system
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  {system === 'metric' ? 'Metric (mm)' : 'Imperial (in)'}
+                </button>
+              ))}
+            </div>
+            {units.system === 'imperial' && (
+              <div className="flex flex-col gap-1.5">
+                <Label className="text-xs text-muted-foreground">Round to nearest</Label>
+                <div className="flex gap-2">
+                  {([8, 16, 32] as InchPrecision[]).map((precision) => (
+                    <button
+                      key={precision}
+                      onClick={() => setUnits((prev) => ({ ...prev, precision }))}
+                      tabIndex={-1}
+                      className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium font-mono transition-colors ${
+                        units.precision === precision
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                      }`}
+                    >
+                      1/{precision}"
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
         </CollapsibleCard>
 
-        <CollapsibleCard title="Door Handle" summary={<><SummaryBadge label="Side" value={config.handleSide === 'left' ? 'Left' : 'Right'} /><SummaryBadge label="Height" value={`${config.handleHeight}`} /><SummaryBadge label="Spread" value={`${config.handleSpread}`} /></>}>
+        <CollapsibleCard
+          title="Door Dimensions"
+          description={config.edges ? 'Measure each edge and both diagonals; leave the diagonals at 0 if you only have widths and heights. The layout follows the real shape.' : undefined}
+          summary={<><SummaryBadge label="W" value={L(config.doorWidth)} /><SummaryBadge label="H" value={L(config.doorHeight)} />{config.edges && <SummaryBadge value="Measured" />}{config.pair && <SummaryBadge value="Pair" />}</>}
+        >
             <div className="flex flex-col gap-1.5">
-              <Label className="text-xs text-muted-foreground">Side</Label>
+              <Label className="text-xs text-muted-foreground">Shape</Label>
               <div className="flex gap-2">
                 <button
-                  onClick={() => update('handleSide', 'left')}
+                  onClick={() => update('edges', null)}
                   tabIndex={-1}
                   className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
-                    config.handleSide === 'left'
+                    !config.edges
                       ? 'bg-primary text-primary-foreground'
                       : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
                   }`}
                 >
-                  Left
+                  Square
                 </button>
                 <button
-                  onClick={() => update('handleSide', 'right')}
+                  onClick={() => update('edges', config.edges ?? {
+                    topWidth: config.doorWidth,
+                    bottomWidth: config.doorWidth,
+                    leftHeight: config.doorHeight,
+                    rightHeight: config.doorHeight,
+                    diagonalDown: 0,
+                    diagonalUp: 0,
+                  })}
                   tabIndex={-1}
                   className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
-                    config.handleSide === 'right'
+                    config.edges
                       ? 'bg-primary text-primary-foreground'
                       : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
                   }`}
                 >
-                  Right
+                  Measured edges
                 </button>
               </div>
             </div>
-            <SliderInput label="Height from top" value={config.handleHeight} onChange={(v) => update('handleHeight', v)} min={200} max={1800} />
-            <SliderInput label="Indent from edge" value={config.handleIndent} onChange={(v) => update('handleIndent', v)} min={20} max={150} />
-            <SliderInput label="Spread from edge" value={config.handleSpread} onChange={(v) => update('handleSpread', v)} min={30} max={250} />
-            {cuts.handleWarnings.length > 0 && (
-              <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2 mt-1">
-                {cuts.handleWarnings.map((w, i) => (
-                  <div key={i} className="flex items-start gap-2 text-xs text-yellow-400">
-                    <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
-                    <span>{w}</span>
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs text-muted-foreground">Leaves</Label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => update('pair', null)}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    !config.pair
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Single door
+                </button>
+                <button
+                  onClick={() => update('pair', config.pair ?? { layout: 'mirrored', overlap: 12, activeLeaf: 'left' })}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    config.pair
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Pair
+                </button>
+              </div>
+            </div>
+            {config.pair && (
+              <>
+                <div className="flex flex-col gap-1.5">
+                  <Label className="text-xs text-muted-foreground">Right leaf layout</Label>
+                  <div className="flex gap-2">
+                    {(Object.keys(pairLayoutLabels) as DoorPair['layout'][]).map((layout) => (
+                      <button
+                        key={layout}
+                        onClick={() => update('pair', { ...config.pair!, layout })}
+                        tabIndex={-1}
+                        className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          config.pair!.layout === layout
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                      >
+                        {pairLayoutLabels[layout]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label className="text-xs text-muted-foreground">Active leaf (opens first, carries the overlap)</Label>
+                  <div className="flex gap-2">
+                    {(['left', 'right'] as const).map((side) => (
+                      <button
+                        key={side}
+                        onClick={() => update('pair', { ...config.pair!, activeLeaf: side })}
+                        tabIndex={-1}
+                        className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          config.pair!.activeLeaf === side
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                      >
+                        {side === 'left' ? 'Left' : 'Right'}
+                      </button>
+                    ))}
                   </div>
+                </div>
+                <SliderInput label="Meeting-stile overlap" value={config.pair.overlap} onChange={(v) => update('pair', { ...config.pair!, overlap: v })} {...marks('pair')} min={0} max={40} step={0.5} units={units} />
+                <p className="text-xs text-muted-foreground">
+                  Sizes below are per leaf; the settings here are the left leaf's. The overlap hides the passive leaf's meeting edge, so its margin there is widened to match.
+                </p>
+              </>
+            )}
+            {config.edges ? (
+              <>
+                {([
+                  ['topWidth', 'Top width', 300, 1200],
+                  ['bottomWidth', 'Bottom width', 300, 1200],
+                  ['leftHeight', 'Left height', 500, 2500],
+                  ['rightHeight', 'Right height', 500, 2500],
+                  ['diagonalDown', 'Diagonal, top-left to bottom-right', 0, 2800],
+                  ['diagonalUp', 'Diagonal, bottom-left to top-right', 0, 2800],
+                ] as const).map(([key, label, min, max]) => (
+                  <SliderInput
+                    key={key}
+                    label={label}
+                    value={config.edges![key]}
+                    onChange={(v) => update('edges', { ...config.edges!, [key]: v })}
+                    {...marks('edges')}
+                    min={min}
+                    max={max}
+                    step={0.5}
+                    units={units}
+                  />
                 ))}
-              </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  <div className="text-muted-foreground">Nominal size</div>
+                  <div className="font-mono text-right">{L(config.doorWidth)} × {L(config.doorHeight)} {u}</div>
+                  {cuts.shape && (
+                    <>
+                      <div className="text-muted-foreground">Corners (TL/TR/BR/BL)</div>
+                      <div className="font-mono text-right">{cuts.shape.cornerAngles.map((a) => `${a}°`).join(' / ')}</div>
+                    </>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <SliderInput label={config.pair ? 'Leaf width' : 'Width'} value={config.doorWidth} onChange={(v) => update('doorWidth', v)} {...marks('doorWidth')} min={sizeLimits.doorWidth[0]} max={sizeLimits.doorWidth[1]} units={units} />
+                <SliderInput label="Height" value={config.doorHeight} onChange={(v) => update('doorHeight', v)} {...marks('doorHeight')} min={sizeLimits.doorHeight[0]} max={sizeLimits.doorHeight[1]} units={units} />
+              </>
             )}
         </CollapsibleCard>
 
-        <CollapsibleCard title="Margins (door edge → beading)" defaultOpen={false} summary={<><SummaryBadge label="T" value={`${config.topMargin}`} /><SummaryBadge label="B" value={`${config.bottomMargin}`} /><SummaryBadge label="L" value={`${config.leftMargin}`} /><SummaryBadge label="R" value={`${config.rightMargin}`} /></>}>
-            <SliderInput label="Top" value={config.topMargin} onChange={(v) => update('topMargin', v)} min={10} max={300} />
-            <SliderInput label="Bottom" value={config.bottomMargin} onChange={(v) => update('bottomMargin', v)} min={10} max={300} />
-            <SliderInput label="Left" value={config.leftMargin} onChange={(v) => update('leftMargin', v)} min={10} max={300} />
-            <SliderInput label="Right" value={config.rightMargin} onChange={(v) => update('rightMargin', v)} min={10} max={300} />
-        </CollapsibleCard>
-
-        <CollapsibleCard title="Gaps Between Panels" defaultOpen={false} summary={<><SummaryBadge label="Horiz" value={`${config.horizontalGap}`} /><SummaryBadge label="Vert" value={`${config.verticalGap}`} /></>}>
-            <SliderInput label="Horizontal gap" value={config.horizontalGap} onChange={(v) => update('horizontalGap', v)} min={10} max={300} />
-            <SliderInput label="Vertical gap" value={config.verticalGap} onChange={(v) => update('verticalGap', v)} min={10} max={300} />
-        </CollapsibleCard>
-
-        <CollapsibleCard title="Beading & Panel" summary={<><SummaryBadge label="Beading" value={`${config.beadingWidth}`} /><SummaryBadge label="Panel" value={`${config.mdfPanelWidth}`} /></>}>
-            <SliderInput label="Beading width" value={config.beadingWidth} onChange={(v) => update('beadingWidth', v)} min={5} max={50} />
-            <SliderInput label="MDF panel width" value={config.mdfPanelWidth} onChange={(v) => update('mdfPanelWidth', v)} min={50} max={500} />
-        </CollapsibleCard>
-
         <CollapsibleCard
-          title="Panel Height Ratio"
-          description={`Top panels get ${config.topPanelRatio}% of available height, bottom panels get ${100 - config.topPanelRatio}%.`}
-          summary={<><SummaryBadge label="Top" value={`${config.topPanelRatio}%`} /><SummaryBadge label="Bottom" value={`${100 - config.topPanelRatio}%`} /></>}
+          title="Faces"
+          defaultOpen={false}
+          description={door.back
+            ? 'The back is seen from behind, so left and right swap: a handle on the left of the front is on the right of the back. Fitting-guide positions are measured from the top-left corner of each face as you look at it.'
+            : 'Decorate the back of the door as well, mirroring the front or with its own layout.'}
+          summary={<><SummaryBadge label="Faces" value={door.back ? '2' : '1'} />{door.back && <SummaryBadge label="Back" value={backLayoutLabels[door.back.layout]} />}{door.back && <SummaryBadge label="Showing" value={viewFace === 'front' ? 'Front' : 'Back'} />}</>}
         >
-            <SliderInput
-              label={`Top ${config.topPanelRatio}% / Bottom ${100 - config.topPanelRatio}%`}
-              value={config.topPanelRatio}
-              onChange={(v) => update('topPanelRatio', v)}
-              suffix="%"
-              min={15}
-              max={85}
-            />
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs text-muted-foreground">Decorated</Label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => update('back', null, 'front')}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    !door.back
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Front only
+                </button>
+                <button
+                  onClick={() => update('back', door.back ?? { layout: 'mirrored', custom: null }, 'front')}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    door.back
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Both faces
+                </button>
+              </div>
+            </div>
+            {door.back && (
+              <>
+                <div className="flex flex-col gap-1.5">
+                  <Label className="text-xs text-muted-foreground">Back layout</Label>
+                  <div className="flex gap-2">
+                    {(Object.keys(backLayoutLabels) as BackFace['layout'][]).map((layout) => (
+                      <button
+                        key={layout}
+                        onClick={() => update('back', {
+                          layout,
+                          // Start a custom back from the mirrored front
+                          custom: door.back!.custom ?? pickFaceLayout(backFaceConfig(door)),
+                        }, 'front')}
+                        tabIndex={-1}
+                        className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          door.back!.layout === layout
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                      >
+                        {backLayoutLabels[layout]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label className="text-xs text-muted-foreground">{door.back.layout === 'custom' ? 'Showing and editing' : 'Showing'}</Label>
+                  <div className="flex gap-2">
+                    {(['front', 'back'] as const).map((f) => (
+                      <button
+                        key={f}
+                        onClick={() => setFace(f)}
+                        tabIndex={-1}
+                        className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          viewFace === f
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                      >
+                        {f === 'front' ? 'Front' : 'Back'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {door.back.layout === 'custom'
+                    ? `Margins, gaps, beading, layout and infill below are the ${editFace}'s. Door size, handle and hinges are shared, seen from the face shown.`
+                    : 'The back mirrors the front; settings below are the front\'s. Choose Custom to give the back its own layout.'}
+                </p>
+              </>
+            )}
         </CollapsibleCard>
 
-      </div>
-
-      {/* ── Right column: Preview & Cut List ──── */}
-      <div className="flex-1 min-w-0 flex flex-col gap-0 overflow-hidden">
-        {/* Validation errors */}
-        {!cuts.isValid && (
-          <Card className="border-destructive mb-2 shrink-0">
-            <CardContent className="pt-4">
-              {cuts.errors.map((err, i) => (
-                <div key={i} className="flex items-start gap-2 text-sm text-destructive-foreground">
-                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
-                  <span>{err}</span>
-                </div>
-              ))}
-            </CardContent>
+        <CollapsibleCard title="Door Handle" summary={<><SummaryBadge label="Side" value={config.pair ? 'Meeting' : config.handleSide === 'left' ? 'Left' : 'Right'} /><SummaryBadge label="Height" value={L(config.handleHeight)} /><SummaryBadge label="Reach" value={L(handleReach(config))} /></>}>
+            {config.pair ? (
+              <p className="text-xs text-muted-foreground">
+                Handles meet in the middle, one on each leaf's meeting stile. Each leaf is checked against its own handle.
+              </p>
+            ) : (
+              <div className="flex flex-col gap-1.5">
+                <Label className="text-xs text-muted-foreground">Side</Label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => update('handleSide', 'left')}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      config.handleSide === 'left'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    Left
+                  </button>
+                  <button
+                    onClick={() => update('handleSide', 'right')}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      config.handleSide === 'right'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    Right
+                  </button>
+                </div>
+              </div>
+            )}
+            <SliderInput label="Height from top" value={config.handleHeight} onChange={(v) => update('handleHeight', v)} {...marks('handleHeight')} min={200} max={1800} units={units} />
+            <SliderInput label="Indent from edge" value={config.handleIndent} onChange={(v) => update('handleIndent', v)} {...marks('handleIndent')} min={20} max={150} units={units} />
+
+            <Separator className="my-2" />
+
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+              Hardware
+            </h4>
+            <div className="grid grid-cols-2 gap-1.5">
+              {hardwareOptions.map((item) => (
+                <div key={item.id} className="relative group">
+                  <button
+                    onClick={() => update('hardware', { ...item })}
+                    tabIndex={-1}
+                    className={`w-full px-2 py-1.5 rounded-md text-xs font-medium text-left transition-colors truncate ${
+                      config.hardware.id === item.id
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                    title={hardwareKindLabels[item.kind]}
+                  >
+                    {item.name}
+                  </button>
+                  {!item.builtIn && (
+                    <button
+                      onClick={() => setHardwareLibrary((prev) => prev.filter((h) => h.id !== item.id))}
+                      tabIndex={-1}
+                      className="absolute right-1 top-1/2 -translate-y-1/2 p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/20"
+                      title="Remove from library"
+                    >
+                      <Trash2 className="h-3 w-3 text-muted-foreground hover:text-destructive" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Name</Label>
+              <Input
+                value={config.hardware.name}
+                onChange={(e) => update('hardware', { ...config.hardware, name: e.target.value })}
+                className="w-40 h-7 text-xs text-right"
+              />
+            </div>
+            <SliderInput
+              label={hasRose(config.hardware.kind) ? 'Rose diameter' : 'Plate width'}
+              value={config.hardware.plateWidth}
+              onChange={(v) => update('hardware', { ...config.hardware, plateWidth: v, ...(hasRose(config.hardware.kind) ? { plateHeight: v } : {}) })}
+              min={10}
+              max={120}
+              units={units}
+            />
+            {!hasRose(config.hardware.kind) && (
+              <SliderInput label="Plate height" value={config.hardware.plateHeight} onChange={(v) => update('hardware', { ...config.hardware, plateHeight: v })} min={10} max={300} units={units} />
+            )}
+            {config.hardware.kind !== 'escutcheon' && (
+              <>
+                <SliderInput
+                  label={gripLengthLabels[config.hardware.kind]}
+                  value={config.hardware.gripLength}
+                  onChange={(v) => update('hardware', { ...config.hardware, gripLength: v })}
+                  min={10}
+                  max={config.hardware.kind === 'pull-bar' ? 1200 : 200}
+                  units={units}
+                />
+                {config.hardware.kind !== 'knob' && (
+                  <SliderInput label="Grip thickness" value={config.hardware.gripWidth} onChange={(v) => update('hardware', { ...config.hardware, gripWidth: v })} min={4} max={60} units={units} />
+                )}
+              </>
+            )}
+            <button
+              onClick={() => {
+                const name = config.hardware.builtIn ? `${config.hardware.name} (custom)` : config.hardware.name
+                const item: HardwareItem = { ...config.hardware, id: crypto.randomUUID(), name, builtIn: false }
+                setHardwareLibrary((prev) => [...prev, item])
+                update('hardware', item)
+              }}
+              tabIndex={0}
+              data-card-tabbable
+              className="inline-flex items-center justify-center gap-1 w-full px-2 py-1.5 rounded-md text-xs font-medium border border-dashed border-border text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors"
+            >
+              <Plus className="h-3 w-3" /> Save to library
+            </button>
+            {handleWarnings.length > 0 && (
+              <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2 mt-1">
+                <DiagnosticList diagnostics={handleWarnings} units={units} onApply={applyFix} onFocus={focusDiagnostic} compact />
+              </div>
+            )}
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Hinges"
+          description={config.pair
+            ? 'Hinges hang on the outer edge of each leaf, opposite its handle. Heights are to the hinge centre.'
+            : `Hinges hang on the ${hingeSideOf(config)} edge, opposite the handle. Heights are to the hinge centre.`}
+          defaultOpen={false}
+          summary={<><SummaryBadge label="Count" value={`${cuts.hingeHeights.length}`} /><SummaryBadge label="Side" value={config.pair ? 'Outer' : hingeSideOf(config) === 'left' ? 'Left' : 'Right'} /></>}
+        >
+            <SliderInput
+              label="Count"
+              value={config.hingeCount}
+              onChange={(v) => {
+                update('hingeCount', v)
+                update('hingeHeights', standardHingeHeights(config.doorHeight, v, config.hingeLength))
+              }}
+              suffix=""
+              min={1}
+              max={5}
+            />
+            <SliderInput label="Hinge length" value={config.hingeLength} onChange={(v) => update('hingeLength', v)} {...marks('hingeLength')} min={50} max={150} units={units} />
+            <SliderInput label="Leaf width" value={config.hingeLeafWidth} onChange={(v) => update('hingeLeafWidth', v)} {...marks('hingeLeafWidth')} min={10} max={100} units={units} />
+            {cuts.hingeHeights.map((h, i) => (
+              <SliderInput
+                key={`hinge-${i}`}
+                label={`Hinge ${i + 1} from top`}
+                value={h}
+                onChange={(v) => update('hingeHeights', cuts.hingeHeights.map((hh, hi) => (hi === i ? v : hh)))}
+                issue={cuts.diagnostics.find((d) => d.part === `Hinge ${i + 1}`)?.severity}
+                min={0}
+                max={config.doorHeight}
+                units={units}
+              />
+            ))}
+            <button
+              onClick={() => update('hingeHeights', standardHingeHeights(config.doorHeight, cuts.hingeHeights.length, config.hingeLength))}
+              tabIndex={0}
+              data-card-tabbable
+              className="inline-flex items-center justify-center gap-1 w-full px-2 py-1.5 rounded-md text-xs font-medium border border-dashed border-border text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors"
+            >
+              Reset to standard positions
+            </button>
+            {hingeWarnings.length > 0 && (
+              <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2 mt-1">
+                <DiagnosticList diagnostics={hingeWarnings} units={units} onApply={applyFix} onFocus={focusDiagnostic} compact />
+              </div>
+            )}
+        </CollapsibleCard>
+
+        <CollapsibleCard title="Panel Layout" summary={<><SummaryBadge label="Rows" value={`${config.rows}`} /><SummaryBadge label="Cols" value={`${config.columns}`} /></>}>
+            <SliderInput label="Rows" value={config.rows} onChange={(v) => update('rows', v)} {...marks('rows')} suffix="" min={sizeLimits.rows[0]} max={sizeLimits.rows[1]} />
+            <SliderInput label="Columns" value={config.columns} onChange={(v) => update('columns', v)} {...marks('columns')} suffix="" min={sizeLimits.columns[0]} max={sizeLimits.columns[1]} />
+        </CollapsibleCard>
+
+        <CollapsibleCard title="Margins (door edge → beading)" defaultOpen={false} summary={<><SummaryBadge label="T" value={L(config.topMargin)} /><SummaryBadge label="B" value={L(config.bottomMargin)} /><SummaryBadge label="L" value={L(config.leftMargin)} /><SummaryBadge label="R" value={L(config.rightMargin)} /></>}>
+            <SliderInput label="Top" value={config.topMargin} onChange={(v) => update('topMargin', v)} {...marks('topMargin')} min={10} max={300} units={units} />
+            <SliderInput label="Bottom" value={config.bottomMargin} onChange={(v) => update('bottomMargin', v)} {...marks('bottomMargin')} min={10} max={300} units={units} />
+            <SliderInput label="Left" value={config.leftMargin} onChange={(v) => update('leftMargin', v)} {...marks('leftMargin')} min={10} max={300} units={units} />
+            <SliderInput label="Right" value={config.rightMargin} onChange={(v) => update('rightMargin', v)} {...marks('rightMargin')} min={10} max={300} units={units} />
+        </CollapsibleCard>
+
+        <CollapsibleCard title="Gaps Between Panels" defaultOpen={false} summary={<><SummaryBadge label="Horiz" value={L(config.horizontalGap)} /><SummaryBadge label="Vert" value={L(config.verticalGap)} /></>}>
+            <SliderInput label="Horizontal gap" value={config.horizontalGap} onChange={(v) => update('horizontalGap', v)} {...marks('horizontalGap')} min={10} max={300} units={units} />
+            <SliderInput label="Vertical gap" value={config.verticalGap} onChange={(v) => update('verticalGap', v)} {...marks('verticalGap')} min={10} max={300} units={units} />
+        </CollapsibleCard>
+
+        <CollapsibleCard title="Beading & Panel" summary={<><SummaryBadge label="Beading" value={L(config.beadingWidth)} /><SummaryBadge label="Panel" value={L(config.mdfPanelWidth)} /></>}>
+            <SliderInput label="Beading width" value={config.beadingWidth} onChange={(v) => update('beadingWidth', v)} {...marks('beadingWidth')} min={5} max={50} units={units} />
+            <SliderInput label={columnRatios.some((v) => v !== columnRatios[0]) ? 'MDF panel width (widest column)' : 'MDF panel width'} value={config.mdfPanelWidth} onChange={(v) => update('mdfPanelWidth', v)} {...marks('mdfPanelWidth')} min={50} max={500} units={units} />
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Beading Joints"
+          defaultOpen={false}
+          description="How the beading meets at each corner. Set the corner angle when a unit isn't square; butt and coped joints leave one set of pieces running through."
+          summary={<><SummaryBadge value={jointTypeLabels[config.jointType]} />{config.cornerAngle !== 90 && <SummaryBadge label="Corner" value={formatAngle(config.cornerAngle)} />}</>}
+        >
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs text-muted-foreground">Joint</Label>
+              <div className="flex gap-2">
+                {(Object.keys(jointTypeLabels) as JointType[]).map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => update('jointType', type)}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      config.jointType === type
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {jointTypeLabels[type]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <SliderInput label="Corner angle" value={config.cornerAngle} onChange={(v) => update('cornerAngle', v)} suffix="°" min={80} max={100} step={0.1} />
+            {config.jointType !== 'mitre' && (
+              <div className="flex flex-col gap-1.5">
+                <Label className="text-xs text-muted-foreground">Runs through</Label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => update('runThrough', 'horizontal')}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      config.runThrough === 'horizontal'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    Horizontals
+                  </button>
+                  <button
+                    onClick={() => update('runThrough', 'vertical')}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      config.runThrough === 'vertical'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    Verticals
+                  </button>
+                </div>
+              </div>
+            )}
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs text-muted-foreground">Beading at the saw</Label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => update('sawPosition', 'flat')}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    config.sawPosition === 'flat'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Flat on the table
+                </button>
+                <button
+                  onClick={() => update('sawPosition', 'upright')}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    config.sawPosition === 'upright'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  On edge at the fence
+                </button>
+              </div>
+            </div>
+
+            <Separator className="my-2" />
+
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+              Saw settings
+            </h4>
+            <ul className="text-xs text-muted-foreground space-y-1">
+              {sawSettings(config).map((s, i) => (
+                <li key={i}>{s}</li>
+              ))}
+            </ul>
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Cutting Allowances"
+          defaultOpen={false}
+          description="Kerf and trim waste are added to the stock to buy. Oversizing adds the trim allowance to each cut-to length instead."
+          summary={<><SummaryBadge label="Kerf" value={L(config.sawKerf)} /><SummaryBadge label="Trim" value={L(config.trimAllowance)} />{config.oversizeToFit && <SummaryBadge value="Oversize" />}</>}
+        >
+            <SliderInput label="Saw kerf" value={config.sawKerf} onChange={(v) => update('sawKerf', v)} {...marks('sawKerf')} min={0} max={10} step={0.5} units={units} />
+            <SliderInput label="Trim allowance per piece" value={config.trimAllowance} onChange={(v) => update('trimAllowance', v)} {...marks('trimAllowance')} min={0} max={50} units={units} />
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs text-muted-foreground">Cutting method</Label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => update('oversizeToFit', false)}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    !config.oversizeToFit
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Cut to size
+                </button>
+                <button
+                  onClick={() => update('oversizeToFit', true)}
+                  tabIndex={-1}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    config.oversizeToFit
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  Oversize, trim to fit
+                </button>
+              </div>
+            </div>
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Rounding & Tolerance"
+          defaultOpen={false}
+          description="Round sizes to what your saw stops and tape can hold. Rounding panels down and beading up keeps every error on the safe side."
+          summary={<><SummaryBadge label="Step" value={L(config.roundingStep, 2)} /><SummaryBadge label="Tol" value={formatBand(cuts.rounding.beadingBand, units)} /></>}
+        >
+            <div className="flex flex-col gap-1.5">
+              <Label className="text-xs text-muted-foreground">Step</Label>
+              <div className="flex gap-2">
+                {roundingSteps.map((step) => (
+                  <button
+                    key={step}
+                    onClick={() => update('roundingStep', step)}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      config.roundingStep === step
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {step} mm
+                  </button>
+                ))}
+              </div>
+            </div>
+            {roundingModes('panelRounding', 'Panels', ['nearest', 'down'])}
+            {roundingModes('beadingRounding', 'Beading', ['nearest', 'up'])}
+
+            <Separator className="my-2" />
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <div className="text-muted-foreground">Panel tolerance</div>
+              <div className="font-mono text-right">{formatBand(cuts.rounding.panelBand, units)}</div>
+              <div className="text-muted-foreground">Beading tolerance</div>
+              <div className="font-mono text-right">{formatBand(cuts.rounding.beadingBand, units)}</div>
+              <div className="text-muted-foreground">Row slack (beading)</div>
+              <div className="font-mono text-right">{formatSlack(cuts.rounding.acrossRow, units)}</div>
+              <div className="text-muted-foreground">Row slack (panels)</div>
+              <div className="font-mono text-right">{formatSlack(cuts.rounding.panelAcrossRow, units)}</div>
+              <div className="text-muted-foreground">Column slack (beading)</div>
+              <div className="font-mono text-right">{formatSlack(cuts.rounding.downColumn, units)}</div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Beading slack ends up in the right and bottom margins; panel slack widens the reveals.
+            </p>
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Panel Ratios"
+          description="Relative row heights and column widths. Values are weights, so 30/20/50 and 3/2/5 give the same layout."
+          summary={<><SummaryBadge label="Rows" value={rowShares.map(formatShare).join('/')} /><SummaryBadge label="Cols" value={columnShares.map(formatShare).join('/')} /></>}
+        >
+            {cuts.rows > 1 && (
+              <>
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                  Row heights
+                </h4>
+                {rowRatios.map((v, i) => (
+                  <SliderInput
+                    key={`row-${i}`}
+                    label={`${rowName(i, cuts.rows)} — ${formatShare(rowShares[i])}%`}
+                    value={v}
+                    onChange={(nv) => updateRatio('rowRatios', cuts.rows, i, nv)}
+                    issue={marks('rowRatios').issue}
+                    suffix=""
+                    min={1}
+                    max={100}
+                  />
+                ))}
+              </>
+            )}
+            {cuts.columns > 1 && (
+              <>
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                  Column widths
+                </h4>
+                {columnRatios.map((v, i) => (
+                  <SliderInput
+                    key={`col-${i}`}
+                    label={`${columnName(i, cuts.columns)} — ${formatShare(columnShares[i])}%`}
+                    value={v}
+                    onChange={(nv) => updateRatio('columnRatios', cuts.columns, i, nv)}
+                    issue={marks('columnRatios').issue}
+                    suffix=""
+                    min={1}
+                    max={100}
+                  />
+                ))}
+              </>
+            )}
+            {cuts.rows === 1 && cuts.columns === 1 && (
+              <p className="text-xs text-muted-foreground">A single panel uses all of the available space.</p>
+            )}
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Panel Shapes"
+          defaultOpen={false}
+          description="Give a row an arched top: segmental (a shallow arc), a full semicircle, or a pointed cathedral arch. The top beading becomes flexible beading."
+          summary={<SummaryBadge value={rowTops.some((t) => t.shape !== 'rectangle') ? rowTops.map((t) => rowShapeLabels[t.shape]).join('/') : 'Square'} />}
+        >
+            {rowTops.map((t, i) => {
+              const halfSpan = Math.max(...cuts.columnWidths) / 2
+              return (
+                <div key={i} className="flex flex-col gap-1.5">
+                  <Label className="text-xs text-muted-foreground">{rowName(i, cuts.rows) || 'Panels'}</Label>
+                  <div className="flex gap-1.5">
+                    {(Object.keys(rowShapeLabels) as RowShape[]).map((shape) => (
+                      <button
+                        key={shape}
+                        onClick={() => updateRowTop(i, { shape })}
+                        tabIndex={-1}
+                        className={`flex-1 px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          t.shape === shape
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                      >
+                        {rowShapeLabels[shape]}
+                      </button>
+                    ))}
+                  </div>
+                  {(t.shape === 'segmental' || t.shape === 'cathedral') && (
+                    <SliderInput
+                      label="Rise"
+                      value={archRise(t.shape, halfSpan, t.rise)}
+                      onChange={(v) => updateRowTop(i, { rise: v })}
+                      {...marks('rowTops')}
+                      min={t.shape === 'cathedral' ? Math.ceil(halfSpan) : 5}
+                      max={t.shape === 'cathedral' ? Math.ceil(halfSpan * 2.5) : Math.floor(halfSpan)}
+                      units={units}
+                    />
+                  )}
+                </div>
+              )
+            })}
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Panel Infill"
+          defaultOpen={false}
+          description="Fill each unit with an MDF panel, glass, or leave it open to show the door. Glass needs a cut-out through the door, held by the front beading and a glazing bead behind."
+          summary={<>{(['glass', 'open'] as const).map((t) => {
+            const n = cuts.panelUnits.filter((pu) => pu.infill === t).length
+            return n > 0 && <SummaryBadge key={t} label={infillLabels[t]} value={`${n}`} />
+          })}{cuts.panelUnits.every((pu) => pu.infill === 'mdf') && <SummaryBadge value="All MDF" />}</>}
+        >
+            {leafCuts[0].panelUnits.map((pu) => (
+              <div key={`${pu.row}-${pu.column}`} className="flex items-center justify-between gap-2">
+                <Label className="text-xs text-muted-foreground">{pu.label}</Label>
+                <div className="flex gap-1.5">
+                  {(Object.keys(infillLabels) as InfillType[]).map((t) => (
+                    <button
+                      key={t}
+                      onClick={() => update('infills', { ...config.infills, [`${pu.row}-${pu.column}`]: t })}
+                      tabIndex={-1}
+                      className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                        pu.infill === t
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                      }`}
+                    >
+                      {infillLabels[t]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {cuts.panelUnits.some((pu) => pu.infill === 'glass') && (
+              <>
+                <Separator className="my-2" />
+                <SliderInput label="Glazing rebate (cut-out under the beading)" value={config.glazingRebate} onChange={(v) => update('glazingRebate', v)} {...marks('glazingRebate')} min={0} max={30} units={units} />
+                <SliderInput label="Glass clearance" value={config.glazingClearance} onChange={(v) => update('glazingClearance', v)} {...marks('glazingClearance')} min={0} max={6} step={0.5} units={units} />
+                <SliderInput label="Glazing bead width" value={config.glazingBeadWidth} onChange={(v) => update('glazingBeadWidth', v)} {...marks('glazingBeadWidth')} min={5} max={30} units={units} />
+              </>
+            )}
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Linked Fields"
+          description="Keep fields in step: each rule holds whichever side you edit, e.g. right margin = left margin, or bottom margin = top margin + 50."
+          defaultOpen={false}
+          summary={<SummaryBadge label="Links" value={`${config.links.length}`} />}
+        >
+            {config.links.map((link, i) => (
+              <div key={i} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <SliderInput
+                    label={`${linkableFields[link.target]} = ${linkableFields[link.source]} +`}
+                    value={link.offset}
+                    onChange={(v) => update('links', config.links.map((l, li) => (li === i ? { ...l, offset: v } : l)))}
+                    min={-200}
+                    max={200}
+                    units={units}
+                  />
+                </div>
+                <button
+                  onClick={() => update('links', config.links.filter((_, li) => li !== i))}
+                  tabIndex={-1}
+                  className="p-1 rounded hover:bg-destructive/20"
+                  title="Remove link"
+                >
+                  <Trash2 className="h-3 w-3 text-muted-foreground hover:text-destructive" />
+                </button>
+              </div>
+            ))}
+            {config.links.length === 0 && (
+              <p className="text-xs text-muted-foreground">No links — every field is set on its own.</p>
+            )}
+            <div className="flex items-center gap-2 text-xs">
+              {(['target', 'source'] as const).map((end, ei) => (
+                <Fragment key={end}>
+                  {ei === 1 && <span className="text-muted-foreground">=</span>}
+                  <select
+                    value={linkDraft[end]}
+                    onChange={(e) => setLinkDraft((prev) => ({ ...prev, [end]: e.target.value as LinkableField }))}
+                    className="h-7 flex-1 min-w-0 rounded-md border border-input bg-transparent px-2 text-xs"
+                  >
+                    {(Object.keys(linkableFields) as LinkableField[]).map((field) => (
+                      <option key={field} value={field} className="bg-background">
+                        {linkableFields[field]}
+                      </option>
+                    ))}
+                  </select>
+                </Fragment>
+              ))}
+            </div>
+            <button
+              onClick={() => update('links', [...config.links, { ...linkDraft, offset: 0 }])}
+              disabled={linkDraft.target === linkDraft.source}
+              tabIndex={0}
+              data-card-tabbable
+              className="inline-flex items-center justify-center gap-1 w-full px-2 py-1.5 rounded-md text-xs font-medium border border-dashed border-border text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors disabled:opacity-50 disabled:pointer-events-none"
+            >
+              <Link2 className="h-3 w-3" /> Add link
+            </button>
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Lock a Result"
+          description="Hold a result at a target value and let the app work out one input to match, e.g. an equal 20 mm reveal all round."
+          defaultOpen={false}
+          summary={config.pin
+            ? <><SummaryBadge label="Lock" value={`${solveOutputLabel(config.pin, cuts)} ${L(config.pin.target)}`} /><SummaryBadge label="Adjusts" value={solveInputs[config.pin.input].label} /></>
+            : <SummaryBadge value="Off" />}
+        >
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+              Result to hold
+            </h4>
+            <div className="flex gap-2">
+              {(['panelBeadingGap', 'panelWidth', 'panelHeight'] as const).map((output) => (
+                <button
+                  key={output}
+                  onClick={() => chooseSolve({ output, index: 0 })}
+                  tabIndex={-1}
+                  className={`flex-1 px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    solveChoice.output === output
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  {{ panelBeadingGap: 'Reveal', panelWidth: 'Panel width', panelHeight: 'Panel height' }[output]}
+                </button>
+              ))}
+            </div>
+            {solveChoice.output !== 'panelBeadingGap' && (solveChoice.output === 'panelWidth' ? cuts.columns : cuts.rows) > 1 && (
+              <div className="flex gap-2">
+                {Array.from({ length: solveChoice.output === 'panelWidth' ? cuts.columns : cuts.rows }, (_, i) => (
+                  <button
+                    key={i}
+                    onClick={() => chooseSolve({ index: i })}
+                    tabIndex={-1}
+                    className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                      solveChoice.index === i
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {solveChoice.output === 'panelWidth' ? columnName(i, cuts.columns) : rowName(i, cuts.rows)}
+                  </button>
+                ))}
+              </div>
+            )}
+            {config.pin && (
+              <SliderInput
+                label="Target"
+                value={config.pin.target}
+                onChange={(v) => update('pin', { ...config.pin!, target: v })}
+                min={0}
+                max={config.pin.output === 'panelHeight' ? config.doorHeight : config.pin.output === 'panelWidth' ? config.doorWidth : 100}
+                units={units}
+              />
+            )}
+
+            <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1 mt-1">
+              Input to adjust
+            </h4>
+            <div className="grid grid-cols-2 gap-1.5">
+              {(Object.keys(solveInputs) as SolveInput[]).map((input) => (
+                <button
+                  key={input}
+                  onClick={() => chooseSolve({ input })}
+                  tabIndex={-1}
+                  className={`px-2 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                    solveChoice.input === input
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                  }`}
+                >
+                  {solveInputs[input].label}
+                </button>
+              ))}
+            </div>
+
+            <button
+              onClick={() => {
+                if (config.pin) {
+                  const { target: _target, ...choice } = config.pin
+                  setSolveDraft(choice)
+                  update('pin', null)
+                } else {
+                  update('pin', { ...solveDraft, target: readSolveOutput({ ...solveDraft, target: 0 }, cuts) })
+                }
+              }}
+              tabIndex={0}
+              data-card-tabbable
+              className={`inline-flex items-center justify-center gap-1.5 w-full px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                config.pin
+                  ? 'bg-secondary text-secondary-foreground hover:bg-secondary/80 border border-border'
+                  : 'bg-primary text-primary-foreground hover:bg-primary/90'
+              }`}
+            >
+              {config.pin ? <><LockOpen className="h-3 w-3" /> Unlock</> : <><Lock className="h-3 w-3" /> Lock at current value</>}
+            </button>
+
+            {solveStatus && (solveStatus.ok ? (
+              <p className="text-xs text-muted-foreground">
+                {solveInputs[config.pin!.input].label} solved to {L(solveStatus.value)} {u}. Change it by hand to release the lock.
+              </p>
+            ) : (
+              <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2">
+                <div className="flex items-start gap-2 text-xs text-yellow-400">
+                  <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                  <span>{solveStatus.reason}</span>
+                </div>
+              </div>
+            ))}
+        </CollapsibleCard>
+
+        <CollapsibleCard
+          title="Alignment"
+          description="Line up a gap between rows across the doors on one landing: fix its height above the floor and every door in the group moves its layout to meet it, whatever its height."
+          defaultOpen={false}
+          summary={activeGroup
+            ? <><SummaryBadge value={activeGroup.name} /><SummaryBadge label="Datum" value={L(activeGroup.datum)} /><SummaryBadge label="Doors" value={`${activeGroup.doorIds.length}`} /></>
+            : <SummaryBadge value="Off" />}
+        >
+            {activeGroup ? (() => {
+              const g = activeGroup
+              const members = doors.filter((d) => g.doorIds.includes(d.id))
+              const gapCount = Math.max(1, ...members.map((d) => Math.round(d.config.rows) - 1))
+              return (
+                <>
+                  <div className="flex flex-col gap-1.5">
+                    <Label className="text-xs text-muted-foreground">Doors in {g.name}</Label>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {doors.map((d) => (
+                        <button
+                          key={d.id}
+                          onClick={() => d.id === activeDoor.id
+                            ? leaveGroup(d.id)
+                            : updateGroup(g.id, { doorIds: g.doorIds.includes(d.id) ? g.doorIds.filter((id) => id !== d.id) : [...g.doorIds, d.id] })}
+                          tabIndex={-1}
+                          className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          g.doorIds.includes(d.id)
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                        >
+                          {d.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    <Label className="text-xs text-muted-foreground">Gap line, counted from the top</Label>
+                    <div className="flex gap-2">
+                      {Array.from({ length: gapCount }, (_, gi) => (
+                        <button
+                          key={gi}
+                          onClick={() => updateGroup(g.id, { gap: gi })}
+                          tabIndex={-1}
+                          className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          g.gap === gi
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                        >
+                          Gap {gi + 1}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <SliderInput label="Datum above floor (gap centre)" value={g.datum} onChange={(v) => updateGroup(g.id, { datum: v })} min={200} max={2400} units={units} />
+                  <SliderInput label="Door bottom above floor" value={g.floorGap} onChange={(v) => updateGroup(g.id, { floorGap: v })} min={0} max={50} step={0.5} units={units} />
+                  <div className="flex flex-col gap-1.5">
+                    <Label className="text-xs text-muted-foreground">Each door adjusts</Label>
+                    <div className="flex gap-2">
+                      {(Object.keys(alignAdjustLabels) as AlignmentGroup['adjust'][]).map((adjust) => (
+                        <button
+                          key={adjust}
+                          onClick={() => updateGroup(g.id, { adjust })}
+                          tabIndex={-1}
+                          className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                          g.adjust === adjust
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                        }`}
+                        >
+                          {alignAdjustLabels[adjust]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <Separator className="my-2" />
+
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {members.map((d) => {
+                      const reached = gapHeight(d.config, g.gap, g.floorGap)
+                      const onDatum = reached !== null && Math.abs(reached - g.datum) < 0.5
+                      return (
+                        <Fragment key={d.id}>
+                          <div className="text-muted-foreground">{d.name}</div>
+                          <div className={`font-mono text-right ${onDatum ? '' : 'text-yellow-400'}`}>
+                            {reached === null ? 'no such gap' : onDatum ? `${L(reached)} ${u}` : `${L(reached)} ${u}, can't reach`}
+                          </div>
+                        </Fragment>
+                      )
+                    })}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Setting {g.adjust === 'ratios' ? 'the row ratios' : 'the top or bottom margin'} by hand takes a door out of the group.
+                  </p>
+                </>
+              )
+            })() : (
+              <>
+                {alignGroups.map((g) => (
+                  <div key={g.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-muted-foreground">{g.name} ({g.doorIds.length} door{g.doorIds.length === 1 ? '' : 's'}, {L(g.datum)} {u})</span>
+                    <button
+                      onClick={() => updateGroup(g.id, { doorIds: [...g.doorIds, activeDoor.id] })}
+                      tabIndex={-1}
+                      className="px-2.5 py-1 rounded-md text-xs font-medium transition-colors bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                    >
+                      Join
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={createGroup}
+                  tabIndex={0}
+                  data-card-tabbable
+                  className="inline-flex items-center justify-center gap-1.5 w-full px-3 py-1.5 rounded-md text-xs font-medium transition-colors bg-primary text-primary-foreground hover:bg-primary/90"
+                >
+                  New group from this door
+                </button>
+              </>
+            )}
+        </CollapsibleCard>
+
+      </div>
+
+      {/* ── Right column: Preview & Cut List ──── */}
+      <div className="flex-1 min-w-0 flex flex-col gap-0 overflow-hidden">
+        {/* Validation */}
+        {doorCuts.diagnostics.length > 0 && (
+          <Card className={`${doorCuts.isValid ? 'border-yellow-500/30' : 'border-destructive'} mb-2 shrink-0`}>
+            <CardContent className="pt-4">
+              <DiagnosticList diagnostics={doorCuts.diagnostics} units={units} onApply={applyFix} onFocus={focusDiagnostic} />
+            </CardContent>
           </Card>
         )}
 
@@ -1484,7 +3881,7 @@ export function DoorCalculator() {
             <CardHeader className="pb-3 shrink-0">
               <div className="flex items-center gap-2">
                 <Ruler className="h-4 w-4 text-muted-foreground" />
-                <CardTitle className="text-sm">Preview — {activeDoor.name}</CardTitle>
+                <CardTitle className="text-sm">Preview — {activeDoor.name}{door.pair && ' (pair)'}{door.back && ` (${viewFace} face)`}</CardTitle>
                 <ChevronDown
                   className={`h-4 w-4 shrink-0 text-muted-foreground transition-transform duration-200 ${
                     previewOpen ? '' : '-rotate-90'
@@ -1494,8 +3891,49 @@ export function DoorCalculator() {
             </CardHeader>
           </button>
           {previewOpen && (
-            <CardContent className="flex-1 min-h-0 pb-3">
-              <DoorPreview config={config} cuts={cuts} guide={activeGuide} onToggleOverlay={() => setActiveGuide(activeGuide === 'overlay' ? null : 'overlay')} />
+            <CardContent className="flex-1 min-h-0 pb-3 flex flex-col gap-2">
+              <div className={`flex-1 min-h-0 grid gap-2 ${viewLeaves.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {viewLeaves.map((leaf, i) => (
+                  <DoorPreview
+                    key={leaf.side}
+                    name={`${activeDoor.name}${viewConfig.pair ? ` ${leaf.side} leaf` : ''}${door.back ? ` ${viewFace} face` : ''}`}
+                    config={leaf.config}
+                    cuts={viewLeafCuts[i]}
+                    guide={activeGuide}
+                    units={units}
+                    onToggleOverlay={() => setActiveGuide(activeGuide === 'overlay' ? null : 'overlay')}
+                    meetingOverlap={leaf.overlapMargin && viewConfig.pair ? { side: leaf.overlapMargin === 'leftMargin' ? 'left' : 'right', width: viewConfig.pair.overlap } : undefined}
+                  />
+                ))}
+              </div>
+              {(() => {
+                const fileName = `${activeDoor.name}${door.back ? ` ${viewFace} face` : ''}`
+                const drawing = () => doorVectorDrawing(viewConfig, units, exportOverlays)
+                return (
+                  <div className="flex flex-wrap items-center gap-2 shrink-0">
+                    <span className="text-xs text-muted-foreground mr-auto">Vector export, full size in mm, one layer per part</span>
+                    <button
+                      onClick={() => setExportOverlays((o) => !o)}
+                      tabIndex={-1}
+                      className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                        exportOverlays
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                      }`}
+                    >
+                      {exportOverlays ? 'With overlays' : 'No overlays'}
+                    </button>
+                    <NativeSaveButton
+                      label="Save SVG"
+                      onSave={() => window.api.saveFile({ content: drawingToSvg(drawing()), fileName: `${fileName}.svg`, filters: [{ name: 'SVG', extensions: ['svg'] }] })}
+                    />
+                    <NativeSaveButton
+                      label="Save DXF"
+                      onSave={() => window.api.saveFile({ content: drawingToDxf(drawing()), fileName: `${fileName}.dxf`, filters: [{ name: 'DXF', extensions: ['dxf'] }] })}
+                    />
+                  </div>
+                )
+              })()}
             </CardContent>
           )}
         </Card>
@@ -1504,155 +3942,659 @@ export function DoorCalculator() {
         <div className={`overflow-y-auto flex flex-col gap-4 pt-4 pr-3 ${ previewOpen ? 'shrink-0 max-h-[45%]' : 'flex-1 min-h-0' }`}>
 
         {/* Cut list */}
-        {cuts.isValid && (
+        {doorCuts.isValid && (
           <CollapsibleCard
             title="Cut List"
-            description="Beading lengths are long-point (outside edge) for 45° mitred corners. Short-point in parentheses."
+            description={
+              config.oversizeToFit && config.trimAllowance > 0
+                ? 'Beading is cut oversize by the trim allowance, then trimmed to the ideal long-point (outside edge) → short-point shown in parentheses.'
+                : `Beading lengths are long-point (outside edge) for ${jointDescription(config)}. Short-point in parentheses.`
+            }
             summary={<>
-              <SummaryBadge label={`${cuts.panelWidth}×${cuts.topPanelHeight} top`} />
-              <SummaryBadge label={`${cuts.panelWidth}×${cuts.bottomPanelHeight} bot`} />
-              <SummaryBadge label="16 beading pcs" />
+              {doorCuts.panelCuts.map((p, i) => (
+                <SummaryBadge key={i} label={p.label.replace(/ ?panels$/, '') || undefined} value={`${L(p.width)}×${L(p.height)}`} />
+              ))}
+              <SummaryBadge label="Beading" value={`${doorCuts.beadingCount} pcs`} />
             </>}
           >
               {/* MDF Panels */}
               <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
                 MDF Panels
               </h4>
-              <div className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
-                <span className="text-muted-foreground">Top panels</span>
-                <div className="flex items-center gap-4">
-                  <span className="text-xs text-muted-foreground">×2</span>
-                  <span className="font-mono font-medium">
-                    {cuts.panelWidth} × {cuts.topPanelHeight} mm
-                  </span>
+              {doorCuts.panelCuts.map((p, i) => (
+                <div key={i} className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
+                  <span className="text-muted-foreground">{p.label[0].toUpperCase() + p.label.slice(1)}</span>
+                  <div className="flex items-center gap-4">
+                    <span className="text-xs text-muted-foreground">×{p.qty}</span>
+                    <span className="font-mono font-medium">
+                      {L(p.width)} × {L(p.height)} {u}
+                    </span>
+                  </div>
                 </div>
+              ))}
+
+              {/* Beading, one section per row */}
+              {Array.from(new Set(doorCuts.beadingCuts.map((b) => b.group))).map((group) => (
+                <div key={group} className="flex flex-col gap-2">
+                  <Separator className="my-2" />
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                    Beading — {group ? `${group} Panels` : 'Panels'} ({jointDescription(config)})
+                  </h4>
+                  {doorCuts.beadingCuts
+                    .filter((b) => b.group === group)
+                    .map((b, i) => (
+                      <CutRow
+                        key={i}
+                        label={(b.orientation === 'horizontal' ? 'Horizontal (top & bottom)' : 'Vertical (left & right)') + (b.detail ? ` — ${b.detail}` : '') + `, ${pieceJointName(b, config)}`}
+                        longPoint={b.longPoint}
+                        shortPoint={b.shortPoint}
+                        cutLength={b.cutLength}
+                        qty={b.qty}
+                        units={units}
+                      />
+                    ))}
+                </div>
+              ))}
+
+              {/* Glass, cut-outs and glazing bead */}
+              {doorCuts.glazing.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <Separator className="my-2" />
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                    Glass (order separately)
+                  </h4>
+                  {doorCuts.glazing.map((g, i) => (
+                    <div key={i} className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
+                      <span className="text-muted-foreground">
+                        {g.group || 'Panels'}{g.detail ? ` — ${g.detail}` : ''}{g.shaped ? ' (to template)' : ''}
+                      </span>
+                      <div className="flex items-center gap-4">
+                        <span className="text-xs text-muted-foreground">×{g.qty}</span>
+                        <span className="font-mono font-medium">{L(g.glassWidth)} × {L(g.glassHeight)} {u}</span>
+                        <span className="font-mono text-xs text-muted-foreground">(cut-out {L(g.cutOutWidth)} × {L(g.cutOutHeight)})</span>
+                      </div>
+                    </div>
+                  ))}
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                    Glazing bead — {L(config.glazingBeadWidth)} {u}
+                  </h4>
+                  {doorCuts.glazingBeadCuts.map((b, i) => (
+                    <CutRow
+                      key={i}
+                      label={`${beadingCutName(b)}, ${pieceJointName(b, config)}`}
+                      longPoint={b.longPoint}
+                      shortPoint={b.shortPoint}
+                      cutLength={b.cutLength}
+                      qty={b.qty}
+                      units={units}
+                    />
+                  ))}
+                  {doorCuts.glazing.map((g, i) => g.arch && (
+                    <CutRow
+                      key={`arch-${i}`}
+                      label={`${glazingArchName(g)}, flexible, ${archMitres(g.arch)}`}
+                      longPoint={g.arch.longPoint}
+                      shortPoint={g.arch.shortPoint}
+                      cutLength={g.arch.cutLength}
+                      qty={g.arch.qty}
+                      units={units}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <Separator className="my-2" />
+
+              {/* Totals */}
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                Totals
+              </h4>
+              <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                <span className="text-muted-foreground">MDF panels</span>
+                <span className="font-mono font-medium">{doorCuts.panelCount} pieces</span>
               </div>
-              <div className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
-                <span className="text-muted-foreground">Bottom panels</span>
-                <div className="flex items-center gap-4">
-                  <span className="text-xs text-muted-foreground">×2</span>
-                  <span className="font-mono font-medium">
-                    {cuts.panelWidth} × {cuts.bottomPanelHeight} mm
-                  </span>
+              <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                <span className="text-muted-foreground">Beading pieces</span>
+                <span className="font-mono font-medium">{doorCuts.beadingCount} pieces</span>
+              </div>
+              <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                <span className="text-muted-foreground">Tolerance (panels / beading)</span>
+                <span className="font-mono font-medium">
+                  {formatBand(doorCuts.rounding.panelBand, units)} / {formatBand(doorCuts.rounding.beadingBand, units)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                <span className="text-muted-foreground">Total beading length</span>
+                <span className="font-mono font-medium">
+                  {L(doorCuts.totalBeadingLength, 0)}{' '}
+                  {u}
+                </span>
+              </div>
+              {doorCuts.totalBeadingLength !== doorCuts.idealBeadingLength && (
+                <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                  <span className="text-muted-foreground">Ideal beading length</span>
+                  <span className="font-mono text-muted-foreground">{L(doorCuts.idealBeadingLength, 0)} {u}</span>
                 </div>
+              )}
+              <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                <span className="text-muted-foreground">Beading stock to buy</span>
+                <span className="font-mono font-medium">{L(doorCuts.beadingStockLength, 0)} {u}</span>
+              </div>
+              {doorCuts.glazingBeadCount > 0 && (
+                <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                  <span className="text-muted-foreground">Glazing bead to buy</span>
+                  <span className="font-mono font-medium">{L(doorCuts.glazingBeadStockLength, 0)} {u}</span>
+                </div>
+              )}
+              {doorCuts.arches.length > 0 && (
+                <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
+                  <span className="text-muted-foreground">Flexible beading (arches)</span>
+                  <span className="font-mono font-medium">{L(doorCuts.flexibleBeadingLength, 0)} {u}</span>
+                </div>
+              )}
+            </CollapsibleCard>
+        )}
+
+        {/* Out-of-square adjustments */}
+        {doorCuts.isValid && doorCuts.shape && (
+          <CollapsibleCard
+            title="Out-of-Square Adjustments"
+            description="The layout is stretched to follow the measured edges, so margins stay even all round. Cut each piece to its own length; panels taper to match."
+            summary={<><SummaryBadge label="Corners" value={`${Math.min(...doorCuts.shape.cornerAngles)}–${Math.max(...doorCuts.shape.cornerAngles)}°`} />{doorCuts.shape.shape.fromDiagonals && <SummaryBadge label="Diag Δ" value={L(doorCuts.shape.diagonalDifference)} />}</>}
+          >
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                Beading, per piece
+              </h4>
+              <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 gap-y-1 text-sm items-center">
+                <div />
+                <div className="text-[10px] text-muted-foreground text-right uppercase">Long pt</div>
+                <div className="text-[10px] text-muted-foreground text-right uppercase">Short pt</div>
+                <div className="text-[10px] text-muted-foreground text-right uppercase">Change</div>
+                {doorCuts.shape.pieces.map((p, i) => (
+                  <Fragment key={i}>
+                    <div className="text-muted-foreground">{p.unit} {p.edge}</div>
+                    <div className="font-mono text-right font-medium">{L(p.longPoint)}</div>
+                    <div className="font-mono text-right text-muted-foreground">{L(p.shortPoint)}</div>
+                    <div className={`font-mono text-right text-xs ${p.change === 0 ? 'text-muted-foreground' : ''}`}>
+                      {p.change > 0 ? '+' : ''}{L(p.change)}
+                    </div>
+                  </Fragment>
+                ))}
               </div>
 
               <Separator className="my-2" />
 
-              {/* Top panel beading */}
               <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
-                Beading — Top Panels (45° mitre each end)
+                MDF panels
               </h4>
-              <CutRow
-                label="Horizontal (top & bottom)"
-                longPoint={cuts.topHorizontalBeading}
-                shortPoint={cuts.topHorizontalBeadingShort}
-                qty={4}
+              {doorCuts.shape.panels.map((p, i) => (
+                <div key={i} className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
+                  <span className="text-muted-foreground">{p.unit}</span>
+                  <span className="font-mono font-medium">
+                    {L(p.topWidth)}/{L(p.bottomWidth)} × {L(p.leftHeight)}/{L(p.rightHeight)} {u}
+                  </span>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Panels are top/bottom width × left/right height.</p>
+            </CollapsibleCard>
+        )}
+
+        {/* Arched tops */}
+        {doorCuts.isValid && doorCuts.arches.length > 0 && (
+          <CollapsibleCard
+            title="Arched Tops"
+            description="Flexible beading runs along the curve, measured on its outside (long) and inside (short) edges. Cut the MDF panel round the full-size template."
+            summary={<SummaryBadge label="Flexible" value={`${L(doorCuts.flexibleBeadingLength, 0)} ${u}`} />}
+          >
+              {doorCuts.arches.map((a, i) => (
+                <div key={i} className="flex flex-col gap-2">
+                  {i > 0 && <Separator className="my-2" />}
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                    {a.group || 'Panels'}{a.detail ? ` — ${a.detail}` : ''}: {rowShapeLabels[a.shape]}
+                  </h4>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    <div className="text-muted-foreground">Span × rise</div>
+                    <div className="font-mono text-right">{L(a.span)} × {L(a.rise)} {u}</div>
+                    <div className="text-muted-foreground">Radius (outer / inner)</div>
+                    <div className="font-mono text-right">{L(a.radius)} / {L(a.innerRadius)} {u}</div>
+                    <div className="text-muted-foreground">Flexible beading (×{a.qty})</div>
+                    <div className="font-mono text-right">
+                      {a.cutLength !== a.longPoint && <>{L(a.cutLength)}, </>}{L(a.longPoint)} → {L(a.shortPoint)} {u}
+                    </div>
+                    <div className="text-muted-foreground">Mitre at the sides</div>
+                    <div className="font-mono text-right">{a.springMitre > 0 ? formatAngle(a.springMitre) : 'square'}</div>
+                    {a.crownMitre > 0 && (
+                      <>
+                        <div className="text-muted-foreground">Mitre at the crown</div>
+                        <div className="font-mono text-right">{formatAngle(a.crownMitre)}</div>
+                      </>
+                    )}
+                    <div className="text-muted-foreground">Panel template radius</div>
+                    <div className="font-mono text-right">{L(a.template.radius)} {u}</div>
+                    <div className="text-muted-foreground">Panel chord × rise</div>
+                    <div className="font-mono text-right">{L(a.template.chord)} × {L(a.template.rise)} {u}</div>
+                    <div className="text-muted-foreground">Panel height (sides / crown)</div>
+                    <div className="font-mono text-right">{L(a.template.sideHeight)} / {L(a.template.height)} {u}</div>
+                  </div>
+                  <NativeSaveButton
+                    label="Save full-size template"
+                    fullWidth
+                    onSave={() =>
+                      window.api.saveFile({
+                        content: archTemplateSvg(config, doorCuts, a, `${activeDoor.name} — ${a.group || 'panels'}${a.detail ? ` ${a.detail}` : ''}`, units),
+                        fileName: `${activeDoor.name} ${a.group || 'panel'}${a.detail ? ` ${a.detail}` : ''} arch template.svg`,
+                        filters: [{ name: 'SVG', extensions: ['svg'] }],
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </CollapsibleCard>
+        )}
+
+        {/* Landing elevation */}
+        {activeGroup && (
+          <CollapsibleCard
+            title="Landing Elevation"
+            description={`Every door in ${activeGroup.name} at one scale, standing on the floor. The dashed line is the datum; a door marked in red can't reach it.`}
+            summary={<><SummaryBadge label="Doors" value={`${activeGroup.doorIds.length}`} /><SummaryBadge label="Datum" value={`${L(activeGroup.datum)} ${u}`} /></>}
+          >
+              <ElevationPreview group={activeGroup} doors={doors} units={units} />
+            </CollapsibleCard>
+        )}
+
+        {/* Beading stock plan */}
+        {doorCuts.isValid && (
+          <CollapsibleCard
+            title="Beading Stock Plan"
+            description={`Packs every beading piece into the stock lengths on sale, allowing ${L(config.sawKerf)} ${u} kerf per cut. Glazing bead is planned on lengths of its own.`}
+            summary={<>
+              {stockPlan.purchase.map((p) => (
+                <SummaryBadge key={p.stockLength} label={`${p.count} ×`} value={L(p.stockLength)} />
+              ))}
+              <SummaryBadge label="Offcut" value={`${L(stockPlan.totalOffcut, 0)} ${u}`} />
+            </>}
+          >
+              <div className="flex gap-2">
+                {(['door', 'all'] as const).map((scope) => (
+                  <button
+                    key={scope}
+                    onClick={() => setStock((prev) => ({ ...prev, scope }))}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      stock.scope === scope
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {scope === 'door' ? 'This door' : `All doors (${doors.length})`}
+                  </button>
+                ))}
+              </div>
+              {stock.lengths.map((len, i) => (
+                <div key={i} className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <SliderInput
+                      label={`Stock length ${i + 1}`}
+                      value={len}
+                      onChange={(v) => setStock((prev) => ({ ...prev, lengths: prev.lengths.map((l, li) => (li === i ? v : l)) }))}
+                      min={1000}
+                      max={6000}
+                      units={units}
+                    />
+                  </div>
+                  {stock.lengths.length > 1 && (
+                    <button
+                      onClick={() => setStock((prev) => ({ ...prev, lengths: prev.lengths.filter((_, li) => li !== i) }))}
+                      tabIndex={-1}
+                      className="p-1 rounded hover:bg-destructive/20"
+                      title="Remove stock length"
+                    >
+                      <Trash2 className="h-3 w-3 text-muted-foreground hover:text-destructive" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                onClick={() => setStock((prev) => ({ ...prev, lengths: [...prev.lengths, prev.lengths[prev.lengths.length - 1] ?? 2400] }))}
+                tabIndex={0}
+                data-card-tabbable
+                className="inline-flex items-center justify-center gap-1 w-full px-2 py-1.5 rounded-md text-xs font-medium border border-dashed border-border text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors"
+              >
+                <Plus className="h-3 w-3" /> Add stock length
+              </button>
+
+              <Separator className="my-2" />
+
+              <StockPlanBars plan={stockPlan} units={units} />
+              {stockPlan.unplaced.length > 0 && (
+                <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2">
+                  <div className="flex items-start gap-2 text-xs text-yellow-400">
+                    <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                    <span>
+                      {stockPlan.unplaced.length} piece{stockPlan.unplaced.length > 1 ? 's are' : ' is'} longer than any stock length — add a longer length or join them.
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <div className="text-muted-foreground">Lengths to buy</div>
+                <div className="font-mono text-right font-medium">
+                  {stockPlan.purchase.map((p) => `${p.count} × ${L(p.stockLength)}`).join(', ') || '—'}
+                </div>
+                <div className="text-muted-foreground">Offcut waste</div>
+                <div className="font-mono text-right">
+                  {L(stockPlan.totalOffcut, 0)} {u} ({stockPlan.totalStock > 0 ? ((stockPlan.totalOffcut / stockPlan.totalStock) * 100).toFixed(1) : '0.0'}%)
+                </div>
+              </div>
+
+              {glazingPlan.bars.length + glazingPlan.unplaced.length > 0 && (
+                <>
+                  <Separator className="my-2" />
+                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                    Glazing bead
+                  </h4>
+                  <StockPlanBars plan={glazingPlan} units={units} />
+                  {glazingPlan.unplaced.length > 0 && (
+                    <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2">
+                      <div className="flex items-start gap-2 text-xs text-yellow-400">
+                        <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                        <span>
+                          {glazingPlan.unplaced.length} piece{glazingPlan.unplaced.length > 1 ? 's are' : ' is'} longer than any stock length — add a longer length or join them.
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    <div className="text-muted-foreground">Lengths to buy</div>
+                    <div className="font-mono text-right font-medium">
+                      {glazingPlan.purchase.map((p) => `${p.count} × ${L(p.stockLength)}`).join(', ') || '—'}
+                    </div>
+                    <div className="text-muted-foreground">Offcut waste</div>
+                    <div className="font-mono text-right">
+                      {L(glazingPlan.totalOffcut, 0)} {u} ({glazingPlan.totalStock > 0 ? ((glazingPlan.totalOffcut / glazingPlan.totalStock) * 100).toFixed(1) : '0.0'}%)
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <CopyButton
+                text={formatStockPlanText(stock.scope === 'all' ? `All doors (${doors.length})` : activeDoor.name, stockPlan, config.sawKerf, units, glazingPlan)}
+                label="Copy stock plan"
+                fullWidth
+              />
+            </CollapsibleCard>
+        )}
+
+        {/* MDF sheet plan */}
+        {doorCuts.isValid && (
+          <CollapsibleCard
+            title="MDF Sheet Plan"
+            description={`Nests the panels from all ${doors.length} door${doors.length > 1 ? 's' : ''} onto MDF sheets, allowing ${L(config.sawKerf)} ${u} kerf per cut.`}
+            defaultOpen={false}
+            summary={<>
+              <SummaryBadge label="Sheets" value={`${sheetPlan.sheets.length}`} />
+              <SummaryBadge label="Used" value={`${(sheetPlan.utilisation * 100).toFixed(0)}%`} />
+            </>}
+          >
+              <SliderInput
+                label="Sheet length"
+                value={sheet.length}
+                onChange={(v) => setSheet((prev) => ({ ...prev, length: v }))}
+                min={600}
+                max={3660}
+                units={units}
               />
-              <CutRow
-                label="Vertical (left & right)"
-                longPoint={cuts.topVerticalBeading}
-                shortPoint={cuts.topVerticalBeadingShort}
-                qty={4}
+              <SliderInput
+                label="Sheet width"
+                value={sheet.width}
+                onChange={(v) => setSheet((prev) => ({ ...prev, width: v }))}
+                min={300}
+                max={1830}
+                units={units}
               />
+              <div className="flex gap-2">
+                {([false, true] as const).map((grainLock) => (
+                  <button
+                    key={`${grainLock}`}
+                    onClick={() => setSheet((prev) => ({ ...prev, grainLock }))}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      sheet.grainLock === grainLock
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {grainLock ? 'Grain locked' : 'Allow rotation'}
+                  </button>
+                ))}
+              </div>
 
               <Separator className="my-2" />
 
-              {/* Bottom panel beading */}
+              <SheetDiagram plan={sheetPlan} units={units} />
+              {sheetPlan.unplaced.length > 0 && (
+                <div className="rounded-md bg-yellow-500/10 border border-yellow-500/30 px-3 py-2">
+                  <div className="flex items-start gap-2 text-xs text-yellow-400">
+                    <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                    <span>
+                      {sheetPlan.unplaced.length} panel{sheetPlan.unplaced.length > 1 ? 's are' : ' is'} larger than a sheet{sheet.grainLock ? ' — try allowing rotation' : ''}.
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <div className="text-muted-foreground">Sheets needed</div>
+                <div className="font-mono text-right font-medium">
+                  {sheetPlan.sheets.length} × {L(sheet.length)} × {L(sheet.width)}
+                </div>
+                <div className="text-muted-foreground">Utilisation</div>
+                <div className="font-mono text-right">{(sheetPlan.utilisation * 100).toFixed(1)}%</div>
+              </div>
+
+              <CopyButton
+                text={formatSheetPlanText(sheetPlan, config.sawKerf, sheet.grainLock, units)}
+                label="Copy sheet plan"
+                fullWidth
+              />
+            </CollapsibleCard>
+        )}
+
+        {/* Materials & quote */}
+        {doorCuts.isValid && (
+          <CollapsibleCard
+            title="Materials & Quote"
+            description="Material prices and what this project costs. Per-door figures share out the project purchase by what each door uses."
+            defaultOpen={false}
+            summary={<>
+              <SummaryBadge label="Door" value={formatMoney(activeDoorCost.total, prices)} />
+              {doors.length > 1 && <SummaryBadge label="Project" value={formatMoney(projectCost.total, prices)} />}
+            </>}
+          >
               <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
-                Beading — Bottom Panels (45° mitre each end)
+                Prices
               </h4>
-              <CutRow
-                label="Horizontal (top & bottom)"
-                longPoint={cuts.bottomHorizontalBeading}
-                shortPoint={cuts.bottomHorizontalBeadingShort}
-                qty={4}
-              />
-              <CutRow
-                label="Vertical (left & right)"
-                longPoint={cuts.bottomVerticalBeading}
-                shortPoint={cuts.bottomVerticalBeadingShort}
-                qty={4}
-              />
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">Currency symbol</Label>
+                <Input
+                  value={prices.currency}
+                  onChange={(e) => setPrice('currency', e.target.value)}
+                  className="w-24 h-7 text-xs text-right font-mono"
+                />
+              </div>
+              <div className="flex gap-2">
+                {(['metre', 'length'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setPrice('beadingMode', mode)}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      prices.beadingMode === mode
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {mode === 'metre' ? 'Beading per metre' : 'Beading per length'}
+                  </button>
+                ))}
+              </div>
+              {prices.beadingMode === 'metre' ? (
+                <SliderInput label="Beading, per metre" value={prices.beadingPerMetre} onChange={(v) => setPrice('beadingPerMetre', v)} suffix={prices.currency} max={20} step={0.01} />
+              ) : (
+                [...new Set(stock.lengths)].map((len) => (
+                  <SliderInput
+                    key={len}
+                    label={`Beading, per ${L(len)} ${u} length`}
+                    value={stockLengthPrice(len, prices)}
+                    onChange={(v) => setPrice('beadingLengthPrices', { ...prices.beadingLengthPrices, [len]: v })}
+                    suffix={prices.currency}
+                    max={60}
+                    step={0.01}
+                  />
+                ))
+              )}
+              <SliderInput label="Flexible beading, per metre" value={prices.flexibleBeadingPerMetre} onChange={(v) => setPrice('flexibleBeadingPerMetre', v)} suffix={prices.currency} max={30} step={0.01} />
+              <SliderInput label="Glazing bead, per metre" value={prices.glazingBeadPerMetre} onChange={(v) => setPrice('glazingBeadPerMetre', v)} suffix={prices.currency} max={20} step={0.01} />
+              <SliderInput label="MDF, per sheet" value={prices.mdfPerSheet} onChange={(v) => setPrice('mdfPerSheet', v)} suffix={prices.currency} max={150} step={0.01} />
+              <SliderInput label={`Pins, per pack of ${prices.pinsPerPack}`} value={prices.pinPackPrice} onChange={(v) => setPrice('pinPackPrice', v)} suffix={prices.currency} max={30} step={0.01} />
+              <SliderInput label="Pins per pack" value={prices.pinsPerPack} onChange={(v) => setPrice('pinsPerPack', v)} suffix="pcs" min={1} max={5000} />
+              <SliderInput label="Pins per beading piece" value={prices.pinsPerPiece} onChange={(v) => setPrice('pinsPerPiece', v)} suffix="pcs" max={10} />
+              <SliderInput label="Adhesive, per tube" value={prices.adhesivePerTube} onChange={(v) => setPrice('adhesivePerTube', v)} suffix={prices.currency} max={30} step={0.01} />
+              <SliderInput label="Beading fixed per tube" value={prices.beadingPerTube} onChange={(v) => setPrice('beadingPerTube', v)} suffix="m" min={1} max={50} />
+              <SliderInput label="Paint, per tin" value={prices.paintPerTin} onChange={(v) => setPrice('paintPerTin', v)} suffix={prices.currency} max={100} step={0.01} />
+              <SliderInput label="Paint coverage per tin" value={prices.paintCoverage} onChange={(v) => setPrice('paintCoverage', v)} suffix="m²" min={1} max={40} />
+              <SliderInput label="Paint coats" value={prices.paintCoats} onChange={(v) => setPrice('paintCoats', v)} suffix="×" max={5} />
 
               <Separator className="my-2" />
 
-              {/* Totals */}
               <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
-                Totals
+                {activeDoor.name}
               </h4>
+              {activeDoorCost.lines.map((l) => (
+                <div key={l.item} className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
+                  <span className="text-muted-foreground">{l.item}</span>
+                  <span className="font-mono font-medium">{formatMoney(l.cost, prices)}</span>
+                </div>
+              ))}
               <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
-                <span className="text-muted-foreground">MDF panels</span>
-                <span className="font-mono font-medium">4 pieces</span>
-              </div>
-              <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
-                <span className="text-muted-foreground">Beading pieces</span>
-                <span className="font-mono font-medium">16 pieces</span>
+                <span className="text-muted-foreground">Door total</span>
+                <span className="font-mono font-medium">{formatMoney(activeDoorCost.total, prices)}</span>
               </div>
+
+              <Separator className="my-2" />
+
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                Project ({doors.length} door{doors.length > 1 ? 's' : ''})
+              </h4>
+              {projectCost.lines.map((l) => (
+                <div key={l.item} className="flex items-center justify-between py-1.5 px-2 rounded hover:bg-muted/50 text-sm">
+                  <span className="text-muted-foreground">{l.item}</span>
+                  <div className="flex items-center gap-4">
+                    <span className="text-xs text-muted-foreground">{l.quantity}</span>
+                    <span className="font-mono font-medium">{formatMoney(l.cost, prices)}</span>
+                  </div>
+                </div>
+              ))}
+              {doors.length > 1 && projectCost.doors.map((d, i) => (
+                <div key={i} className="flex items-center justify-between py-1 px-2 text-xs">
+                  <span className="text-muted-foreground">{d.name}</span>
+                  <span className="font-mono">{formatMoney(d.total, prices)}</span>
+                </div>
+              ))}
               <div className="flex items-center justify-between py-1.5 px-2 rounded text-sm bg-muted/30">
-                <span className="text-muted-foreground">Total beading length</span>
-                <span className="font-mono font-medium">
-                  {(
-                    cuts.topHorizontalBeading * 4 +
-                    cuts.topVerticalBeading * 4 +
-                    cuts.bottomHorizontalBeading * 4 +
-                    cuts.bottomVerticalBeading * 4
-                  ).toFixed(0)}{' '}
-                  mm
-                </span>
+                <span className="text-muted-foreground">Project total</span>
+                <span className="font-mono font-medium">{formatMoney(projectCost.total, prices)}</span>
               </div>
+
+              <CopyButton
+                text={[`📅 ${formatTimestamp()}`, ``, ...formatQuoteText(projectCost, prices)].join('\n')}
+                label="Copy quote"
+                fullWidth
+              />
             </CollapsibleCard>
         )}
 
         {/* Fitting Guide */}
-        {cuts.isValid && (
+        {doorCuts.isValid && (
           <CollapsibleCard
             title="Fitting Guide"
-            description="Pin the top beading piece first, then square the remaining sides from it. Positions measured from the top-left corner of the door."
+            description={`Pin the top beading piece first, then square the remaining sides from it. Positions measured from the top-left corner of the ${door.back ? 'face, as you look at it' : 'door'}.`}
             summary={<>
-              {cuts.unitPositions.map((up) => (
-                <SummaryBadge key={up.label} label={`${up.label}: (${up.pinX},${up.pinY})`} />
+              {doorCuts.unitPositions.map((up) => (
+                <SummaryBadge key={up.label} label={`${up.label}: (${L(up.pinX)},${L(up.pinY)})`} />
               ))}
             </>}
           >
-              {cuts.unitPositions.map((up) => (
+              {doorCuts.unitPositions.map((up) => (
                 <div key={up.label} className="rounded-md bg-muted/30 px-3 py-2">
                   <h4 className="text-xs font-semibold text-foreground mb-1.5">{up.label}</h4>
                   <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
                     <div className="text-muted-foreground">Top beading Y</div>
-                    <div className="font-mono text-right">{up.beadingY} mm from top</div>
+                    <div className="font-mono text-right">{L(up.beadingY)} {u} from top</div>
                     <div className="text-muted-foreground">Top beading X span</div>
-                    <div className="font-mono text-right">{up.beadingLeftX} → {up.beadingRightX} mm</div>
+                    <div className="font-mono text-right">{L(up.beadingLeftX)} → {L(up.beadingRightX)} {u}</div>
                     <div className="text-muted-foreground">Center pin</div>
-                    <div className="font-mono text-right font-medium">({up.pinX}, {up.pinY}) mm</div>
+                    <div className="font-mono text-right font-medium">({L(up.pinX)}, {L(up.pinY)}) {u}</div>
                   </div>
                 </div>
               ))}
+
+              <Separator className="my-2" />
+              {(() => {
+                const templateName = `${activeDoor.name}${door.back ? ` ${viewFace} face` : ''} marking template`
+                return (
+                  <>
+                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-1">
+                      Marking template{door.back ? ` — ${viewFace} face` : ''}
+                    </h4>
+                    <p className="text-xs text-muted-foreground">
+                      Full size, to tape to the door and mark through: beading outlines, pin holes and the handle. The PDF is tiled across {paperSizeLabels[paper]} pages with targets to line them up and a ruler to check the scale.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      <NativeSaveButton
+                        label="Save SVG"
+                        onSave={() => window.api.saveFile({ content: markingTemplateSvg(templateName, viewConfig, units), fileName: `${templateName}.svg`, filters: [{ name: 'SVG', extensions: ['svg'] }] })}
+                      />
+                      <PdfButton
+                        html={() => markingTemplateHtml(templateName, viewConfig, units, paper)}
+                        fileName={`${templateName}.pdf`}
+                        paper={paper}
+                        label="Save tiled PDF"
+                      />
+                    </div>
+                  </>
+                )
+              })()}
             </CollapsibleCard>
         )}
 
         {/* Summary & Share */}
-        {cuts.isValid && (
+        {doorCuts.isValid && (
           <CollapsibleCard
             title="Summary"
             description="Complete measurements for this door."
             summary={<>
-              <SummaryBadge label={`${config.doorWidth}×${config.doorHeight}`} />
-              <SummaryBadge label={`4 MDF + 16 beading`} />
+              <SummaryBadge label={`${L(config.doorWidth)}×${L(config.doorHeight)}`} />
+              <SummaryBadge label="MDF" value={`${doorCuts.panelCount}`} />
+              <SummaryBadge label="Beading" value={`${doorCuts.beadingCount}`} />
             </>}
           >
               {/* Door setup */}
               <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
                 <div className="text-muted-foreground">Door size</div>
-                <div className="font-mono text-right">{config.doorWidth} × {config.doorHeight} mm</div>
+                <div className="font-mono text-right">{L(config.doorWidth)} × {L(config.doorHeight)} {u}</div>
+                <div className="text-muted-foreground">Layout (rows × cols)</div>
+                <div className="font-mono text-right">{doorCuts.rows} × {doorCuts.columns}</div>
                 <div className="text-muted-foreground">Margins (T/B/L/R)</div>
-                <div className="font-mono text-right">{config.topMargin} / {config.bottomMargin} / {config.leftMargin} / {config.rightMargin} mm</div>
+                <div className="font-mono text-right">{L(config.topMargin)} / {L(config.bottomMargin)} / {L(config.leftMargin)} / {L(config.rightMargin)} {u}</div>
                 <div className="text-muted-foreground">Gaps (H/V)</div>
-                <div className="font-mono text-right">{config.horizontalGap} / {config.verticalGap} mm</div>
+                <div className="font-mono text-right">{L(config.horizontalGap)} / {L(config.verticalGap)} {u}</div>
                 <div className="text-muted-foreground">Beading width</div>
-                <div className="font-mono text-right">{config.beadingWidth} mm</div>
+                <div className="font-mono text-right">{L(config.beadingWidth)} {u}</div>
                 <div className="text-muted-foreground">Panel–beading gap</div>
-                <div className="font-mono text-right">{cuts.panelBeadingGap} mm</div>
+                <div className="font-mono text-right">{L(doorCuts.panelBeadingGap)} {u}</div>
               </div>
 
               <Separator />
@@ -1661,10 +4603,12 @@ export function DoorCalculator() {
               <div>
                 <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">MDF Panels</h4>
                 <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
-                  <div className="text-muted-foreground">Top panels (×2)</div>
-                  <div className="font-mono text-right">{cuts.panelWidth} × {cuts.topPanelHeight} mm</div>
-                  <div className="text-muted-foreground">Bottom panels (×2)</div>
-                  <div className="font-mono text-right">{cuts.panelWidth} × {cuts.bottomPanelHeight} mm</div>
+                  {doorCuts.panelCuts.map((p, i) => (
+                    <Fragment key={i}>
+                      <div className="text-muted-foreground">{p.label} (×{p.qty})</div>
+                      <div className="font-mono text-right">{L(p.width)} × {L(p.height)} {u}</div>
+                    </Fragment>
+                  ))}
                 </div>
               </div>
 
@@ -1672,27 +4616,21 @@ export function DoorCalculator() {
 
               {/* Beading */}
               <div>
-                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Beading (45° mitres)</h4>
-                <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-1 text-sm items-center">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Beading ({jointDescription(config)})</h4>
+                <div className={`grid ${oversized ? 'grid-cols-[1fr_auto_auto_auto]' : 'grid-cols-[1fr_auto_auto]'} gap-x-3 gap-y-1 text-sm items-center`}>
                   <div />
+                  {oversized && <div className="text-[10px] text-muted-foreground text-right uppercase">Cut to</div>}
                   <div className="text-[10px] text-muted-foreground text-right uppercase">Long pt</div>
                   <div className="text-[10px] text-muted-foreground text-right uppercase">Short pt</div>
 
-                  <div className="text-muted-foreground">Top horiz (×4)</div>
-                  <div className="font-mono text-right">{cuts.topHorizontalBeading}</div>
-                  <div className="font-mono text-right text-muted-foreground">{cuts.topHorizontalBeadingShort}</div>
-
-                  <div className="text-muted-foreground">Top vert (×4)</div>
-                  <div className="font-mono text-right">{cuts.topVerticalBeading}</div>
-                  <div className="font-mono text-right text-muted-foreground">{cuts.topVerticalBeadingShort}</div>
-
-                  <div className="text-muted-foreground">Bottom horiz (×4)</div>
-                  <div className="font-mono text-right">{cuts.bottomHorizontalBeading}</div>
-                  <div className="font-mono text-right text-muted-foreground">{cuts.bottomHorizontalBeadingShort}</div>
-
-                  <div className="text-muted-foreground">Bottom vert (×4)</div>
-                  <div className="font-mono text-right">{cuts.bottomVerticalBeading}</div>
-                  <div className="font-mono text-right text-muted-foreground">{cuts.bottomVerticalBeadingShort}</div>
+                  {doorCuts.beadingCuts.map((b, i) => (
+                    <Fragment key={i}>
+                      <div className="text-muted-foreground">{beadingCutName(b).replace('horizontal', 'horiz').replace('vertical', 'vert')} (×{b.qty})</div>
+                      {oversized && <div className="font-mono text-right font-medium">{L(b.cutLength)}</div>}
+                      <div className="font-mono text-right">{L(b.longPoint)}</div>
+                      <div className="font-mono text-right text-muted-foreground">{L(b.shortPoint)}</div>
+                    </Fragment>
+                  ))}
                 </div>
               </div>
 
@@ -1701,17 +4639,16 @@ export function DoorCalculator() {
               {/* Totals */}
               <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
                 <div className="text-muted-foreground">Total MDF pieces</div>
-                <div className="font-mono text-right font-medium">4</div>
+                <div className="font-mono text-right font-medium">{doorCuts.panelCount}</div>
                 <div className="text-muted-foreground">Total beading pieces</div>
-                <div className="font-mono text-right font-medium">16</div>
+                <div className="font-mono text-right font-medium">{doorCuts.beadingCount}</div>
                 <div className="text-muted-foreground">Total beading length</div>
                 <div className="font-mono text-right font-medium">
-                  {(
-                    cuts.topHorizontalBeading * 4 +
-                    cuts.topVerticalBeading * 4 +
-                    cuts.bottomHorizontalBeading * 4 +
-                    cuts.bottomVerticalBeading * 4
-                  ).toFixed(0)} mm
+                  {L(doorCuts.totalBeadingLength, 0)} {u}
+                </div>
+                <div className="text-muted-foreground">Beading stock to buy</div>
+                <div className="font-mono text-right font-medium">
+                  {L(doorCuts.beadingStockLength, 0)} {u}
                 </div>
               </div>
 
@@ -1719,8 +4656,62 @@ export function DoorCalculator() {
 
               {/* Copy buttons */}
               <div className="flex flex-wrap gap-2">
-                <CopyButton text={formatSummaryText(activeDoor.name, config, cuts)} label="Copy full summary" />
-                <CopyButton text={formatCompactText(activeDoor.name, config, cuts)} label="Copy compact" />
+                <CopyButton text={formatSummaryText(activeDoor.name, door, doorCuts, units, { door: activeDoorCost, prices })} label="Copy full summary" />
+                <CopyButton text={formatCompactText(activeDoor.name, door, doorCuts, units)} label="Copy compact" />
+              </div>
+            </CollapsibleCard>
+        )}
+
+        {/* Workshop sheet */}
+        {doorCuts.isValid && (
+          <CollapsibleCard
+            title="Workshop Sheet"
+            description="A printable sheet with the preview, a dimensioned drawing, the cut list, the fitting guide and notes, saved as a PDF."
+            defaultOpen={false}
+            summary={<SummaryBadge label="Paper" value={paperSizeLabels[paper]} />}
+          >
+              <div className="flex gap-1">
+                {(Object.keys(paperSizeLabels) as PaperSize[]).map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => setPaper(p)}
+                    tabIndex={-1}
+                    className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                      paper === p
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                    }`}
+                  >
+                    {paperSizeLabels[p]}
+                  </button>
+                ))}
+              </div>
+              <Label className="text-xs text-muted-foreground">Notes for {activeDoor.name}</Label>
+              <textarea
+                value={activeDoor.notes ?? ''}
+                onChange={(e) => {
+                  const notes = e.target.value
+                  setDoors((prev) => prev.map((d) => (d.id === activeDoor.id ? { ...d, notes } : d)))
+                }}
+                rows={3}
+                placeholder="Paint colour, fixing order, anything for the workshop…"
+                className="w-full rounded-md border border-input bg-transparent px-2 py-1.5 text-xs shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-y"
+              />
+              <div className="flex flex-wrap gap-2">
+                <PdfButton
+                  html={() => doorSheetHtml(activeDoor, doorCuts, units, paper, { door: activeDoorCost, prices })}
+                  fileName={`${activeDoor.name} workshop sheet.pdf`}
+                  paper={paper}
+                  label="Save door PDF"
+                />
+                {doors.length > 1 && (
+                  <PdfButton
+                    html={() => projectSheetHtml(doors, units, paper, { project: projectCost, prices })}
+                    fileName="Project workshop sheets.pdf"
+                    paper={paper}
+                    label={`Save project PDF (${doors.length} doors)`}
+                  />
+                )}
               </div>
             </CollapsibleCard>
         )}
@@ -0,0 +1,14 @@
+import { resolve } from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@renderer': resolve('src/renderer/src'),
+      '@': resolve('src/renderer/src')
+    }
+  },
+  test: {
+    include: ['src/**/*.test.ts']
+  }
+})